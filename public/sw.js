@@ -122,6 +122,20 @@ self.addEventListener('fetch', (event) => {
   );
 });
 
+// Background sync event - queued entry changes are sent by the app itself, which
+// holds the signed-in session, so wake any open window and let it replay them
+self.addEventListener('sync', (event) => {
+  if (event.tag === 'sync-transport-entries') {
+    event.waitUntil(
+      self.clients.matchAll({ type: 'window' }).then((windowClients) => {
+        windowClients.forEach((client) => {
+          client.postMessage({ type: 'background-sync', tag: event.tag });
+        });
+      })
+    );
+  }
+});
+
 // Push notification event
 self.addEventListener('push', function(event) {
   const data = event.data ? event.data.json() : {};
@@ -5,9 +5,22 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { AuthProvider } from "@/hooks/use-auth";
+import ProtectedRoute from "@/components/ProtectedRoute";
 import Index from "./pages/Index";
+import LoginPage from "./pages/LoginPage";
 import DataEntryPage from "./pages/DataEntryPage";
 import EditEntryPage from "./pages/EditEntryPage";
+import PartiesPage from "./pages/PartiesPage";
+import PartyStatementPage from "./pages/PartyStatementPage";
+import VehiclesPage from "./pages/VehiclesPage";
+import DriversPage from "./pages/DriversPage";
+import LorryReceiptPage from "./pages/LorryReceiptPage";
+import InvoicesPage from "./pages/InvoicesPage";
+import ImportEntriesPage from "./pages/ImportEntriesPage";
+import SettingsPage from "./pages/SettingsPage";
+import UsersPage from "./pages/UsersPage";
+import TrashPage from "./pages/TrashPage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient({
@@ -26,12 +39,31 @@ const App = () => {
         <Toaster />
         <Sonner />
         <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/add-entry" element={<DataEntryPage />} />
-            <Route path="/edit-entry/:id" element={<EditEntryPage />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <AuthProvider>
+            <Routes>
+              <Route path="/login" element={<LoginPage />} />
+              <Route element={<ProtectedRoute />}>
+                <Route path="/" element={<Index />} />
+                <Route path="/add-entry" element={<DataEntryPage />} />
+                <Route path="/edit-entry/:id" element={<EditEntryPage />} />
+                <Route path="/parties" element={<PartiesPage />} />
+                <Route path="/parties/:id" element={<PartyStatementPage />} />
+                <Route path="/vehicles" element={<VehiclesPage />} />
+                <Route path="/drivers" element={<DriversPage />} />
+                <Route path="/lorry-receipt/:id" element={<LorryReceiptPage />} />
+                <Route path="/invoices" element={<InvoicesPage />} />
+                <Route element={<ProtectedRoute roles={['owner', 'accountant']} />}>
+                  <Route path="/import-entries" element={<ImportEntriesPage />} />
+                </Route>
+                <Route element={<ProtectedRoute roles={['owner']} />}>
+                  <Route path="/settings" element={<SettingsPage />} />
+                  <Route path="/users" element={<UsersPage />} />
+                  <Route path="/trash" element={<TrashPage />} />
+                </Route>
+              </Route>
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </AuthProvider>
         </BrowserRouter>
       </TooltipProvider>
     </QueryClientProvider>
@@ -0,0 +1,44 @@
+import { useState } from "react";
+import { Building2, Loader2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCompany } from "@/hooks/use-company";
+
+// Picks the firm or branch the whole app works in; hidden when there is only one
+const CompanySwitcher = () => {
+  const { companies, currentCompany, switchCompany } = useCompany();
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  if (companies.length < 2) return null;
+
+  const handleChange = async (companyId: string) => {
+    setIsSwitching(true);
+    await switchCompany(companyId);
+    setIsSwitching(false);
+  };
+
+  return (
+    <Select value={currentCompany?.id} onValueChange={handleChange} disabled={isSwitching}>
+      <SelectTrigger className="w-[220px] gap-2">
+        {isSwitching ? (
+          <Loader2 className="h-4 w-4 shrink-0 animate-spin" />
+        ) : (
+          <Building2 className="h-4 w-4 shrink-0" />
+        )}
+        <SelectValue placeholder="Select company" />
+      </SelectTrigger>
+      <SelectContent>
+        {companies.map((company) => (
+          <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default CompanySwitcher;
@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CSV_DELIMITERS, CsvDelimiter } from "@/lib/csv";
+import {
+  CsvExportOptions,
+  ENTRY_CSV_COLUMNS,
+  EntryCsvColumn,
+  loadCsvExportOptions,
+  saveCsvExportOptions,
+} from "@/utils/csvExport";
+
+interface CsvExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onExport: (options: CsvExportOptions) => void;
+  showColumns?: boolean; // Off for reports whose columns are fixed
+}
+
+// Column, delimiter and encoding choices for every CSV export; remembers the last ones used
+const CsvExportDialog = ({ open, onOpenChange, onExport, showColumns = true }: CsvExportDialogProps) => {
+  const [options, setOptions] = useState<CsvExportOptions>(loadCsvExportOptions);
+
+  useEffect(() => {
+    if (open) {
+      setOptions(loadCsvExportOptions());
+    }
+  }, [open]);
+
+  const toggleColumn = (key: EntryCsvColumn, checked: boolean) => {
+    setOptions({
+      ...options,
+      columns: checked
+        ? ENTRY_CSV_COLUMNS.map((column) => column.key).filter((column) => column === key || options.columns.includes(column))
+        : options.columns.filter((column) => column !== key),
+    });
+  };
+
+  const handleExport = () => {
+    saveCsvExportOptions(options);
+    onExport(options);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Export CSV</DialogTitle>
+          <DialogDescription>
+            Choose what goes into the file and how it is written.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-5">
+          {showColumns && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Columns</Label>
+                <div className="flex gap-2">
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0"
+                    onClick={() => setOptions({ ...options, columns: ENTRY_CSV_COLUMNS.map((column) => column.key) })}
+                  >
+                    All
+                  </Button>
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0"
+                    onClick={() => setOptions({ ...options, columns: [] })}
+                  >
+                    None
+                  </Button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+                {ENTRY_CSV_COLUMNS.map((column) => (
+                  <div key={column.key} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`csv-column-${column.key}`}
+                      checked={options.columns.includes(column.key)}
+                      onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                    />
+                    <Label htmlFor={`csv-column-${column.key}`} className="font-normal">
+                      {column.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="grid gap-4 sm:grid-cols-2 sm:items-end">
+            <div className="space-y-2">
+              <Label>Delimiter</Label>
+              <Select
+                value={options.delimiter}
+                onValueChange={(value) => setOptions({ ...options, delimiter: value as CsvDelimiter })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CSV_DELIMITERS.map((delimiter) => (
+                    <SelectItem key={delimiter.label} value={delimiter.value}>{delimiter.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch
+                id="csv-bom"
+                checked={options.includeBom}
+                onCheckedChange={(checked) => setOptions({ ...options, includeBom: checked })}
+              />
+              <Label htmlFor="csv-bom" className="font-normal">UTF-8 BOM (for Excel)</Label>
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button onClick={handleExport} disabled={showColumns && options.columns.length === 0}>
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CsvExportDialog;
@@ -0,0 +1,105 @@
+import { format } from "date-fns";
+import { Loader2, Pencil, Plus, Trash } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { cn } from "@/lib/utils";
+import { AUDIT_TABLE_LABELS, formatAuditValue, getFieldLabel, getVisibleChanges } from "@/lib/audit";
+import { fetchEntryHistory } from "@/services/auditService";
+import { fetchDrivers } from "@/services/driverService";
+import { AuditAction } from "@/types/audit";
+import { Badge } from "@/components/ui/badge";
+
+interface EntryHistoryProps {
+  entryId: string;
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  INSERT: "added",
+  UPDATE: "changed",
+  DELETE: "removed",
+};
+
+const ACTION_ICONS: Record<AuditAction, typeof Plus> = {
+  INSERT: Plus,
+  UPDATE: Pencil,
+  DELETE: Trash,
+};
+
+const EntryHistory = ({ entryId }: EntryHistoryProps) => {
+  // Nested under ['transportEntries'] so every save that refreshes entries refreshes this too
+  const { data: events = [], isLoading } = useQuery({
+    queryKey: ['transportEntries', entryId, 'history'],
+    queryFn: () => fetchEntryHistory(entryId),
+  });
+
+  const { data: drivers = [] } = useQuery({
+    queryKey: ['drivers'],
+    queryFn: fetchDrivers,
+  });
+
+  const formatValue = (field: string, value: unknown) =>
+    field === "driver_id" && value
+      ? drivers.find((driver) => driver.id === value)?.name || "Removed driver"
+      : formatAuditValue(field, value);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return <p className="text-center py-6 text-slate-500">No changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative space-y-6 border-l border-slate-200 pl-6">
+      {events.map((event) => {
+        const Icon = ACTION_ICONS[event.action];
+        const changes = getVisibleChanges(event);
+        return (
+          <li key={event.id} className="relative">
+            <span
+              className={cn(
+                "absolute -left-[37px] flex h-6 w-6 items-center justify-center rounded-full border bg-white",
+                event.action === "DELETE" ? "text-red-600" : "text-primary"
+              )}
+            >
+              <Icon className="h-3 w-3" />
+            </span>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline">{AUDIT_TABLE_LABELS[event.table]}</Badge>
+              <span className="font-medium">
+                {event.changedByName} {ACTION_LABELS[event.action]} {event.table === "transport_entries" ? "the entry" : `a ${AUDIT_TABLE_LABELS[event.table].toLowerCase()}`}
+              </span>
+              <span className="text-slate-500">{format(event.changedAt, "dd/MM/yyyy HH:mm")}</span>
+            </div>
+            {changes.length > 0 && (
+              <dl className="mt-2 grid gap-1 text-sm">
+                {changes.map((change) => (
+                  <div key={change.field} className="flex flex-wrap gap-x-2">
+                    <dt className="text-slate-500">{getFieldLabel(change.field)}:</dt>
+                    <dd>
+                      {event.action === "UPDATE" && (
+                        <>
+                          <span className="text-red-600 line-through">{formatValue(change.field, change.oldValue)}</span>
+                          {" → "}
+                        </>
+                      )}
+                      <span className={event.action === "DELETE" ? "text-slate-500" : "text-green-700"}>
+                        {formatValue(change.field, event.action === "DELETE" ? change.oldValue : change.newValue)}
+                      </span>
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default EntryHistory;
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  formatMergeValue,
+  getDefaultChoices,
+  getDifferingFields,
+  MERGE_FIELD_LABELS,
+  MergeChoice,
+  MergeField,
+  mergeEntries,
+} from "@/lib/entryConflicts";
+import { resolveSyncConflict } from "@/services/transportService";
+import { EntryConflict } from "@/types/sync";
+
+interface EntryMergeDialogProps {
+  conflict: EntryConflict | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onResolved: () => void;
+}
+
+// Field by field choice between an edit and the version someone else saved first
+const EntryMergeDialog = ({ conflict, open, onOpenChange, onResolved }: EntryMergeDialogProps) => {
+  const [choices, setChoices] = useState<Partial<Record<MergeField, MergeChoice>>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (conflict) {
+      setChoices(getDefaultChoices(conflict.mine, conflict.theirs, conflict.base));
+    }
+  }, [conflict]);
+
+  if (!conflict) return null;
+
+  const fields = getDifferingFields(conflict.mine, conflict.theirs);
+
+  const resolve = async (keepTheirs: boolean) => {
+    setIsSaving(true);
+    const success = await resolveSyncConflict(
+      conflict.theirs.id,
+      keepTheirs ? null : mergeEntries(conflict.mine, conflict.theirs, choices)
+    );
+    setIsSaving(false);
+    if (success) {
+      onResolved();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Someone else saved this entry first</DialogTitle>
+          <DialogDescription>
+            Pick which value to keep for each field that differs. Fields only they changed start on their value.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          {fields.length === 0 ? (
+            <p className="text-sm text-slate-500">Both versions now have the same details.</p>
+          ) : (
+            fields.map((field) => (
+              <div key={field} className="grid gap-2 sm:grid-cols-[140px_1fr_1fr] sm:items-center">
+                <span className="text-sm font-medium">{MERGE_FIELD_LABELS[field]}</span>
+                <Button
+                  type="button"
+                  variant={choices[field] === "mine" ? "default" : "outline"}
+                  className="h-auto justify-start whitespace-normal text-left"
+                  onClick={() => setChoices({ ...choices, [field]: "mine" })}
+                >
+                  <span>
+                    <span className="block text-xs opacity-70">Keep mine</span>
+                    {formatMergeValue(conflict.mine, field)}
+                  </span>
+                </Button>
+                <Button
+                  type="button"
+                  variant={choices[field] === "theirs" ? "default" : "outline"}
+                  className="h-auto justify-start whitespace-normal text-left"
+                  onClick={() => setChoices({ ...choices, [field]: "theirs" })}
+                >
+                  <span>
+                    <span className="block text-xs opacity-70">Keep theirs</span>
+                    {formatMergeValue(conflict.theirs, field)}
+                  </span>
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => resolve(true)} disabled={isSaving}>
+            Discard My Changes
+          </Button>
+          <Button onClick={() => resolve(false)} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Merged Entry
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EntryMergeDialog;
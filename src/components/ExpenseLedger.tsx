@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Edit, Loader2, Plus, Trash } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { cn } from "@/lib/utils";
+import { EXPENSE_CATEGORIES, getExpenseTotal, getTripProfit } from "@/lib/expenses";
+import { PAYMENT_MODES } from "@/lib/payments";
+import { addExpense, deleteExpense, updateExpense } from "@/services/transportService";
+import { ExpenseCategory, PaymentMode, TransportEntry, TripExpense } from "@/types/transport";
+import { usePermissions } from "@/hooks/use-permissions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import DateField from "@/components/DateField";
+
+interface ExpenseLedgerProps {
+  entry: TransportEntry;
+}
+
+type ExpenseDraft = {
+  id?: string;
+  category: ExpenseCategory;
+  amount: string;
+  date: Date | null;
+  mode: PaymentMode;
+  note: string;
+};
+
+const ExpenseLedger = ({ entry }: ExpenseLedgerProps) => {
+  const queryClient = useQueryClient();
+  const { canChangeEntryAmounts } = usePermissions();
+  const canEdit = canChangeEntryAmounts(entry);
+  const [draft, setDraft] = useState<ExpenseDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [amountError, setAmountError] = useState<string | null>(null);
+
+  const expenseTotal = getExpenseTotal(entry);
+  const profit = getTripProfit(entry);
+
+  const openNew = () => {
+    setAmountError(null);
+    setDraft({ category: "Diesel", amount: "", date: entry.date, mode: "Cash", note: "" });
+  };
+
+  const openEdit = (expense: TripExpense) => {
+    setAmountError(null);
+    setDraft({ ...expense, amount: String(expense.amount) });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const amount = Number(draft.amount);
+    if (!amount || amount <= 0) {
+      setAmountError("Amount must be greater than 0");
+      return;
+    }
+
+    setIsSaving(true);
+    const expense = {
+      entryId: entry.id,
+      category: draft.category,
+      amount,
+      date: draft.date || entry.date,
+      mode: draft.mode,
+      note: draft.note.trim(),
+    };
+    const saved = draft.id
+      ? await updateExpense({ ...expense, id: draft.id })
+      : await addExpense(expense);
+    setIsSaving(false);
+
+    if (saved) {
+      await queryClient.invalidateQueries({ queryKey: ['transportEntries'] });
+      setDraft(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const success = await deleteExpense(id);
+    if (success) {
+      await queryClient.invalidateQueries({ queryKey: ['transportEntries'] });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between gap-2 sm:items-center">
+        <div className="flex gap-6 text-sm">
+          <div>
+            <p className="text-slate-500">Expenses</p>
+            <p className="text-lg font-bold text-red-600">₹{expenseTotal.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-slate-500">Profit</p>
+            <p className={cn("text-lg font-bold", profit < 0 ? "text-red-600" : "text-green-600")}>
+              ₹{profit.toLocaleString()}
+            </p>
+          </div>
+        </div>
+        {canEdit && (
+          <Button onClick={openNew} className="gap-2">
+            <Plus className="h-4 w-4" /> Add Expense
+          </Button>
+        )}
+      </div>
+
+      <div className="border rounded-lg overflow-hidden bg-white shadow-sm">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="font-semibold">Date</TableHead>
+              <TableHead className="font-semibold">Category</TableHead>
+              <TableHead className="font-semibold">Mode</TableHead>
+              <TableHead className="font-semibold">Note</TableHead>
+              <TableHead className="font-semibold text-right">Amount</TableHead>
+              <TableHead className="font-semibold text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entry.expenses.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-6 text-slate-500">
+                  No expenses recorded yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              entry.expenses.map((expense) => (
+                <TableRow key={expense.id}>
+                  <TableCell>{format(expense.date, "dd/MM/yyyy")}</TableCell>
+                  <TableCell>{expense.category}</TableCell>
+                  <TableCell>{expense.mode}</TableCell>
+                  <TableCell>{expense.note || "—"}</TableCell>
+                  <TableCell className="text-right">₹{expense.amount.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">
+                    {canEdit && (
+                      <>
+                        <Button variant="ghost" size="icon" onClick={() => openEdit(expense)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(expense.id)}>
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Expense" : "Add Expense"}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="grid gap-4">
+              <div className="grid gap-2">
+                <Label>Category</Label>
+                <Select
+                  value={draft.category}
+                  onValueChange={(category: ExpenseCategory) => setDraft({ ...draft, category })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPENSE_CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category}>{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="expense-amount">Amount</Label>
+                <Input
+                  id="expense-amount"
+                  type="number"
+                  min="0"
+                  value={draft.amount}
+                  onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+                />
+                {amountError && <p className="text-sm font-medium text-destructive">{amountError}</p>}
+              </div>
+              <DateField
+                label="Date"
+                value={draft.date}
+                onChange={(date) => setDraft({ ...draft, date })}
+              />
+              <div className="grid gap-2">
+                <Label>Mode</Label>
+                <Select
+                  value={draft.mode}
+                  onValueChange={(mode: PaymentMode) => setDraft({ ...draft, mode })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select payment method" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_MODES.map((mode) => (
+                      <SelectItem key={mode} value={mode}>{mode}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="expense-note">Note</Label>
+                <Input
+                  id="expense-note"
+                  placeholder="e.g. 120 L at Nashik pump"
+                  value={draft.note}
+                  onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ExpenseLedger;
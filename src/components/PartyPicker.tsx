@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Check, ChevronsUpDown, Plus } from "lucide-react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { cn } from "@/lib/utils";
+import { createParty, fetchParties, normalizePartyName } from "@/services/partyService";
+import { Party } from "@/types/party";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface PartyPickerProps {
+  value: string | null;
+  onChange: (party: Party) => void;
+  placeholder?: string;
+}
+
+const PartyPicker = ({ value, onChange, placeholder = "Select party" }: PartyPickerProps) => {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const { data: parties = [] } = useQuery({
+    queryKey: ['parties'],
+    queryFn: fetchParties,
+  });
+
+  const selected = parties.find((party) => party.id === value);
+  const searchName = normalizePartyName(search);
+  const exactMatch = parties.some(
+    (party) => party.name.toLowerCase() === searchName.toLowerCase()
+  );
+
+  const handleSelect = (party: Party) => {
+    onChange(party);
+    setSearch("");
+    setOpen(false);
+  };
+
+  const handleCreate = async () => {
+    const party = await createParty({
+      name: searchName,
+      gstin: "",
+      phone: "",
+      address: "",
+      openingBalance: 0,
+    });
+    if (party) {
+      await queryClient.invalidateQueries({ queryKey: ['parties'] });
+      handleSelect(party);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn(
+            "w-full justify-between font-normal",
+            !selected && "text-muted-foreground"
+          )}
+        >
+          <span className="truncate">{selected ? selected.name : placeholder}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput
+            placeholder="Search parties..."
+            value={search}
+            onValueChange={setSearch}
+          />
+          <CommandList>
+            <CommandEmpty>No party found.</CommandEmpty>
+            <CommandGroup>
+              {parties.map((party) => (
+                <CommandItem
+                  key={party.id}
+                  value={`${party.name} ${party.gstin}`}
+                  onSelect={() => handleSelect(party)}
+                >
+                  <Check
+                    className={cn("mr-2 h-4 w-4", party.id === value ? "opacity-100" : "opacity-0")}
+                  />
+                  <div className="flex flex-col">
+                    <span>{party.name}</span>
+                    {party.gstin && (
+                      <span className="text-xs text-muted-foreground">{party.gstin}</span>
+                    )}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {searchName && !exactMatch && (
+              <CommandGroup forceMount>
+                <CommandItem value={`__create__ ${searchName}`} onSelect={handleCreate} forceMount>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add "{searchName}" as a new party
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PartyPicker;
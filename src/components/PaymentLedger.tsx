@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { CalendarIcon, Edit, Loader2, Plus, Trash } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { getOutstandingAmount, getPaidAmount, PAYMENT_MODES } from "@/lib/payments";
+import { addPayment, deletePayment, updatePayment } from "@/services/transportService";
+import { Payment, PaymentMode, TransportEntry } from "@/types/transport";
+import { usePermissions } from "@/hooks/use-permissions";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface PaymentLedgerProps {
+  entry: TransportEntry;
+}
+
+type PaymentDraft = {
+  id?: string;
+  amount: string;
+  date: Date;
+  mode: PaymentMode;
+  referenceNumber: string;
+};
+
+const emptyDraft = (): PaymentDraft => ({
+  amount: "",
+  date: new Date(),
+  mode: "Cash",
+  referenceNumber: "",
+});
+
+const PaymentLedger = ({ entry }: PaymentLedgerProps) => {
+  const queryClient = useQueryClient();
+  const { canRecordPayments: canEdit } = usePermissions();
+  const [draft, setDraft] = useState<PaymentDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [amountError, setAmountError] = useState<string | null>(null);
+
+  const paidAmount = getPaidAmount(entry);
+  const outstandingAmount = getOutstandingAmount(entry);
+
+  const openNew = () => {
+    setAmountError(null);
+    setDraft({ ...emptyDraft(), amount: outstandingAmount > 0 ? String(outstandingAmount) : "" });
+  };
+
+  const openEdit = (payment: Payment) => {
+    setAmountError(null);
+    setDraft({
+      id: payment.id,
+      amount: String(payment.amount),
+      date: payment.date,
+      mode: payment.mode,
+      referenceNumber: payment.referenceNumber,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const amount = Number(draft.amount);
+    if (!amount || amount <= 0) {
+      setAmountError("Amount must be greater than 0");
+      return;
+    }
+
+    setIsSaving(true);
+    const payment = {
+      entryId: entry.id,
+      amount,
+      date: draft.date,
+      mode: draft.mode,
+      referenceNumber: draft.referenceNumber.trim(),
+    };
+    const saved = draft.id
+      ? await updatePayment({ ...payment, id: draft.id })
+      : await addPayment(payment);
+    setIsSaving(false);
+
+    if (saved) {
+      await queryClient.invalidateQueries({ queryKey: ['transportEntries'] });
+      setDraft(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const success = await deletePayment(id);
+    if (success) {
+      await queryClient.invalidateQueries({ queryKey: ['transportEntries'] });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between gap-2 sm:items-center">
+        <div className="flex gap-6 text-sm">
+          <div>
+            <p className="text-slate-500">Paid</p>
+            <p className="text-lg font-bold text-green-600">₹{paidAmount.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-slate-500">Outstanding</p>
+            <p className="text-lg font-bold text-red-600">₹{outstandingAmount.toLocaleString()}</p>
+          </div>
+        </div>
+        {canEdit && (
+          <Button onClick={openNew} className="gap-2">
+            <Plus className="h-4 w-4" /> Add Payment
+          </Button>
+        )}
+      </div>
+
+      <div className="border rounded-lg overflow-hidden bg-white shadow-sm">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="font-semibold">Date</TableHead>
+              <TableHead className="font-semibold">Mode</TableHead>
+              <TableHead className="font-semibold">Reference</TableHead>
+              <TableHead className="font-semibold text-right">Amount</TableHead>
+              <TableHead className="font-semibold text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entry.payments.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-6 text-slate-500">
+                  No payments recorded yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              entry.payments.map((payment) => (
+                <TableRow key={payment.id}>
+                  <TableCell>{format(payment.date, "dd/MM/yyyy")}</TableCell>
+                  <TableCell>{payment.mode}</TableCell>
+                  <TableCell>{payment.referenceNumber || "—"}</TableCell>
+                  <TableCell className="text-right">₹{payment.amount.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">
+                    {canEdit && (
+                      <>
+                        <Button variant="ghost" size="icon" onClick={() => openEdit(payment)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(payment.id)}>
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Payment" : "Add Payment"}</DialogTitle>
+            <DialogDescription>
+              Outstanding balance: ₹{outstandingAmount.toLocaleString()}
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="grid gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="payment-amount">Amount</Label>
+                <Input
+                  id="payment-amount"
+                  type="number"
+                  min="0"
+                  value={draft.amount}
+                  onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+                />
+                {amountError && <p className="text-sm font-medium text-destructive">{amountError}</p>}
+              </div>
+              <div className="grid gap-2">
+                <Label>Date</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant={"outline"}
+                      className="w-full pl-3 text-left font-normal"
+                    >
+                      {format(draft.date, "PPP")}
+                      <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={draft.date}
+                      onSelect={(date) => date && setDraft({ ...draft, date })}
+                      initialFocus
+                      className="p-3 pointer-events-auto"
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+              <div className="grid gap-2">
+                <Label>Mode</Label>
+                <Select
+                  value={draft.mode}
+                  onValueChange={(mode: PaymentMode) => setDraft({ ...draft, mode })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select payment method" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_MODES.map((mode) => (
+                      <SelectItem key={mode} value={mode}>{mode}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="payment-reference">Reference Number</Label>
+                <Input
+                  id="payment-reference"
+                  placeholder="UTR, cheque or receipt number"
+                  value={draft.referenceNumber}
+                  onChange={(e) => setDraft({ ...draft, referenceNumber: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PaymentLedger;
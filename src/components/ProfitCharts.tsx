@@ -0,0 +1,89 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { formatAxisAmount } from "@/lib/utils";
+import { ExpenseCategory } from "@/types/transport";
+
+interface ProfitChartsProps {
+  expensesByCategory: { category: ExpenseCategory; amount: number }[];
+  monthlyStats: { month: string; totalAmount: number; totalExpenses: number; profit: number }[];
+}
+
+const categoryConfig = {
+  amount: {
+    label: "Spent",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const monthlyConfig = {
+  totalAmount: {
+    label: "Rent",
+    color: "hsl(142 71% 45%)",
+  },
+  totalExpenses: {
+    label: "Expenses",
+    color: "hsl(var(--destructive))",
+  },
+  profit: {
+    label: "Profit",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const ProfitCharts = ({ expensesByCategory, monthlyStats }: ProfitChartsProps) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Expenses by Category</CardTitle>
+        <span className="font-bold">
+          ₹{expensesByCategory.reduce((sum, { amount }) => sum + amount, 0).toLocaleString()}
+        </span>
+      </CardHeader>
+      <CardContent>
+        {expensesByCategory.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No expenses recorded in this period.</p>
+        ) : (
+          <ChartContainer config={categoryConfig} className="h-[240px] w-full">
+            <BarChart data={expensesByCategory} layout="vertical" margin={{ left: 16 }}>
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" tickFormatter={formatAxisAmount} />
+              <YAxis type="category" dataKey="category" tickLine={false} axisLine={false} width={80} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="amount" fill="var(--color-amount)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Monthly Profit</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={monthlyConfig} className="h-[240px] w-full">
+          <BarChart data={monthlyStats}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="month" tickLine={false} axisLine={false} />
+            <YAxis tickFormatter={formatAxisAmount} width={48} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="totalAmount" fill="var(--color-totalAmount)" radius={4} />
+            <Bar dataKey="totalExpenses" fill="var(--color-totalExpenses)" radius={4} />
+            <Bar dataKey="profit" fill="var(--color-profit)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  </div>
+);
+
+export default ProfitCharts;
@@ -0,0 +1,37 @@
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { UserRole } from "@/types/user";
+
+interface ProtectedRouteProps {
+  roles?: UserRole[]; // Only these roles may open the nested routes; others go back home
+}
+
+// Layout route: renders the page when signed in, otherwise sends the user to
+// /login and remembers where they were headed
+const ProtectedRoute = ({ roles }: ProtectedRouteProps) => {
+  const { session, isLoading } = useAuth();
+  const { role, isLoading: isLoadingRole } = usePermissions();
+  const location = useLocation();
+
+  if (isLoading || (roles && isLoadingRole)) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8 flex justify-center items-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (roles && (!role || !roles.includes(role))) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <Outlet />;
+};
+
+export default ProtectedRoute;
@@ -0,0 +1,94 @@
+import { format } from "date-fns";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { AGING_BUCKETS, AGING_BUCKET_LABELS } from "@/lib/aging";
+import { AgingBucket, AgingReport } from "@/types/aging";
+
+interface ReceivablesAgingProps {
+  report: AgingReport;
+}
+
+// Older buckets get progressively more alarming colours
+const BUCKET_COLORS: Record<AgingBucket, string> = {
+  '0-30': "",
+  '31-60': "text-amber-600",
+  '61-90': "text-orange-600",
+  '90+': "text-red-600",
+};
+
+const formatAmount = (amount: number) => (amount > 0 ? `₹${amount.toLocaleString()}` : "—");
+
+const ReceivablesAging = ({ report }: ReceivablesAgingProps) => {
+  const navigate = useNavigate();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Receivables Aging</CardTitle>
+        <span className="text-sm text-muted-foreground">As of {format(report.asOf, "dd MMM yyyy")}</span>
+      </CardHeader>
+      <CardContent>
+        {report.rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing outstanding. Every trip is paid up.</p>
+        ) : (
+          <div className="border rounded-lg overflow-hidden bg-white">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="font-semibold">Party</TableHead>
+                  {AGING_BUCKETS.map((bucket) => (
+                    <TableHead key={bucket} className="font-semibold text-right">{AGING_BUCKET_LABELS[bucket]}</TableHead>
+                  ))}
+                  <TableHead className="font-semibold text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.map((row) => (
+                  <TableRow
+                    key={row.partyId ?? row.partyName}
+                    className={row.partyId ? "cursor-pointer" : undefined}
+                    onClick={() => row.partyId && navigate(`/parties/${row.partyId}`)}
+                  >
+                    <TableCell>
+                      <p className="font-medium">{row.partyName}</p>
+                      <p className="text-xs text-muted-foreground">{row.entryCount} unpaid trips</p>
+                    </TableCell>
+                    {AGING_BUCKETS.map((bucket) => (
+                      <TableCell key={bucket} className={cn("text-right", row.buckets[bucket] > 0 && BUCKET_COLORS[bucket])}>
+                        {formatAmount(row.buckets[bucket])}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-medium">₹{row.total.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell className="font-semibold">Total</TableCell>
+                  {AGING_BUCKETS.map((bucket) => (
+                    <TableCell key={bucket} className="text-right font-semibold">
+                      {formatAmount(report.totals[bucket])}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-bold">₹{report.total.toLocaleString()}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReceivablesAging;
@@ -1,19 +1,25 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Calendar as DateRangeCalendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { 
   BarChart3, 
   Download, 
   FileSpreadsheet, 
   FileText, 
   FileDown,
+  FileCode,
   Calendar,
   Filter,
   TrendingUp,
   Truck,
   IndianRupee,
   Users,
-  Clock
+  Clock,
+  Weight
 } from "lucide-react";
 import {
   Select,
@@ -23,27 +29,77 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { TransportEntry } from "@/types/transport";
-import { format, subMonths, startOfMonth, endOfMonth, isWithinInterval } from "date-fns";
-import { exportToExcel } from "@/utils/excelExport";
-import { exportToPDF } from "@/utils/pdfExport";
-import { exportToCSV } from "@/utils/csvExport";
+import VehicleDocumentAlerts from "@/components/VehicleDocumentAlerts";
+import ReceivablesAging from "@/components/ReceivablesAging";
+import ProfitCharts from "@/components/ProfitCharts";
+import VehicleProfitability from "@/components/VehicleProfitability";
+import CsvExportDialog from "@/components/CsvExportDialog";
+import { eachMonthOfInterval, endOfMonth, format, isWithinInterval } from "date-fns";
+import { exportAgingToExcel, exportToExcel } from "@/utils/excelExport";
+import { exportAgingToPDF, exportToPDF } from "@/utils/pdfExport";
+import { CsvExportOptions, exportAgingToCSV, exportToCSV } from "@/utils/csvExport";
+import { exportToTally } from "@/utils/tallyExport";
+import { fetchInvoices } from "@/services/invoiceService";
+import { fetchParties } from "@/services/partyService";
+import { fetchSettings, SETTING_DEFAULTS } from "@/services/settingsService";
+import { fetchVehicles } from "@/services/vehicleService";
+import { buildAgingReport } from "@/lib/aging";
+import { buildVehicleReport } from "@/lib/vehicleReport";
+import {
+  formatReportPeriod,
+  getCustomPeriod,
+  getPresetPeriod,
+  REPORT_PERIOD_PRESETS,
+  ReportPeriodPreset,
+} from "@/lib/reportPeriods";
+import { getExpenseTotal, getExpensesByCategory } from "@/lib/expenses";
+import { getOutstandingAmount, getPaidAmount } from "@/lib/payments";
+import { getTonnageStats } from "@/lib/weight";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useCompany } from "@/hooks/use-company";
 
 interface ReportsDashboardProps {
   entries: TransportEntry[];
+  onViewVehicleEntries: (vehicleNumber: string, start: Date, end: Date) => void;
 }
 
-const ReportsDashboard = ({ entries }: ReportsDashboardProps) => {
+const ReportsDashboard = ({ entries, onViewVehicleEntries }: ReportsDashboardProps) => {
+  const { canExport } = usePermissions();
+  const { letterhead } = useCompany();
+
+  const { data: parties = [] } = useQuery({
+    queryKey: ['parties'],
+    queryFn: fetchParties,
+    enabled: canExport,
+  });
+
+  const { data: settings = SETTING_DEFAULTS } = useQuery({
+    queryKey: ['settings'],
+    queryFn: fetchSettings,
+    enabled: canExport,
+  });
+
+  const { data: invoices = [] } = useQuery({
+    queryKey: ['invoices'],
+    queryFn: fetchInvoices,
+    enabled: canExport,
+  });
   const [reportType, setReportType] = useState<string>("monthly");
-  const [timeRange, setTimeRange] = useState<string>("3");
 
-  // Calculate date range based on selection
-  const getDateRange = () => {
-    const end = new Date();
-    const start = subMonths(end, parseInt(timeRange));
-    return { start, end };
-  };
+  const { data: vehicles = [] } = useQuery({
+    queryKey: ['vehicles'],
+    queryFn: fetchVehicles,
+    enabled: reportType === "vehicle",
+  });
+  const [periodPreset, setPeriodPreset] = useState<ReportPeriodPreset>("last3Months");
+  const [customRange, setCustomRange] = useState<{ from: Date; to?: Date } | null>(null);
+  const [isExportingCsv, setIsExportingCsv] = useState(false);
 
-  const { start, end } = getDateRange();
+  // A custom range with nothing picked yet shows the last 3 months meanwhile
+  const period = periodPreset === "custom"
+    ? customRange ? getCustomPeriod(customRange.from, customRange.to) : getPresetPeriod("last3Months")
+    : getPresetPeriod(periodPreset);
+  const { start, end } = period;
 
   // Filter entries based on date range
   const filteredEntries = entries.filter(entry => {
@@ -55,22 +111,18 @@ const ReportsDashboard = ({ entries }: ReportsDashboardProps) => {
   const summaryStats = {
     totalEntries: filteredEntries.length,
     totalAmount: filteredEntries.reduce((sum, entry) => sum + entry.rentAmount, 0),
-    unpaidAmount: filteredEntries
-      .filter(entry => entry.balanceStatus !== "PAID")
-      .reduce((sum, entry) => sum + (entry.rentAmount - (entry.advanceAmount || 0)), 0),
-    paidAmount: filteredEntries
-      .filter(entry => entry.balanceStatus === "PAID")
-      .reduce((sum, entry) => sum + entry.rentAmount, 0),
+    unpaidAmount: filteredEntries.reduce((sum, entry) => sum + getOutstandingAmount(entry), 0),
+    paidAmount: filteredEntries.reduce((sum, entry) => sum + getPaidAmount(entry), 0),
     averageRentAmount: filteredEntries.length > 0 
       ? filteredEntries.reduce((sum, entry) => sum + entry.rentAmount, 0) / filteredEntries.length 
       : 0,
     uniqueVehicles: new Set(filteredEntries.map(entry => entry.vehicleNumber)).size,
-    uniqueDrivers: new Set(filteredEntries.map(entry => entry.driverName)).size,
+    uniqueDrivers: new Set(filteredEntries.map(entry => entry.driverId).filter(Boolean)).size,
+    ...getTonnageStats(filteredEntries),
   };
 
   // Calculate monthly statistics
-  const monthlyStats = Array.from({ length: parseInt(timeRange) }, (_, i) => {
-    const monthStart = startOfMonth(subMonths(end, i));
+  const monthlyStats = eachMonthOfInterval({ start, end }).map((monthStart) => {
     const monthEnd = endOfMonth(monthStart);
     
     const monthEntries = filteredEntries.filter(entry => {
@@ -78,15 +130,36 @@ const ReportsDashboard = ({ entries }: ReportsDashboardProps) => {
       return isWithinInterval(entryDate, { start: monthStart, end: monthEnd });
     });
 
+    const totalAmount = monthEntries.reduce((sum, entry) => sum + entry.rentAmount, 0);
+    const totalExpenses = monthEntries.reduce((sum, entry) => sum + getExpenseTotal(entry), 0);
+
     return {
       month: format(monthStart, "MMM yyyy"),
       totalEntries: monthEntries.length,
-      totalAmount: monthEntries.reduce((sum, entry) => sum + entry.rentAmount, 0),
-      unpaidAmount: monthEntries
-        .filter(entry => entry.balanceStatus !== "PAID")
-        .reduce((sum, entry) => sum + (entry.rentAmount - (entry.advanceAmount || 0)), 0),
+      totalAmount,
+      totalExpenses,
+      profit: totalAmount - totalExpenses,
+      unpaidAmount: monthEntries.reduce((sum, entry) => sum + getOutstandingAmount(entry), 0),
+      ...getTonnageStats(monthEntries),
     };
-  }).reverse();
+  });
+
+  // Calculate tonnage per vehicle, heaviest first
+  const vehicleTonnage = Object.entries(
+    filteredEntries.reduce((acc, entry) => {
+      (acc[entry.vehicleNumber] = acc[entry.vehicleNumber] || []).push(entry);
+      return acc;
+    }, {} as Record<string, TransportEntry[]>)
+  )
+    .map(([vehicleNumber, vehicleEntries]) => ({
+      vehicleNumber,
+      trips: vehicleEntries.length,
+      ...getTonnageStats(vehicleEntries),
+    }))
+    .filter(vehicle => vehicle.totalTons > 0)
+    .sort((a, b) => b.totalTons - a.totalTons);
+
+  const expensesByCategory = getExpensesByCategory(filteredEntries);
 
   // Calculate status distribution
   const statusDistribution = filteredEntries.reduce((acc, entry) => {
@@ -94,20 +167,65 @@ const ReportsDashboard = ({ entries }: ReportsDashboardProps) => {
     return acc;
   }, {} as Record<string, number>);
 
-  const handleExport = (format: "excel" | "pdf" | "csv") => {
+  const vehicleReport = buildVehicleReport(
+    filteredEntries,
+    period,
+    // Only the company's own trucks count as idle fleet; market vehicles are hired per trip
+    vehicles.filter(vehicle => vehicle.ownership === 'OWN').map(vehicle => vehicle.registrationNumber)
+  );
+
+  // Aging looks at everything still owed today, whatever the selected time range
+  const agingReport = buildAgingReport(entries);
+
+  const handleExport = async (format: "excel" | "pdf" | "csv" | "tally") => {
+    // CSV goes through the options dialog first
+    if (format === "csv") {
+      setIsExportingCsv(true);
+      return;
+    }
+
+    // Vouchers for the trips in the selected time range, whichever report is showing
+    if (format === "tally") {
+      const { skipped, uninvoiced } = exportToTally(filteredEntries, invoices, parties, settings, letterhead.name);
+      if (skipped > 0) {
+        toast.warning(`${skipped} entries without a party or invoice were left out of the Tally export`);
+      }
+      if (uninvoiced > 0) {
+        toast.warning(`${uninvoiced} trips not yet invoiced were exported at their freight without GST`);
+      }
+      return;
+    }
+
+    if (reportType === "aging") {
+      switch (format) {
+        case "excel":
+          await exportAgingToExcel(agingReport);
+          break;
+        case "pdf":
+          exportAgingToPDF(agingReport, letterhead);
+          break;
+      }
+      return;
+    }
+
     switch (format) {
       case "excel":
-        exportToExcel(filteredEntries);
+        await exportToExcel(filteredEntries);
         break;
       case "pdf":
-        exportToPDF(filteredEntries, start, end);
-        break;
-      case "csv":
-        exportToCSV(filteredEntries);
+        exportToPDF(filteredEntries, start, end, letterhead, period.label);
         break;
     }
   };
 
+  const handleCsvExport = (options: CsvExportOptions) => {
+    if (reportType === "aging") {
+      exportAgingToCSV(agingReport, options);
+    } else {
+      exportToCSV(filteredEntries, options);
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Report Controls */}
@@ -121,45 +239,80 @@ const ReportsDashboard = ({ entries }: ReportsDashboardProps) => {
               <SelectItem value="monthly">Monthly Summary</SelectItem>
               <SelectItem value="status">Status Distribution</SelectItem>
               <SelectItem value="vehicle">Vehicle-wise</SelectItem>
+              <SelectItem value="aging">Receivables Aging</SelectItem>
             </SelectContent>
           </Select>
 
-          <Select value={timeRange} onValueChange={setTimeRange}>
+          <Select value={periodPreset} onValueChange={(value) => setPeriodPreset(value as ReportPeriodPreset)}>
             <SelectTrigger className="w-[180px]">
               <SelectValue placeholder="Time Range" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="1">Last Month</SelectItem>
-              <SelectItem value="3">Last 3 Months</SelectItem>
-              <SelectItem value="6">Last 6 Months</SelectItem>
-              <SelectItem value="12">Last Year</SelectItem>
+              {REPORT_PERIOD_PRESETS.map((preset) => (
+                <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
-        </div>
 
-        <div className="flex gap-2">
-          <Button
-            variant="outline"
-            className="gap-2"
-            onClick={() => handleExport("excel")}
-          >
-            <FileSpreadsheet className="h-4 w-4" /> Excel
-          </Button>
-          <Button
-            variant="outline"
-            className="gap-2"
-            onClick={() => handleExport("pdf")}
-          >
-            <FileText className="h-4 w-4" /> PDF
-          </Button>
-          <Button
-            variant="outline"
-            className="gap-2"
-            onClick={() => handleExport("csv")}
-          >
-            <FileDown className="h-4 w-4" /> CSV
-          </Button>
+          {periodPreset === "custom" ? (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="gap-2 font-normal">
+                  <Calendar className="h-4 w-4" />
+                  {customRange ? formatReportPeriod(period) : "Pick dates"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <DateRangeCalendar
+                  mode="range"
+                  selected={customRange ?? undefined}
+                  onSelect={(range) => setCustomRange(range?.from ? { from: range.from, to: range.to } : null)}
+                  defaultMonth={customRange?.from ?? start}
+                  numberOfMonths={2}
+                  initialFocus
+                  className="p-3 pointer-events-auto"
+                />
+              </PopoverContent>
+            </Popover>
+          ) : (
+            <span className="self-center text-sm text-muted-foreground whitespace-nowrap">
+              {formatReportPeriod(period)}
+            </span>
+          )}
         </div>
+
+        {canExport && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => handleExport("excel")}
+            >
+              <FileSpreadsheet className="h-4 w-4" /> Excel
+            </Button>
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => handleExport("pdf")}
+            >
+              <FileText className="h-4 w-4" /> PDF
+            </Button>
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => handleExport("csv")}
+            >
+              <FileDown className="h-4 w-4" /> CSV
+            </Button>
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => handleExport("tally")}
+            >
+              <FileCode className="h-4 w-4" /> Tally XML
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Summary Statistics Cards */}
@@ -221,6 +374,20 @@ const ReportsDashboard = ({ entries }: ReportsDashboardProps) => {
         </Card>
       </div>
 
+      {/* Vehicle profitability and utilisation */}
+      {reportType === "vehicle" && (
+        <VehicleProfitability
+          report={vehicleReport}
+          onSelectVehicle={(vehicleNumber) => onViewVehicleEntries(vehicleNumber, start, end)}
+        />
+      )}
+
+      {/* Receivables aging */}
+      {reportType === "aging" && <ReceivablesAging report={agingReport} />}
+
+      {/* Vehicle document expiry alerts */}
+      <VehicleDocumentAlerts />
+
       {/* Additional Statistics */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <Card>
@@ -269,6 +436,64 @@ const ReportsDashboard = ({ entries }: ReportsDashboardProps) => {
         </Card>
       </div>
 
+      {/* Tonnage */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Tonnage</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Weight className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm text-muted-foreground">Total Tonnage Moved</span>
+                </div>
+                <span className="font-bold">{summaryStats.totalTons.toFixed(2)} t</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <IndianRupee className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm text-muted-foreground">Average Freight per Ton</span>
+                </div>
+                <span className="font-bold">₹{Math.round(summaryStats.freightPerTon).toLocaleString()}</span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Tonnage by Vehicle</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {vehicleTonnage.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No weights recorded in this period.</p>
+            ) : (
+              <div className="space-y-2">
+                {vehicleTonnage.map((vehicle) => (
+                  <div key={vehicle.vehicleNumber} className="flex items-center justify-between bg-slate-50 p-3 rounded-lg">
+                    <div>
+                      <p className="text-sm font-medium">{vehicle.vehicleNumber}</p>
+                      <p className="text-xs text-muted-foreground">{vehicle.trips} trips</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-bold">{vehicle.totalTons.toFixed(2)} t</p>
+                      <p className="text-xs text-muted-foreground">
+                        ₹{Math.round(vehicle.freightPerTon).toLocaleString()}/t
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Expenses and profit */}
+      <ProfitCharts expensesByCategory={expensesByCategory} monthlyStats={monthlyStats} />
+
       {/* Monthly Trend */}
       <Card>
         <CardHeader>
@@ -280,10 +505,18 @@ const ReportsDashboard = ({ entries }: ReportsDashboardProps) => {
               <div key={month.month} className="flex items-center justify-between p-4 bg-slate-50 rounded-lg">
                 <div>
                   <p className="font-medium">{month.month}</p>
-                  <p className="text-sm text-muted-foreground">{month.totalEntries} entries</p>
+                  <p className="text-sm text-muted-foreground">
+                    {month.totalEntries} entries
+                    {month.totalTons > 0 && (
+                      <> • {month.totalTons.toFixed(2)} t @ ₹{Math.round(month.freightPerTon).toLocaleString()}/t</>
+                    )}
+                  </p>
                 </div>
                 <div className="text-right">
                   <p className="font-bold text-green-600">₹{month.totalAmount.toLocaleString()}</p>
+                  {month.totalExpenses > 0 && (
+                    <p className="text-sm text-muted-foreground">₹{month.profit.toLocaleString()} profit</p>
+                  )}
                   {month.unpaidAmount > 0 && (
                     <p className="text-sm text-red-600">₹{month.unpaidAmount.toLocaleString()} unpaid</p>
                   )}
@@ -293,6 +526,13 @@ const ReportsDashboard = ({ entries }: ReportsDashboardProps) => {
           </div>
         </CardContent>
       </Card>
+
+      <CsvExportDialog
+        open={isExportingCsv}
+        onOpenChange={setIsExportingCsv}
+        onExport={handleCsvExport}
+        showColumns={reportType !== "aging"}
+      />
     </div>
   );
 };
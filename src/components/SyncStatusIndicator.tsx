@@ -0,0 +1,64 @@
+import { AlertTriangle, Cloud, CloudOff, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useSyncStatus } from "@/hooks/use-sync-status";
+
+// Whether entry changes made on this device have reached the server
+const SyncStatusIndicator = () => {
+  const { isOnline, pendingCount, conflictCount, isSyncing, syncNow } = useSyncStatus();
+  const pendingLabel = `${pendingCount} pending`;
+
+  if (!isOnline) {
+    return (
+      <Button
+        variant="outline"
+        className="gap-2 border-amber-300 text-amber-700"
+        title="Changes are saved on this device and sync when the connection is back"
+        disabled
+      >
+        <CloudOff className="h-4 w-4" /> Offline{pendingCount > 0 && ` · ${pendingLabel}`}
+      </Button>
+    );
+  }
+
+  if (isSyncing) {
+    return (
+      <Button variant="outline" className="gap-2" disabled>
+        <Loader2 className="h-4 w-4 animate-spin" /> Syncing
+      </Button>
+    );
+  }
+
+  if (conflictCount > 0) {
+    return (
+      <Button
+        variant="outline"
+        className="gap-2 border-red-300 text-red-700"
+        title="Open the entries marked Sync conflict to merge your changes"
+        disabled
+      >
+        <AlertTriangle className="h-4 w-4" /> {conflictCount} {conflictCount === 1 ? "conflict" : "conflicts"}
+      </Button>
+    );
+  }
+
+  if (pendingCount > 0) {
+    return (
+      <Button
+        variant="outline"
+        className="gap-2 border-amber-300 text-amber-700"
+        title="Send changes saved on this device now"
+        onClick={syncNow}
+      >
+        <RefreshCw className="h-4 w-4" /> {pendingLabel}
+      </Button>
+    );
+  }
+
+  return (
+    <Button variant="ghost" className="gap-2 text-slate-500" title="All changes are saved" disabled>
+      <Cloud className="h-4 w-4" /> Synced
+    </Button>
+  );
+};
+
+export default SyncStatusIndicator;
@@ -0,0 +1,100 @@
+import type { MouseEvent } from "react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { getPageCount } from "@/lib/entryQuery";
+
+interface TablePaginationProps {
+  page: number; // 1-based
+  pageSize: number;
+  pageSizes: number[];
+  total: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+// First, last and the pages around the current one; null marks a gap
+const getVisiblePages = (page: number, pageCount: number): (number | null)[] => {
+  const pages = [1, page - 1, page, page + 1, pageCount]
+    .filter((value, index, all) => value >= 1 && value <= pageCount && all.indexOf(value) === index)
+    .sort((a, b) => a - b);
+  return pages.flatMap((value, index) =>
+    index > 0 && value - pages[index - 1] > 1 ? [null, value] : [value]
+  );
+};
+
+const TablePagination = ({ page, pageSize, pageSizes, total, onPageChange, onPageSizeChange }: TablePaginationProps) => {
+  const pageCount = getPageCount(total, pageSize);
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, total);
+
+  const goTo = (target: number) => (event: MouseEvent) => {
+    event.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center justify-between gap-2">
+      <div className="flex items-center gap-2 text-sm text-slate-500">
+        <span>Showing {first}–{last} of {total.toLocaleString()}</span>
+        <Select value={String(pageSize)} onValueChange={(value) => onPageSizeChange(Number(value))}>
+          <SelectTrigger className="h-8 w-[110px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {pageSizes.map((size) => (
+              <SelectItem key={size} value={String(size)}>{size} per page</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Pagination className="mx-0 w-auto">
+        <PaginationContent>
+          <PaginationItem>
+            <PaginationPrevious
+              href="#"
+              onClick={goTo(page - 1)}
+              className={cn(page <= 1 && "pointer-events-none opacity-50")}
+            />
+          </PaginationItem>
+          {getVisiblePages(page, pageCount).map((value, index) => (
+            <PaginationItem key={value ?? `gap-${index}`}>
+              {value === null ? (
+                <PaginationEllipsis />
+              ) : (
+                <PaginationLink href="#" isActive={value === page} onClick={goTo(value)}>
+                  {value}
+                </PaginationLink>
+              )}
+            </PaginationItem>
+          ))}
+          <PaginationItem>
+            <PaginationNext
+              href="#"
+              onClick={goTo(page + 1)}
+              className={cn(page >= pageCount && "pointer-events-none opacity-50")}
+            />
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+    </div>
+  );
+};
+
+export default TablePagination;
@@ -1,5 +1,6 @@
 
 import { format } from "date-fns";
+import { cn } from "@/lib/utils";
 import {
   Table,
   TableBody,
@@ -8,19 +9,26 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { TransportEntry } from "@/types/transport";
+import { EntryQuery, EntrySortKey } from "@/types/transport";
+import { getOutstandingAmount, getPaidAmount } from "@/lib/payments";
+import { formatWeight } from "@/lib/weight";
+import { getExpenseTotal, getTripProfit } from "@/lib/expenses";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { AlertCircle, Download, Edit, FileSpreadsheet, MoreHorizontal, Plus, Search, Trash, Truck, Wallet, Calendar } from "lucide-react";
+import { AlertCircle, Bookmark, Download, Edit, FileDown, FileSpreadsheet, FileText, Loader2, MoreHorizontal, Plus, Search, Trash, Truck, Upload, Wallet, Calendar, X } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Label } from "@/components/ui/label";
+import { useEffect, useMemo, useState } from "react";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import { keepPreviousData, useQuery, useQueryClient } from "@tanstack/react-query";
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
   DropdownMenuItem, 
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu";
 import {
@@ -34,8 +42,26 @@ import {
   DialogClose,
 } from "@/components/ui/dialog";
 import { toast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { exportToExcel } from "@/utils/excelExport";
+import { CsvExportOptions, exportToCSV } from "@/utils/csvExport";
+import CsvExportDialog from "@/components/CsvExportDialog";
 import { Card, CardContent } from "@/components/ui/card";
+import { Calendar as DateRangeCalendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import TablePagination from "@/components/TablePagination";
+import { fetchEntrySummary, fetchMatchingEntries, queryTransportEntries } from "@/services/transportService";
+import { fetchParties } from "@/services/partyService";
+import { fetchVehicles } from "@/services/vehicleService";
+import { createSavedView, deleteSavedView, fetchSavedViews } from "@/services/savedViewService";
+import {
+  DEFAULT_ENTRY_FILTERS,
+  ENTRY_AGE_FILTERS,
+  ENTRY_PAGE_SIZES,
+  entryQueryToParams,
+  hasActiveFilters,
+  parseEntryQuery,
+} from "@/lib/entryQuery";
 import {
   Select,
   SelectContent,
@@ -44,64 +70,86 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
+// Select items cannot have an empty value, so "no filter" needs its own
+const ALL = "ALL";
+
 interface TransportEntriesProps {
-  entries: TransportEntry[];
   onDelete: (id: string) => void;
+  highlightedIds?: Set<string>; // Just added or changed by someone else
 }
 
-const TransportEntries = ({ entries, onDelete }: TransportEntriesProps) => {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("ALL");
-  const [sortBy, setSortBy] = useState<"date" | "amount" | "balance">("date");
-  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+const TransportEntries = ({ onDelete, highlightedIds }: TransportEntriesProps) => {
+  // The query lives in the URL so a filtered list can be bookmarked, shared
+  // and come back intact after opening an entry
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => parseEntryQuery(searchParams), [searchParams]);
+  const [searchTerm, setSearchTerm] = useState(query.search);
+  const [isSavingView, setIsSavingView] = useState(false);
+  const [viewName, setViewName] = useState("");
+  const [isExportingCsv, setIsExportingCsv] = useState(false);
   const navigate = useNavigate();
-  
-  // Calculate statistics
-  const totalEntries = entries.length;
-  const unpaidEntries = entries.filter(e => e.balanceStatus !== "PAID").length;
-  const thisMonthEntries = entries.filter(e => {
-    const today = new Date();
-    const entryDate = new Date(e.date);
-    return entryDate.getMonth() === today.getMonth() && 
-           entryDate.getFullYear() === today.getFullYear();
-  }).length;
-
-  // Calculate remaining balance
-  const remainingBalance = entries.reduce((total, entry) => {
-    if (entry.balanceStatus !== "PAID") {
-      return total + (entry.rentAmount - (entry.advanceAmount || 0));
-    }
-    return total;
-  }, 0);
-
-  const filteredEntries = entries
-    .filter(entry => 
-      (entry.vehicleNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      entry.weight.toLowerCase().includes(searchTerm.toLowerCase()) || // Changed from driverName
-      entry.place.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      entry.transportName.toLowerCase().includes(searchTerm.toLowerCase())) &&
-      (statusFilter === "ALL" || entry.balanceStatus === statusFilter)
-    )
-    .sort((a, b) => {
-      if (sortBy === "date") {
-        return sortOrder === "asc" 
-          ? new Date(a.date).getTime() - new Date(b.date).getTime()
-          : new Date(b.date).getTime() - new Date(a.date).getTime();
-      } else if (sortBy === "amount") {
-        return sortOrder === "asc"
-          ? a.rentAmount - b.rentAmount
-          : b.rentAmount - a.rentAmount;
-      } else {
-        const balanceA = a.rentAmount - (a.advanceAmount || 0);
-        const balanceB = b.rentAmount - (b.advanceAmount || 0);
-        return sortOrder === "asc"
-          ? balanceA - balanceB
-          : balanceB - balanceA;
-      }
-    });
+  const location = useLocation();
+  const queryClient = useQueryClient();
+  const { canDelete, canExport, canImport } = usePermissions();
+
+  const setQuery = (update: (current: EntryQuery) => EntryQuery) =>
+    setSearchParams((params) => entryQueryToParams(update(parseEntryQuery(params))), { replace: true });
+
+  // Any change to what is shown starts again from the first page
+  const updateQuery = (changes: Partial<EntryQuery>) =>
+    setQuery((current) => ({ ...current, page: 1, ...changes }));
+
+  // Waits for a pause in typing before asking the server again. The URL keeps
+  // the search trimmed, so only a real change is written back.
+  useEffect(() => {
+    if (searchTerm.trim() === query.search) return;
+    const timer = setTimeout(() => {
+      setSearchParams((params) => entryQueryToParams({ ...parseEntryQuery(params), search: searchTerm, page: 1 }), { replace: true });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm, query.search, setSearchParams]);
+
+  // Picks up searches that arrive through the URL, such as a saved view
+  useEffect(() => {
+    setSearchTerm(query.search);
+  }, [query.search]);
 
-  const handleExport = () => {
-    if (filteredEntries.length === 0) {
+  const { data: page = { entries: [], total: 0 }, isLoading, isFetching } = useQuery({
+    queryKey: ['transportEntries', 'page', query],
+    queryFn: () => queryTransportEntries(query),
+    // Keeps the current rows on screen while the next page loads
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: summary } = useQuery({
+    queryKey: ['transportEntries', 'summary'],
+    queryFn: fetchEntrySummary,
+  });
+
+  const { data: parties = [] } = useQuery({
+    queryKey: ['parties'],
+    queryFn: fetchParties,
+  });
+
+  const { data: vehicles = [] } = useQuery({
+    queryKey: ['vehicles'],
+    queryFn: fetchVehicles,
+  });
+
+  const { data: savedViews = [] } = useQuery({
+    queryKey: ['savedViews'],
+    queryFn: fetchSavedViews,
+  });
+
+  const entries = page.entries;
+  const totalEntries = summary?.totalEntries ?? 0;
+  const unpaidEntries = summary?.unpaidEntries ?? 0;
+  const thisMonthEntries = summary?.thisMonthEntries ?? 0;
+  const remainingBalance = summary?.outstandingAmount ?? 0;
+
+  // Everything matching the current filters, not just the page on screen
+  const handleExport = async (csvOptions?: CsvExportOptions) => {
+    if (page.total === 0) {
       toast({
         title: "No entries to export",
         description: "Add some entries first before exporting.",
@@ -110,10 +158,18 @@ const TransportEntries = ({ entries, onDelete }: TransportEntriesProps) => {
       return;
     }
     
-    exportToExcel(filteredEntries);
+    const matchingEntries = await fetchMatchingEntries(query, query.sortBy, query.sortOrder);
+    if (matchingEntries.length === 0) return;
+    if (csvOptions) {
+      exportToCSV(matchingEntries, csvOptions);
+    } else {
+      await exportToExcel(matchingEntries);
+    }
     toast({
       title: "Export successful",
-      description: "Your transport entries have been exported to Excel.",
+      description: csvOptions
+        ? "Your transport entries have been exported to CSV."
+        : "Your transport entries have been exported to an Excel workbook.",
     });
   };
 
@@ -121,29 +177,54 @@ const TransportEntries = ({ entries, onDelete }: TransportEntriesProps) => {
     navigate('/add-entry');
   };
 
+  // The list's query string rides along so the way back restores the filters
   const handleEdit = (id: string) => {
-    navigate(`/edit-entry/${id}`);
+    navigate(`/edit-entry/${id}`, { state: { listSearch: location.search } });
+  };
+
+  const handleSaveView = async () => {
+    if (!viewName.trim()) return;
+    const view = await createSavedView(viewName, entryQueryToParams(query, { includePage: false }));
+    if (view) {
+      await queryClient.invalidateQueries({ queryKey: ['savedViews'] });
+      setIsSavingView(false);
+      setViewName("");
+    }
+  };
+
+  const handleDeleteView = async (id: string) => {
+    const success = await deleteSavedView(id);
+    if (success) {
+      await queryClient.invalidateQueries({ queryKey: ['savedViews'] });
+    }
   };
 
   const handleDelete = (id: string) => {
     onDelete(id);
     toast({
-      title: "Entry deleted",
-      description: "The transport entry has been successfully deleted.",
+      title: "Entry moved to trash",
+      description: "Restore it from the Trash page if this was a mistake.",
     });
   };
 
-  if (entries.length === 0) {
+  if (summary && totalEntries === 0 && !hasActiveFilters(query)) {
     return (
       <div className="space-y-4">
         <div className="flex justify-between items-center">
           <div></div>
-          <Button 
-            onClick={handleAddNew}
-            className="gap-2"
-          >
-            <Plus className="h-4 w-4" /> Add New Entry
-          </Button>
+          <div className="flex gap-2">
+            {canImport && (
+              <Button variant="outline" className="gap-2" onClick={() => navigate('/import-entries')}>
+                <Upload className="h-4 w-4" /> Import
+              </Button>
+            )}
+            <Button 
+              onClick={handleAddNew}
+              className="gap-2"
+            >
+              <Plus className="h-4 w-4" /> Add New Entry
+            </Button>
+          </div>
         </div>
         
         <Alert className="bg-amber-50 border-amber-200">
@@ -221,8 +302,8 @@ const TransportEntries = ({ entries, onDelete }: TransportEntriesProps) => {
       </Card>
 
       {/* Search and Actions */}
-      <div className="flex flex-col sm:flex-row justify-between gap-2 items-center">
-        <div className="flex gap-2 w-full sm:w-auto">
+      <div className="flex flex-col lg:flex-row justify-between gap-2 items-center">
+        <div className="flex flex-wrap gap-2 w-full lg:w-auto">
           <div className="relative flex-1 sm:flex-none">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
             <Input 
@@ -232,8 +313,8 @@ const TransportEntries = ({ entries, onDelete }: TransportEntriesProps) => {
               className="pl-9 w-full"
             />
           </div>
-          <Select value={statusFilter} onValueChange={setStatusFilter}>
-            <SelectTrigger className="w-[180px]">
+          <Select value={query.status} onValueChange={(value) => updateQuery({ status: value as EntryQuery["status"] })}>
+            <SelectTrigger className="w-[140px]">
               <SelectValue placeholder="Filter by status" />
             </SelectTrigger>
             <SelectContent>
@@ -243,8 +324,70 @@ const TransportEntries = ({ entries, onDelete }: TransportEntriesProps) => {
               <SelectItem value="PARTIAL">Partial</SelectItem>
             </SelectContent>
           </Select>
-          <Select value={sortBy} onValueChange={(value: "date" | "amount" | "balance") => setSortBy(value)}>
+          <Select
+            value={query.partyId ?? ALL}
+            onValueChange={(value) => updateQuery({ partyId: value === ALL ? null : value })}
+          >
             <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Filter by party" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Parties</SelectItem>
+              {parties.map((party) => (
+                <SelectItem key={party.id} value={party.id}>{party.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={query.vehicleNumber ?? ALL}
+            onValueChange={(value) => updateQuery({ vehicleNumber: value === ALL ? null : value })}
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Filter by vehicle" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Vehicles</SelectItem>
+              {vehicles.map((vehicle) => (
+                <SelectItem key={vehicle.id} value={vehicle.registrationNumber}>{vehicle.registrationNumber}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className={cn("gap-2 font-normal", !query.dateFrom && "text-muted-foreground")}>
+                <Calendar className="h-4 w-4" />
+                {query.dateFrom
+                  ? `${format(query.dateFrom, "dd/MM/yyyy")} – ${query.dateTo ? format(query.dateTo, "dd/MM/yyyy") : "…"}`
+                  : "Any date"}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <DateRangeCalendar
+                mode="range"
+                selected={{ from: query.dateFrom ?? undefined, to: query.dateTo ?? undefined }}
+                onSelect={(range) => updateQuery({ dateFrom: range?.from ?? null, dateTo: range?.to ?? null })}
+                numberOfMonths={2}
+                initialFocus
+                className="p-3 pointer-events-auto"
+              />
+            </PopoverContent>
+          </Popover>
+          <Select
+            value={query.minAgeDays ? String(query.minAgeDays) : ALL}
+            onValueChange={(value) => updateQuery({ minAgeDays: value === ALL ? null : Number(value) })}
+          >
+            <SelectTrigger className="w-[140px]">
+              <SelectValue placeholder="Filter by age" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any age</SelectItem>
+              {ENTRY_AGE_FILTERS.map((days) => (
+                <SelectItem key={days} value={String(days)}>Over {days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={query.sortBy} onValueChange={(value: EntrySortKey) => updateQuery({ sortBy: value })}>
+            <SelectTrigger className="w-[130px]">
               <SelectValue placeholder="Sort by" />
             </SelectTrigger>
             <SelectContent>
@@ -256,20 +399,84 @@ const TransportEntries = ({ entries, onDelete }: TransportEntriesProps) => {
           <Button
             variant="outline"
             size="icon"
-            onClick={() => setSortOrder(prev => prev === "asc" ? "desc" : "asc")}
+            onClick={() => updateQuery({ sortOrder: query.sortOrder === "asc" ? "desc" : "asc" })}
           >
-            {sortOrder === "asc" ? "↑" : "↓"}
+            {query.sortOrder === "asc" ? "↑" : "↓"}
           </Button>
+          {hasActiveFilters(query) && (
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setSearchTerm("");
+                updateQuery(DEFAULT_ENTRY_FILTERS);
+              }}
+            >
+              Clear
+            </Button>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="gap-2">
+                <Bookmark className="h-4 w-4" /> Views
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-64">
+              <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+              {savedViews.length === 0 ? (
+                <p className="px-2 py-1.5 text-sm text-slate-500">No saved views yet</p>
+              ) : (
+                savedViews.map((view) => (
+                  <DropdownMenuItem
+                    key={view.id}
+                    className="justify-between gap-2"
+                    onClick={() => setSearchParams(view.params, { replace: true })}
+                  >
+                    <span className="truncate">{view.name}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 shrink-0"
+                      title="Delete view"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDeleteView(view.id);
+                      }}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  </DropdownMenuItem>
+                ))
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setIsSavingView(true)}>
+                <Plus className="mr-2 h-4 w-4" /> Save current view…
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
         
         <div className="flex gap-2">
-          <Button 
-            onClick={handleExport}
-            variant="outline"
-            className="gap-2"
-          >
-            <FileSpreadsheet className="h-4 w-4" /> Export Excel
-          </Button>
+          {canExport && (
+            <Button 
+              onClick={() => handleExport()}
+              variant="outline"
+              className="gap-2"
+            >
+              <FileSpreadsheet className="h-4 w-4" /> Export Excel
+            </Button>
+          )}
+
+          {canExport && (
+            <Button variant="outline" className="gap-2" onClick={() => setIsExportingCsv(true)}>
+              <FileDown className="h-4 w-4" /> Export CSV
+            </Button>
+          )}
+
+          {canImport && (
+            <Button variant="outline" className="gap-2" onClick={() => navigate('/import-entries')}>
+              <Upload className="h-4 w-4" /> Import
+            </Button>
+          )}
           
           <Button 
             onClick={handleAddNew}
@@ -281,7 +488,7 @@ const TransportEntries = ({ entries, onDelete }: TransportEntriesProps) => {
       </div>
 
       {/* Table */}
-      <div className="border rounded-lg overflow-hidden bg-white shadow-sm">
+      <div className={cn("border rounded-lg overflow-hidden bg-white shadow-sm transition-opacity", isFetching && "opacity-70")}>
         <ScrollArea className="h-[500px]">
           <div className="min-w-[1200px]">
             <Table>
@@ -289,46 +496,90 @@ const TransportEntries = ({ entries, onDelete }: TransportEntriesProps) => {
                 <TableRow>
                   <TableHead className="font-semibold">Date</TableHead>
                   <TableHead className="font-semibold">Vehicle Number</TableHead>
-                  <TableHead className="font-semibold">Weight of Goods</TableHead> {/* Changed from Driver */}
+                  <TableHead className="font-semibold">Weight of Goods</TableHead>
                   <TableHead className="font-semibold">Transport Name</TableHead>
                   <TableHead className="font-semibold">Place</TableHead>
                   <TableHead className="font-semibold text-right">Rent Amount</TableHead>
-                  <TableHead className="font-semibold text-right">Advance</TableHead>
-                  <TableHead className="font-semibold text-right">Balance</TableHead>
+                  <TableHead className="font-semibold text-right">Paid</TableHead>
+                  <TableHead className="font-semibold text-right">Outstanding</TableHead>
+                  <TableHead className="font-semibold text-right">Profit</TableHead>
                   <TableHead className="font-semibold">Balance Paid Date</TableHead>
                   <TableHead className="font-semibold">Status</TableHead>
                   <TableHead className="font-semibold text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredEntries.length === 0 ? (
+                {isLoading ? (
                   <TableRow>
-                    <TableCell colSpan={11} className="text-center py-8 text-slate-500">
+                    <TableCell colSpan={12} className="text-center py-8">
+                      <Loader2 className="mx-auto h-6 w-6 animate-spin text-primary" />
+                    </TableCell>
+                  </TableRow>
+                ) : entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={12} className="text-center py-8 text-slate-500">
                       No entries found matching your search.
                     </TableCell>
                   </TableRow>
                 ) : (
-                  filteredEntries.map((entry) => (
+                  entries.map((entry) => (
                     <TableRow 
                       key={entry.id}
-                      className="group"
+                      className={cn("group transition-colors duration-1000", highlightedIds?.has(entry.id) && "bg-amber-100")}
                     >
                       <TableCell>{format(new Date(entry.date), "dd/MM/yyyy")}</TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
                           <Truck className="h-3.5 w-3.5 text-slate-400" />
                           {entry.vehicleNumber}
+                          {entry.syncConflict ? (
+                            <Badge
+                              variant="outline"
+                              className="bg-red-50 text-red-700 border-red-300"
+                              title="Someone else saved this entry first; open it to merge your changes"
+                            >
+                              Sync conflict
+                            </Badge>
+                          ) : entry.pendingSync && (
+                            <Badge
+                              variant="outline"
+                              className="bg-amber-50 text-amber-700 border-amber-300"
+                              title="Saved on this device; syncs when the connection is back"
+                            >
+                              Pending sync
+                            </Badge>
+                          )}
                         </div>
+                        {entry.driverName && (
+                          <div className="text-xs text-slate-500 pl-5">{entry.driverName}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatWeight(entry) || "—"}</TableCell>
+                      <TableCell>
+                        {entry.partyId ? (
+                          <button
+                            className="text-left hover:text-primary hover:underline"
+                            onClick={() => navigate(`/parties/${entry.partyId}`)}
+                          >
+                            {entry.transportName}
+                          </button>
+                        ) : (
+                          entry.transportName || "—"
+                        )}
                       </TableCell>
-                      <TableCell>{entry.weight || "—"}</TableCell> {/* Changed from driverName */}
-                      <TableCell>{entry.transportName || "—"}</TableCell>
                       <TableCell>{entry.place || "—"}</TableCell>
                       <TableCell className="text-right">₹{entry.rentAmount.toLocaleString()}</TableCell>
                       <TableCell className="text-right">
-                        {entry.advanceAmount ? `₹${entry.advanceAmount.toLocaleString()}` : "—"}
+                        {entry.payments.length > 0 ? `₹${getPaidAmount(entry).toLocaleString()}` : "—"}
                       </TableCell>
                       <TableCell className="text-right">
-                        ₹{(entry.rentAmount - (entry.advanceAmount || 0)).toLocaleString()}
+                        ₹{getOutstandingAmount(entry).toLocaleString()}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right ${getTripProfit(entry) < 0 ? "text-red-600" : "text-green-600"}`}
+                        title={`Expenses ₹${getExpenseTotal(entry).toLocaleString()}`}
+                      >
+                        ₹{getTripProfit(entry).toLocaleString()}
                       </TableCell>
                       <TableCell>
                         {entry.balanceDate ? format(new Date(entry.balanceDate), "dd/MM/yyyy") : "—"}
@@ -352,6 +603,9 @@ const TransportEntries = ({ entries, onDelete }: TransportEntriesProps) => {
                         >
                           {entry.balanceStatus}
                         </Badge>
+                        {entry.invoiceNumber && (
+                          <div className="mt-1 text-xs text-slate-500">{entry.invoiceNumber}</div>
+                        )}
                       </TableCell>
                       <TableCell className="text-right">
                         <DropdownMenu>
@@ -364,34 +618,41 @@ const TransportEntries = ({ entries, onDelete }: TransportEntriesProps) => {
                             <DropdownMenuItem onClick={() => handleEdit(entry.id)}>
                               <Edit className="mr-2 h-4 w-4" /> Edit
                             </DropdownMenuItem>
-                            <Dialog>
-                              <DialogTrigger asChild>
-                                <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
-                                  <Trash className="mr-2 h-4 w-4" /> Delete
-                                </DropdownMenuItem>
-                              </DialogTrigger>
-                              <DialogContent>
-                                <DialogHeader>
-                                  <DialogTitle>Confirm deletion</DialogTitle>
-                                  <DialogDescription>
-                                    Are you sure you want to delete this entry? This action cannot be undone.
-                                  </DialogDescription>
-                                </DialogHeader>
-                                <DialogFooter>
-                                  <DialogClose asChild>
-                                    <Button variant="outline">Cancel</Button>
-                                  </DialogClose>
-                                  <DialogClose asChild>
-                                    <Button 
-                                      variant="destructive" 
-                                      onClick={() => handleDelete(entry.id)}
-                                    >
-                                      Delete
-                                    </Button>
-                                  </DialogClose>
-                                </DialogFooter>
-                              </DialogContent>
-                            </Dialog>
+                            {!entry.pendingSync && (
+                              <DropdownMenuItem onClick={() => navigate(`/lorry-receipt/${entry.id}`)}>
+                                <FileText className="mr-2 h-4 w-4" /> Lorry Receipt
+                              </DropdownMenuItem>
+                            )}
+                            {canDelete && (
+                              <Dialog>
+                                <DialogTrigger asChild>
+                                  <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
+                                    <Trash className="mr-2 h-4 w-4" /> Delete
+                                  </DropdownMenuItem>
+                                </DialogTrigger>
+                                <DialogContent>
+                                  <DialogHeader>
+                                    <DialogTitle>Confirm deletion</DialogTitle>
+                                    <DialogDescription>
+                                      This entry will be moved to the trash. It can be restored from there until it is purged.
+                                    </DialogDescription>
+                                  </DialogHeader>
+                                  <DialogFooter>
+                                    <DialogClose asChild>
+                                      <Button variant="outline">Cancel</Button>
+                                    </DialogClose>
+                                    <DialogClose asChild>
+                                      <Button 
+                                        variant="destructive" 
+                                        onClick={() => handleDelete(entry.id)}
+                                      >
+                                        Delete
+                                      </Button>
+                                    </DialogClose>
+                                  </DialogFooter>
+                                </DialogContent>
+                              </Dialog>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </TableCell>
@@ -403,6 +664,46 @@ const TransportEntries = ({ entries, onDelete }: TransportEntriesProps) => {
           </div>
         </ScrollArea>
       </div>
+
+      <TablePagination
+        page={query.page}
+        pageSize={query.pageSize}
+        pageSizes={ENTRY_PAGE_SIZES}
+        total={page.total}
+        onPageChange={(value) => setQuery((current) => ({ ...current, page: value }))}
+        onPageSizeChange={(value) => updateQuery({ pageSize: value })}
+      />
+
+      <CsvExportDialog open={isExportingCsv} onOpenChange={setIsExportingCsv} onExport={handleExport} />
+
+      <Dialog open={isSavingView} onOpenChange={setIsSavingView}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+            <DialogDescription>
+              Keeps the current search, filters and sort under a name of your choosing.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="view-name">Name</Label>
+            <Input
+              id="view-name"
+              placeholder="e.g. Unpaid over 60 days, Sharma Roadlines"
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSaveView()}
+            />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button onClick={handleSaveView} disabled={!viewName.trim()}>
+              Save View
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -2,11 +2,18 @@
 import { useState, useEffect } from "react";
 import { format } from "date-fns";
 import { useForm } from "react-hook-form";
-import { CalendarIcon, Loader2 } from "lucide-react";
+import { AlertTriangle, CalendarIcon, Loader2 } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
 import { cn } from "@/lib/utils";
 import { v4 as uuidv4 } from "uuid";
-import { TransportEntry } from "@/types/transport";
+import { PaymentMode, TransportEntry, WeightUnit } from "@/types/transport";
+import { deriveBalanceStatus, PAYMENT_MODES } from "@/lib/payments";
 import { useToast } from "@/hooks/use-toast";
+import PartyPicker from "@/components/PartyPicker";
+import { fetchVehicles, normalizeRegistrationNumber } from "@/services/vehicleService";
+import { fetchDrivers } from "@/services/driverService";
+import { DOCUMENT_LABELS, getExpiredDocuments } from "@/lib/vehicleDocuments";
+import { calculateRent, WEIGHT_UNITS } from "@/lib/weight";
 
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
@@ -36,25 +43,28 @@ import {
 type FormValues = {
   date: Date | undefined;
   vehicleNumber: string;
-  weight: string; // Changed from driverName
+  weight: number | null;
+  weightUnit: WeightUnit;
+  ratePerUnit: number | null;
+  driverId: string | null;
   driverMobile: string;
   place: string;
+  partyId: string | null;
   transportName: string;
   rentAmount: number;
   advanceAmount: number | null;
   advanceDate: Date | null;
-  advanceType: "Cash" | "Bank Transfer" | "Check" | "UPI";
-  balanceStatus: "PAID" | "UNPAID" | "PARTIAL";
-  balanceDate: Date | null;
+  advanceType: PaymentMode;
 };
 
 export interface TransportFormProps {
   onSubmit: (data: TransportEntry) => void;
   initialData?: TransportEntry;
   isEditing?: boolean;
+  amountsLocked?: boolean; // Weight, unit, rate and rent are frozen for clerks after a day
 }
 
-const TransportForm = ({ onSubmit, initialData, isEditing = false }: TransportFormProps) => {
+const TransportForm = ({ onSubmit, initialData, isEditing = false, amountsLocked = false }: TransportFormProps) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
 
@@ -62,36 +72,82 @@ const TransportForm = ({ onSubmit, initialData, isEditing = false }: TransportFo
     defaultValues: {
       date: undefined,
       vehicleNumber: "",
-      weight: "", // Changed from driverName
+      weight: null,
+      weightUnit: "ton",
+      ratePerUnit: null,
+      driverId: null,
       driverMobile: "",
       place: "",
+      partyId: null,
       transportName: "",
       rentAmount: 0,
       advanceAmount: null,
       advanceDate: null,
       advanceType: "Cash",
-      balanceStatus: "UNPAID",
-      balanceDate: null,
     },
     mode: "onChange",
   });
 
+  const { data: vehicles = [] } = useQuery({
+    queryKey: ['vehicles'],
+    queryFn: fetchVehicles,
+  });
+
+  const { data: drivers = [] } = useQuery({
+    queryKey: ['drivers'],
+    queryFn: fetchDrivers,
+  });
+
+  // Picking a driver fills in their mobile, and their usual truck if none is entered yet
+  const handleDriverChange = (driverId: string) => {
+    const driver = drivers.find((d) => d.id === driverId);
+    form.setValue("driverId", driver ? driver.id : null);
+    if (!driver) return;
+    if (driver.mobile) {
+      form.setValue("driverMobile", driver.mobile);
+    }
+    const defaultVehicle = vehicles.find((vehicle) => vehicle.id === driver.defaultVehicleId);
+    if (defaultVehicle && !form.getValues("vehicleNumber")) {
+      form.setValue("vehicleNumber", defaultVehicle.registrationNumber, { shouldValidate: true });
+    }
+  };
+
+  // With a rate set, the rent is always weight x rate
+  const [watchedWeight, watchedRate] = form.watch(["weight", "ratePerUnit"]);
+  const calculatedRent = calculateRent(watchedWeight, watchedRate);
+  useEffect(() => {
+    if (calculatedRent !== null && calculatedRent !== Number(form.getValues("rentAmount"))) {
+      form.setValue("rentAmount", calculatedRent, { shouldValidate: true });
+    }
+  }, [calculatedRent, form]);
+
+  // Warn (but don't block) when the registry says the truck's papers had lapsed on the trip date
+  const [watchedVehicleNumber, watchedDate] = form.watch(["vehicleNumber", "date"]);
+  const registeredVehicle = vehicles.find(
+    (vehicle) => vehicle.registrationNumber === normalizeRegistrationNumber(watchedVehicleNumber || "")
+  );
+  const expiredDocuments = registeredVehicle && watchedDate
+    ? getExpiredDocuments(registeredVehicle, watchedDate)
+    : [];
+
   // Set form values based on initialData when editing
   useEffect(() => {
     if (initialData && isEditing) {
       form.reset({
         date: initialData.date,
         vehicleNumber: initialData.vehicleNumber,
-        weight: initialData.weight, // Changed from driverName
+        weight: initialData.weight,
+        weightUnit: initialData.weightUnit,
+        ratePerUnit: initialData.ratePerUnit,
+        driverId: initialData.driverId,
         driverMobile: initialData.driverMobile,
         place: initialData.place,
+        partyId: initialData.partyId,
         transportName: initialData.transportName,
         rentAmount: initialData.rentAmount,
         advanceAmount: initialData.advanceAmount,
         advanceDate: initialData.advanceDate,
         advanceType: initialData.advanceType,
-        balanceStatus: initialData.balanceStatus,
-        balanceDate: initialData.balanceDate,
       });
     }
   }, [initialData, isEditing, form]);
@@ -117,21 +173,38 @@ const TransportForm = ({ onSubmit, initialData, isEditing = false }: TransportFo
       // Simulate API call
       await new Promise((resolve) => setTimeout(resolve, 500));
       
+      // Payments are managed through the ledger once an entry exists, so
+      // editing keeps the recorded ones and a new entry starts empty
+      const payments = initialData?.payments || [];
+
       // Ensure all required fields are present according to TransportEntry type
       const entryData: TransportEntry = {
         id: initialData?.id || uuidv4(),
         date: values.date,
         vehicleNumber: values.vehicleNumber,
-        weight: values.weight, // Changed from driverName
+        weight: values.weight,
+        weightUnit: values.weightUnit,
+        ratePerUnit: values.ratePerUnit,
+        driverId: values.driverId,
+        driverName: drivers.find((driver) => driver.id === values.driverId)?.name || "",
         driverMobile: values.driverMobile,
         place: values.place,
+        partyId: values.partyId,
         transportName: values.transportName,
         rentAmount: values.rentAmount,
         advanceAmount: values.advanceAmount,
         advanceDate: values.advanceDate,
         advanceType: values.advanceType,
-        balanceStatus: values.balanceStatus,
-        balanceDate: values.balanceDate,
+        balanceStatus: deriveBalanceStatus(values.rentAmount, payments),
+        balanceDate: initialData?.balanceDate || null,
+        payments,
+        expenses: initialData?.expenses || [],
+        invoiceNumber: initialData?.invoiceNumber || null,
+        createdAt: initialData?.createdAt || null,
+        deletedAt: initialData?.deletedAt || null,
+        version: initialData?.version ?? 1,
+        pendingSync: false,
+        syncConflict: false,
       };
       
       onSubmit(entryData);
@@ -147,16 +220,18 @@ const TransportForm = ({ onSubmit, initialData, isEditing = false }: TransportFo
         form.reset({
           date: undefined,
           vehicleNumber: "",
-          weight: "", // Changed from driverName
+          weight: null,
+          weightUnit: "ton",
+          ratePerUnit: null,
+          driverId: null,
           driverMobile: "",
           place: "",
+          partyId: null,
           transportName: "",
           rentAmount: 0,
           advanceAmount: null,
           advanceDate: null,
           advanceType: "Cash",
-          balanceStatus: "UNPAID",
-          balanceDate: null,
         });
       }
     } catch (error) {
@@ -223,23 +298,112 @@ const TransportForm = ({ onSubmit, initialData, isEditing = false }: TransportFo
               <FormItem>
                 <FormLabel>Vehicle Number <span className="text-red-500">*</span></FormLabel>
                 <FormControl>
-                  <Input placeholder="e.g. KA01AB1234" {...field} />
+                  <Input placeholder="e.g. KA01AB1234" list="registered-vehicles" autoComplete="off" {...field} />
                 </FormControl>
+                <datalist id="registered-vehicles">
+                  {vehicles.map((vehicle) => (
+                    <option key={vehicle.id} value={vehicle.registrationNumber}>
+                      {[vehicle.vehicleType, vehicle.ownership === "MARKET" ? vehicle.ownerName || "Market" : "Own fleet"]
+                        .filter(Boolean)
+                        .join(" • ")}
+                    </option>
+                  ))}
+                </datalist>
+                {expiredDocuments.length > 0 && (
+                  <p className="flex items-center gap-1 text-sm text-amber-600">
+                    <AlertTriangle className="h-3.5 w-3.5" />
+                    Expired on trip date: {expiredDocuments.map((document) => DOCUMENT_LABELS[document]).join(", ")}
+                  </p>
+                )}
                 <FormMessage />
               </FormItem>
             )}
           />
 
-          {/* Weight of Goods (Changed from Driver Name) */}
+          {/* Driver */}
           <FormField
             control={form.control}
-            name="weight"
+            name="driverId"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Weight of Goods</FormLabel>
+                <FormLabel>Driver</FormLabel>
+                <Select onValueChange={handleDriverChange} value={field.value ?? "none"}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select driver" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">No driver</SelectItem>
+                    {drivers.map((driver) => (
+                      <SelectItem key={driver.id} value={driver.id}>{driver.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Weight of Goods */}
+          <FormItem>
+            <FormLabel>Weight of Goods</FormLabel>
+            <div className="flex gap-2">
+              <FormField
+                control={form.control}
+                name="weight"
+                render={({ field }) => (
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      placeholder="Weight of goods"
+                      disabled={amountsLocked}
+                      value={field.value ?? ''}
+                      onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : null)}
+                    />
+                  </FormControl>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="weightUnit"
+                render={({ field }) => (
+                  <Select onValueChange={field.onChange} value={field.value} disabled={amountsLocked}>
+                    <SelectTrigger className="w-[110px]">
+                      <SelectValue placeholder="Unit" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEIGHT_UNITS.map((unit) => (
+                        <SelectItem key={unit.value} value={unit.value}>{unit.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+          </FormItem>
+
+          {/* Rate per weight unit */}
+          <FormField
+            control={form.control}
+            name="ratePerUnit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Rate per {form.watch("weightUnit")}</FormLabel>
                 <FormControl>
-                  <Input placeholder="Weight of goods" {...field} />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="any"
+                    placeholder="Freight rate (optional)"
+                    disabled={amountsLocked}
+                    value={field.value ?? ''}
+                    onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : null)}
+                  />
                 </FormControl>
+                <FormDescription>Leave blank to enter a fixed rent</FormDescription>
                 <FormMessage />
               </FormItem>
             )}
@@ -275,15 +439,22 @@ const TransportForm = ({ onSubmit, initialData, isEditing = false }: TransportFo
             )}
           />
 
-          {/* Transport Name */}
+          {/* Party (picked from the parties master) */}
           <FormField
             control={form.control}
-            name="transportName"
+            name="partyId"
             render={({ field }) => (
-              <FormItem>
+              <FormItem className="flex flex-col">
                 <FormLabel>Transport Name</FormLabel>
                 <FormControl>
-                  <Input placeholder="Transport company name" {...field} />
+                  <PartyPicker
+                    value={field.value}
+                    placeholder="Select transport party"
+                    onChange={(party) => {
+                      field.onChange(party.id);
+                      form.setValue("transportName", party.name);
+                    }}
+                  />
                 </FormControl>
                 <FormMessage />
               </FormItem>
@@ -298,164 +469,113 @@ const TransportForm = ({ onSubmit, initialData, isEditing = false }: TransportFo
               <FormItem>
                 <FormLabel>Rent Amount <span className="text-red-500">*</span></FormLabel>
                 <FormControl>
-                  <Input type="number" min="0" placeholder="Total rent amount" {...field} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-
-          {/* Advance Amount */}
-          <FormField
-            control={form.control}
-            name="advanceAmount"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Advance Amount</FormLabel>
-                <FormControl>
-                  <Input 
-                    type="number" 
-                    min="0" 
-                    placeholder="Amount paid in advance" 
-                    value={field.value ?? ''} 
-                    onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : null)}
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Total rent amount"
+                    readOnly={calculatedRent !== null}
+                    {...field}
+                    disabled={amountsLocked}
                   />
                 </FormControl>
+                {calculatedRent !== null && (
+                  <FormDescription>Worked out from weight × rate</FormDescription>
+                )}
                 <FormMessage />
               </FormItem>
             )}
           />
 
-          {/* Advance Date */}
-          <FormField
-            control={form.control}
-            name="advanceDate"
-            render={({ field }) => (
-              <FormItem className="flex flex-col">
-                <FormLabel>Advance Date</FormLabel>
-                <Popover>
-                  <PopoverTrigger asChild>
+          {/* Advance fields record the first payment; later ones go through the ledger */}
+          {!isEditing && (
+            <>
+              {/* Advance Amount */}
+              <FormField
+                control={form.control}
+                name="advanceAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Advance Amount</FormLabel>
                     <FormControl>
-                      <Button
-                        variant={"outline"}
-                        className={cn(
-                          "w-full pl-3 text-left font-normal",
-                          !field.value && "text-muted-foreground"
-                        )}
-                      >
-                        {field.value ? (
-                          format(field.value, "PPP")
-                        ) : (
-                          <span>Pick a date</span>
-                        )}
-                        <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                      </Button>
+                      <Input 
+                        type="number" 
+                        min="0" 
+                        placeholder="Amount paid in advance" 
+                        value={field.value ?? ''} 
+                        onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : null)}
+                      />
                     </FormControl>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0" align="start">
-                    <Calendar
-                      mode="single"
-                      selected={field.value || undefined}
-                      onSelect={field.onChange}
-                      initialFocus
-                      className="p-3 pointer-events-auto"
-                    />
-                  </PopoverContent>
-                </Popover>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-
-          {/* Advance Type */}
-          <FormField
-            control={form.control}
-            name="advanceType"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Advance Type</FormLabel>
-                <Select onValueChange={field.onChange} defaultValue={field.value}>
-                  <FormControl>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select payment method" />
-                    </SelectTrigger>
-                  </FormControl>
-                  <SelectContent>
-                    <SelectItem value="Cash">Cash</SelectItem>
-                    <SelectItem value="Bank Transfer">Bank Transfer</SelectItem>
-                    <SelectItem value="Check">Check</SelectItem>
-                    <SelectItem value="UPI">UPI</SelectItem>
-                  </SelectContent>
-                </Select>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
-          {/* Balance Status */}
-          <FormField
-            control={form.control}
-            name="balanceStatus"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Balance Status</FormLabel>
-                <Select onValueChange={field.onChange} defaultValue={field.value}>
-                  <FormControl>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select payment status" />
-                    </SelectTrigger>
-                  </FormControl>
-                  <SelectContent>
-                    <SelectItem value="PAID">PAID</SelectItem>
-                    <SelectItem value="UNPAID">UNPAID</SelectItem>
-                    <SelectItem value="PARTIAL">PARTIAL</SelectItem>
-                  </SelectContent>
-                </Select>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
+              {/* Advance Date */}
+              <FormField
+                control={form.control}
+                name="advanceDate"
+                render={({ field }) => (
+                  <FormItem className="flex flex-col">
+                    <FormLabel>Advance Date</FormLabel>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button
+                            variant={"outline"}
+                            className={cn(
+                              "w-full pl-3 text-left font-normal",
+                              !field.value && "text-muted-foreground"
+                            )}
+                          >
+                            {field.value ? (
+                              format(field.value, "PPP")
+                            ) : (
+                              <span>Pick a date</span>
+                            )}
+                            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="single"
+                          selected={field.value || undefined}
+                          onSelect={field.onChange}
+                          initialFocus
+                          className="p-3 pointer-events-auto"
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
-          {/* Balance Date */}
-          <FormField
-            control={form.control}
-            name="balanceDate"
-            render={({ field }) => (
-              <FormItem className="flex flex-col">
-                <FormLabel>Balance Date</FormLabel>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <FormControl>
-                      <Button
-                        variant={"outline"}
-                        className={cn(
-                          "w-full pl-3 text-left font-normal",
-                          !field.value && "text-muted-foreground"
-                        )}
-                      >
-                        {field.value ? (
-                          format(field.value, "PPP")
-                        ) : (
-                          <span>Pick a date</span>
-                        )}
-                        <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                      </Button>
-                    </FormControl>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0" align="start">
-                    <Calendar
-                      mode="single"
-                      selected={field.value || undefined}
-                      onSelect={field.onChange}
-                      initialFocus
-                      className="p-3 pointer-events-auto"
-                    />
-                  </PopoverContent>
-                </Popover>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
+              {/* Advance Type */}
+              <FormField
+                control={form.control}
+                name="advanceType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Advance Type</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select payment method" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {PAYMENT_MODES.map((mode) => (
+                          <SelectItem key={mode} value={mode}>{mode}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </>
+          )}
         </div>
 
         <div className="flex justify-end space-x-4">
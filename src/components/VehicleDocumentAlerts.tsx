@@ -0,0 +1,68 @@
+import { format } from "date-fns";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { ShieldAlert } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { fetchVehicles } from "@/services/vehicleService";
+import { DOCUMENT_LABELS, getExpiringDocuments } from "@/lib/vehicleDocuments";
+
+const ALERT_WINDOW_DAYS = 30;
+
+const VehicleDocumentAlerts = () => {
+  const navigate = useNavigate();
+  const { data: vehicles = [] } = useQuery({
+    queryKey: ['vehicles'],
+    queryFn: fetchVehicles,
+  });
+
+  const expiring = getExpiringDocuments(vehicles, ALERT_WINDOW_DAYS);
+
+  if (expiring.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-amber-200 bg-amber-50">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg flex items-center gap-2 text-amber-800">
+          <ShieldAlert className="h-5 w-5" />
+          Vehicle Documents Expiring
+        </CardTitle>
+        <Button variant="ghost" size="sm" className="text-amber-800" onClick={() => navigate('/vehicles')}>
+          Manage vehicles
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {expiring.map(({ vehicle, document, expiresOn, daysLeft }) => (
+            <div
+              key={`${vehicle.id}-${document}`}
+              className="flex items-center justify-between bg-white p-3 rounded-lg"
+            >
+              <div>
+                <p className="font-medium">{vehicle.registrationNumber}</p>
+                <p className="text-sm text-muted-foreground">
+                  {DOCUMENT_LABELS[document]} • {format(expiresOn, "dd MMM yyyy")}
+                </p>
+              </div>
+              <Badge
+                variant={daysLeft < 0 ? "destructive" : "outline"}
+                className={daysLeft < 0 ? undefined : "bg-amber-100 text-amber-800 border-amber-300"}
+              >
+                {daysLeft < 0
+                  ? `Expired ${Math.abs(daysLeft)}d ago`
+                  : daysLeft === 0
+                    ? "Expires today"
+                    : `${daysLeft}d left`}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VehicleDocumentAlerts;
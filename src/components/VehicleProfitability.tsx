@@ -0,0 +1,143 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn, formatAxisAmount } from "@/lib/utils";
+import { VehicleReport } from "@/types/vehicleReport";
+
+interface VehicleProfitabilityProps {
+  report: VehicleReport;
+  onSelectVehicle: (vehicleNumber: string) => void;
+}
+
+const chartConfig = {
+  freight: {
+    label: "Freight",
+    color: "hsl(142 71% 45%)",
+  },
+  expenses: {
+    label: "Expenses",
+    color: "hsl(var(--destructive))",
+  },
+  profit: {
+    label: "Profit",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+// The busiest vehicles only, so the bars stay readable on a large fleet
+const CHART_VEHICLES = 10;
+
+const formatAmount = (amount: number) => (amount !== 0 ? `₹${amount.toLocaleString()}` : "—");
+
+const VehicleProfitability = ({ report, onSelectVehicle }: VehicleProfitabilityProps) => {
+  const chartRows = report.rows.filter((row) => row.trips > 0).slice(0, CHART_VEHICLES);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Vehicle Profitability</CardTitle>
+        <span className="text-sm text-muted-foreground">{report.periodDays} days in period</span>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {report.rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No vehicles ran trips in this period.</p>
+        ) : (
+          <>
+            {chartRows.length > 0 && (
+              <ChartContainer config={chartConfig} className="h-[260px] w-full">
+                <BarChart data={chartRows}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="vehicleNumber" tickLine={false} axisLine={false} />
+                  <YAxis tickFormatter={formatAxisAmount} width={48} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="freight" fill="var(--color-freight)" radius={4} />
+                  <Bar dataKey="expenses" fill="var(--color-expenses)" radius={4} />
+                  <Bar dataKey="profit" fill="var(--color-profit)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+
+            <div className="border rounded-lg overflow-x-auto bg-white">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="font-semibold">Vehicle</TableHead>
+                    <TableHead className="font-semibold text-right">Freight</TableHead>
+                    <TableHead className="font-semibold text-right">Collected</TableHead>
+                    <TableHead className="font-semibold text-right">Outstanding</TableHead>
+                    <TableHead className="font-semibold text-right">Expenses</TableHead>
+                    <TableHead className="font-semibold text-right">Net Profit</TableHead>
+                    <TableHead className="font-semibold text-right">Active / Idle Days</TableHead>
+                    <TableHead className="font-semibold text-right">Freight per Ton</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.rows.map((row) => (
+                    <TableRow
+                      key={row.vehicleNumber}
+                      className="cursor-pointer"
+                      onClick={() => onSelectVehicle(row.vehicleNumber)}
+                    >
+                      <TableCell>
+                        <p className="font-medium">{row.vehicleNumber}</p>
+                        <p className="text-xs text-muted-foreground">{row.trips} trips</p>
+                      </TableCell>
+                      <TableCell className="text-right">{formatAmount(row.freight)}</TableCell>
+                      <TableCell className="text-right text-green-600">{formatAmount(row.collected)}</TableCell>
+                      <TableCell className={cn("text-right", row.outstanding > 0 && "text-red-600")}>
+                        {formatAmount(row.outstanding)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatAmount(row.expenses)}</TableCell>
+                      <TableCell className={cn("text-right font-medium", row.profit < 0 && "text-red-600")}>
+                        {formatAmount(row.profit)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.activeDays} / <span className="text-muted-foreground">{row.idleDays}</span>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.totalTons > 0 ? `₹${Math.round(row.freightPerTon).toLocaleString()}/t` : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>
+                      <p className="font-semibold">Total</p>
+                      <p className="text-xs text-muted-foreground">{report.totals.trips} trips</p>
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">{formatAmount(report.totals.freight)}</TableCell>
+                    <TableCell className="text-right font-semibold">{formatAmount(report.totals.collected)}</TableCell>
+                    <TableCell className="text-right font-semibold">{formatAmount(report.totals.outstanding)}</TableCell>
+                    <TableCell className="text-right font-semibold">{formatAmount(report.totals.expenses)}</TableCell>
+                    <TableCell className="text-right font-bold">{formatAmount(report.totals.profit)}</TableCell>
+                    <TableCell colSpan={2} />
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VehicleProfitability;
@@ -0,0 +1,65 @@
+import * as React from "react"
+import type { Session } from "@supabase/supabase-js"
+import { useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+import { supabase } from "@/integrations/supabase/client"
+import { clearCachedEntries } from "@/lib/offlineStore"
+import { signOut as signOutFromSupabase } from "@/services/authService"
+
+interface AuthContextValue {
+  session: Session | null
+  isLoading: boolean
+  signOut: () => Promise<void>
+}
+
+const AuthContext = React.createContext<AuthContextValue | null>(null)
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient()
+  const [session, setSession] = React.useState<Session | null>(null)
+  const [isLoading, setIsLoading] = React.useState(true)
+  // Set while the user signs out on purpose, so it isn't reported as an expired session
+  const signingOut = React.useRef(false)
+
+  React.useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session)
+      setIsLoading(false)
+    })
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, nextSession) => {
+      setSession(nextSession)
+      if (event === "SIGNED_OUT") {
+        // Never leave one user's cached rows around for the next one
+        queryClient.clear()
+        clearCachedEntries().catch((error) => console.error("Failed to clear offline entries:", error))
+        if (!signingOut.current) {
+          toast.error("Your session has expired. Please sign in again.")
+        }
+        signingOut.current = false
+      }
+    })
+
+    return () => subscription.unsubscribe()
+  }, [queryClient])
+
+  const signOut = React.useCallback(async () => {
+    signingOut.current = true
+    const success = await signOutFromSupabase()
+    if (!success) {
+      signingOut.current = false
+    }
+  }, [])
+
+  const value = React.useMemo(() => ({ session, isLoading, signOut }), [session, isLoading, signOut])
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+}
+
+export function useAuth() {
+  const context = React.useContext(AuthContext)
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider")
+  }
+  return context
+}
@@ -0,0 +1,54 @@
+import * as React from "react"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+import { usePermissions } from "@/hooks/use-permissions"
+import { clearCachedEntries } from "@/lib/offlineStore"
+import { fetchCompanies, switchCompany as switchCompanyInDb } from "@/services/companyService"
+import { fetchSettings, SETTING_DEFAULTS } from "@/services/settingsService"
+import { countPendingOperations } from "@/services/transportService"
+import { Letterhead } from "@/types/company"
+
+export function useCompany() {
+  const queryClient = useQueryClient()
+  const { profile } = usePermissions()
+
+  const { data: companies = [], isLoading } = useQuery({
+    queryKey: ['companies'],
+    queryFn: fetchCompanies,
+    enabled: !!profile,
+  })
+
+  const { data: settings = SETTING_DEFAULTS } = useQuery({
+    queryKey: ['settings'],
+    queryFn: fetchSettings,
+    enabled: !!profile,
+  })
+
+  const currentCompany = companies.find((company) => company.id === profile?.companyId) ?? null
+
+  const letterhead = React.useMemo<Letterhead>(() => ({
+    name: currentCompany?.name ?? "",
+    address: settings.company_address,
+    phone: settings.company_phone,
+    email: settings.company_email,
+    gstin: settings.company_gstin,
+  }), [currentCompany, settings])
+
+  const switchCompany = React.useCallback(async (companyId: string) => {
+    // Queued entries are written to whichever company is current when they sync
+    if (await countPendingOperations() > 0) {
+      toast.error("Sync the changes saved offline before switching company")
+      return false
+    }
+    const success = await switchCompanyInDb(companyId)
+    if (success) {
+      // Entries, parties, settings and the rest all belong to the old company,
+      // and so do the entries kept on this device for offline use
+      await clearCachedEntries().catch((error) => console.error("Failed to clear offline entries:", error))
+      await queryClient.invalidateQueries()
+    }
+    return success
+  }, [queryClient])
+
+  return { companies, currentCompany, letterhead, isLoading, switchCompany }
+}
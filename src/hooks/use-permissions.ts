@@ -0,0 +1,42 @@
+import * as React from "react"
+import { useQuery } from "@tanstack/react-query"
+import { useAuth } from "@/hooks/use-auth"
+import { fetchCurrentProfile } from "@/services/userService"
+import {
+  canChangeEntryAmounts,
+  canDelete,
+  canExport,
+  canImport,
+  canManageInvoices,
+  canManageSettings,
+  canManageUsers,
+  canRecordPayments,
+} from "@/lib/permissions"
+import { TransportEntry } from "@/types/transport"
+
+export function usePermissions() {
+  const { session } = useAuth()
+  const userId = session?.user.id
+
+  const { data: profile = null, isLoading } = useQuery({
+    queryKey: ['profile', userId],
+    queryFn: () => fetchCurrentProfile(userId as string),
+    enabled: !!userId,
+  })
+
+  const role = profile?.role ?? null
+
+  return React.useMemo(() => ({
+    profile,
+    role,
+    isLoading: !!userId && isLoading,
+    canDelete: canDelete(role),
+    canManageUsers: canManageUsers(role),
+    canManageSettings: canManageSettings(role),
+    canRecordPayments: canRecordPayments(role),
+    canManageInvoices: canManageInvoices(role),
+    canExport: canExport(role),
+    canImport: canImport(role),
+    canChangeEntryAmounts: (entry: Pick<TransportEntry, 'createdAt'>) => canChangeEntryAmounts(role, entry),
+  }), [profile, role, userId, isLoading])
+}
@@ -0,0 +1,145 @@
+import * as React from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js"
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables } from "@/integrations/supabase/types"
+import { useAuth } from "@/hooks/use-auth"
+import { fetchTransportEntry } from "@/services/transportService"
+import { EntryPage, TransportEntry } from "@/types/transport"
+
+const HIGHLIGHT_MS = 4000
+
+const byDateDesc = (a: TransportEntry, b: TransportEntry) =>
+  new Date(b.date).getTime() - new Date(a.date).getTime()
+
+// Keeps ['transportEntries'] current while entries and payments change on other
+// devices, fetching only the entry that changed instead of the whole list. A
+// cached page is patched in place when it shows the entry; otherwise the entry
+// may now belong on it, so the page is fetched again.
+// Returns the ids of entries someone else just added or changed, for a brief highlight.
+export function useRealtimeEntries() {
+  const queryClient = useQueryClient()
+  const { session } = useAuth()
+  const userId = session?.user.id
+  const [highlightedIds, setHighlightedIds] = React.useState<Set<string>>(() => new Set())
+
+  React.useEffect(() => {
+    if (!userId) return
+    const timers = new Set<ReturnType<typeof setTimeout>>()
+
+    const highlight = (id: string) => {
+      setHighlightedIds((ids) => new Set(ids).add(id))
+      const timer = setTimeout(() => {
+        timers.delete(timer)
+        setHighlightedIds((ids) => {
+          const next = new Set(ids)
+          next.delete(id)
+          return next
+        })
+      }, HIGHLIGHT_MS)
+      timers.add(timer)
+    }
+
+    // The full list when the reports have loaded it, and every cached page of the table
+    const getCachedEntries = () => [
+      ...(queryClient.getQueryData<TransportEntry[]>(["transportEntries"]) || []),
+      ...queryClient
+        .getQueriesData<EntryPage>({ queryKey: ["transportEntries", "page"] })
+        .flatMap(([, page]) => page?.entries || []),
+    ]
+
+    const patchEntries = (update: (entries: TransportEntry[]) => TransportEntry[]) =>
+      queryClient.setQueryData<TransportEntry[]>(["transportEntries"], (entries) => entries && update(entries))
+
+    const patchPages = (id: string, entry: TransportEntry | null) => {
+      let isOffPage = false
+      queryClient.getQueriesData<EntryPage>({ queryKey: ["transportEntries", "page"] }).forEach(([key, page]) => {
+        if (!page) return
+        if (!entry || !page.entries.some((cached) => cached.id === id)) {
+          isOffPage = true
+          return
+        }
+        queryClient.setQueryData<EntryPage>(key, {
+          ...page,
+          entries: page.entries.map((cached) => (cached.id === id && !cached.pendingSync ? entry : cached)),
+        })
+      })
+      if (isOffPage) {
+        queryClient.invalidateQueries({ queryKey: ["transportEntries", "page"] })
+      }
+      queryClient.invalidateQueries({ queryKey: ["transportEntries", "summary"] })
+    }
+
+    const removeEntry = (id: string) => {
+      patchEntries((entries) => entries.filter((entry) => entry.id !== id))
+      patchPages(id, null)
+    }
+
+    const refreshEntry = async (id: string, byOtherUser: boolean) => {
+      const entry = await fetchTransportEntry(id)
+      if (!entry || entry.deletedAt) {
+        removeEntry(id)
+        return
+      }
+      patchEntries((entries) => {
+        // An edit still waiting to sync on this device shows over the server copy
+        if (entries.some((cached) => cached.id === id && cached.pendingSync)) return entries
+        return [...entries.filter((cached) => cached.id !== id), entry].sort(byDateDesc)
+      })
+      patchPages(id, entry)
+      if (byOtherUser) highlight(id)
+    }
+
+    const handleEntryChange = (payload: RealtimePostgresChangesPayload<Tables<"transport_entries">>) => {
+      if (payload.eventType === "DELETE") {
+        if (payload.old.id) removeEntry(payload.old.id)
+        return
+      }
+
+      const row = payload.new
+      if (row.deleted_at) {
+        removeEntry(row.id)
+        return
+      }
+
+      // A payment rewriting the balance status keeps the version; its own event marks it
+      const cached = getCachedEntries().find((entry) => entry.id === row.id)
+      const isEdit = !cached || cached.version !== row.version
+      refreshEntry(row.id, isEdit && row.updated_by !== userId)
+    }
+
+    const handlePaymentChange = (payload: RealtimePostgresChangesPayload<Tables<"payments">>) => {
+      if (payload.eventType === "DELETE") {
+        // Row level security leaves only the id on a deleted row; find the entry that held it
+        const entry = getCachedEntries().find((cached) =>
+          cached.payments.some((payment) => payment.id === payload.old.id)
+        )
+        if (entry) refreshEntry(entry.id, false)
+        return
+      }
+
+      refreshEntry(payload.new.entry_id, payload.new.recorded_by !== userId)
+    }
+
+    const channel = supabase
+      .channel("transport-entries")
+      .on<Tables<"transport_entries">>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "transport_entries" },
+        handleEntryChange
+      )
+      .on<Tables<"payments">>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "payments" },
+        handlePaymentChange
+      )
+      .subscribe()
+
+    return () => {
+      timers.forEach(clearTimeout)
+      supabase.removeChannel(channel)
+    }
+  }, [queryClient, userId])
+
+  return highlightedIds
+}
@@ -0,0 +1,77 @@
+import * as React from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+import { useAuth } from "@/hooks/use-auth"
+import { subscribeToQueue } from "@/lib/offlineStore"
+import { ENTRY_SYNC_TAG, onBackgroundSync } from "@/lib/pwa"
+import { countPendingOperations, countSyncConflicts, syncPendingOperations } from "@/services/transportService"
+
+// Connection state and entry changes waiting on this device. Sends them when
+// the app opens, when the connection comes back and when background sync fires.
+export function useSyncStatus() {
+  const queryClient = useQueryClient()
+  const { session } = useAuth()
+  const userId = session?.user.id
+  const [isOnline, setIsOnline] = React.useState(() => navigator.onLine)
+  const [pendingCount, setPendingCount] = React.useState(0)
+  const [conflictCount, setConflictCount] = React.useState(0)
+  const [isSyncing, setIsSyncing] = React.useState(false)
+
+  const refreshPendingCount = React.useCallback(() => {
+    Promise.all([countPendingOperations(), countSyncConflicts()])
+      .then(([pending, conflicts]) => {
+        setPendingCount(pending)
+        setConflictCount(conflicts)
+      })
+      .catch((error) => console.error("Failed to read the offline queue:", error))
+  }, [])
+
+  const syncNow = React.useCallback(async () => {
+    if (!userId) return
+    setIsSyncing(true)
+    try {
+      const outcomes = await syncPendingOperations()
+      const synced = [...outcomes.values()].filter((outcome) => outcome === "applied").length
+      if (outcomes.size > 0) {
+        await queryClient.invalidateQueries({ queryKey: ["transportEntries"] })
+      }
+      if (synced > 0) {
+        toast.success(`Synced ${synced} offline ${synced === 1 ? "change" : "changes"}`)
+      }
+    } catch (error) {
+      console.error("Failed to sync offline changes:", error)
+    } finally {
+      setIsSyncing(false)
+    }
+  }, [queryClient, userId])
+
+  React.useEffect(() => {
+    refreshPendingCount()
+    return subscribeToQueue(refreshPendingCount)
+  }, [refreshPendingCount, userId])
+
+  React.useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true)
+      syncNow()
+    }
+    const handleOffline = () => setIsOnline(false)
+
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+    const stopListening = onBackgroundSync(ENTRY_SYNC_TAG, syncNow)
+
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+      stopListening()
+    }
+  }, [syncNow])
+
+  // Changes left over from an earlier visit
+  React.useEffect(() => {
+    syncNow()
+  }, [syncNow])
+
+  return { isOnline, pendingCount, conflictCount, isSyncing, syncNow }
+}
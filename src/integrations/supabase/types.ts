@@ -9,63 +9,863 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          changed_at: string
+          changed_by: string | null
+          changed_by_name: string | null
+          changes: Json
+          company_id: string
+          entry_id: string
+          id: number
+          row_id: string
+          table_name: string
+        }
+        Insert: {
+          action: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_name?: string | null
+          changes: Json
+          company_id: string
+          entry_id: string
+          id?: number
+          row_id: string
+          table_name: string
+        }
+        Update: {
+          action?: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_name?: string | null
+          changes?: Json
+          company_id?: string
+          entry_id?: string
+          id?: number
+          row_id?: string
+          table_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      companies: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          organisation_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          organisation_id?: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          organisation_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "companies_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      drivers: {
+        Row: {
+          company_id: string
+          created_at: string | null
+          default_vehicle_id: string | null
+          id: string
+          licence_expiry: string | null
+          licence_number: string | null
+          mobile: string | null
+          name: string
+        }
+        Insert: {
+          company_id?: string
+          created_at?: string | null
+          default_vehicle_id?: string | null
+          id?: string
+          licence_expiry?: string | null
+          licence_number?: string | null
+          mobile?: string | null
+          name: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string | null
+          default_vehicle_id?: string | null
+          id?: string
+          licence_expiry?: string | null
+          licence_number?: string | null
+          mobile?: string | null
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "drivers_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "drivers_default_vehicle_id_fkey"
+            columns: ["default_vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_lines: {
+        Row: {
+          amount: number
+          description: string
+          entry_id: string
+          id: string
+          invoice_id: string
+        }
+        Insert: {
+          amount: number
+          description: string
+          entry_id: string
+          id?: string
+          invoice_id: string
+        }
+        Update: {
+          amount?: number
+          description?: string
+          entry_id?: string
+          id?: string
+          invoice_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_lines_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: true
+            referencedRelation: "transport_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_lines_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_series: {
+        Row: {
+          company_id: string
+          financial_year: string
+          last_serial: number
+        }
+        Insert: {
+          company_id: string
+          financial_year: string
+          last_serial?: number
+        }
+        Update: {
+          company_id?: string
+          financial_year?: string
+          last_serial?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_series_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          cgst_amount: number
+          company_id: string
+          created_at: string | null
+          financial_year: string
+          gst_mode: string
+          gst_rate: number
+          id: string
+          igst_amount: number
+          invoice_date: string
+          invoice_number: string
+          party_address: string | null
+          party_gstin: string | null
+          party_id: string
+          party_name: string
+          place_of_supply: string
+          serial: number
+          sgst_amount: number
+          supplier_gstin: string | null
+          taxable_amount: number
+          total_amount: number
+        }
+        Insert: {
+          cgst_amount?: number
+          company_id?: string
+          created_at?: string | null
+          financial_year?: string
+          gst_mode: string
+          gst_rate: number
+          id?: string
+          igst_amount?: number
+          invoice_date?: string
+          invoice_number?: string
+          party_address?: string | null
+          party_gstin?: string | null
+          party_id: string
+          party_name: string
+          place_of_supply: string
+          serial?: number
+          sgst_amount?: number
+          supplier_gstin?: string | null
+          taxable_amount: number
+          total_amount: number
+        }
+        Update: {
+          cgst_amount?: number
+          company_id?: string
+          created_at?: string | null
+          financial_year?: string
+          gst_mode?: string
+          gst_rate?: number
+          id?: string
+          igst_amount?: number
+          invoice_date?: string
+          invoice_number?: string
+          party_address?: string | null
+          party_gstin?: string | null
+          party_id?: string
+          party_name?: string
+          place_of_supply?: string
+          serial?: number
+          sgst_amount?: number
+          supplier_gstin?: string | null
+          taxable_amount?: number
+          total_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_party_id_fkey"
+            columns: ["party_id"]
+            isOneToOne: false
+            referencedRelation: "parties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lorry_receipts: {
+        Row: {
+          company_id: string
+          consignee_address: string | null
+          consignee_gstin: string | null
+          consignee_name: string
+          consignor_address: string | null
+          consignor_gstin: string | null
+          consignor_name: string
+          created_at: string | null
+          destination: string
+          entry_id: string
+          financial_year: string
+          freight_basis: string
+          goods_description: string
+          id: string
+          lr_date: string
+          lr_number: string
+          origin: string
+          packages: number | null
+          serial: number
+        }
+        Insert: {
+          company_id?: string
+          consignee_address?: string | null
+          consignee_gstin?: string | null
+          consignee_name: string
+          consignor_address?: string | null
+          consignor_gstin?: string | null
+          consignor_name: string
+          created_at?: string | null
+          destination: string
+          entry_id: string
+          financial_year?: string
+          freight_basis?: string
+          goods_description: string
+          id?: string
+          lr_date?: string
+          lr_number?: string
+          origin: string
+          packages?: number | null
+          serial?: number
+        }
+        Update: {
+          company_id?: string
+          consignee_address?: string | null
+          consignee_gstin?: string | null
+          consignee_name?: string
+          consignor_address?: string | null
+          consignor_gstin?: string | null
+          consignor_name?: string
+          created_at?: string | null
+          destination?: string
+          entry_id?: string
+          financial_year?: string
+          freight_basis?: string
+          goods_description?: string
+          id?: string
+          lr_date?: string
+          lr_number?: string
+          origin?: string
+          packages?: number | null
+          serial?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lorry_receipts_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lorry_receipts_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "transport_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lr_series: {
+        Row: {
+          company_id: string
+          financial_year: string
+          last_serial: number
+        }
+        Insert: {
+          company_id: string
+          financial_year: string
+          last_serial?: number
+        }
+        Update: {
+          company_id?: string
+          financial_year?: string
+          last_serial?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lr_series_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organisations: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      parties: {
+        Row: {
+          address: string | null
+          company_id: string
+          created_at: string | null
+          gstin: string | null
+          id: string
+          name: string
+          opening_balance: number
+          phone: string | null
+        }
+        Insert: {
+          address?: string | null
+          company_id?: string
+          created_at?: string | null
+          gstin?: string | null
+          id?: string
+          name: string
+          opening_balance?: number
+          phone?: string | null
+        }
+        Update: {
+          address?: string | null
+          company_id?: string
+          created_at?: string | null
+          gstin?: string | null
+          id?: string
+          name?: string
+          opening_balance?: number
+          phone?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parties_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string | null
+          date: string
+          entry_id: string
+          id: string
+          mode: string
+          recorded_by: string | null
+          reference_number: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          date?: string
+          entry_id: string
+          id?: string
+          mode?: string
+          recorded_by?: string | null
+          reference_number?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          date?: string
+          entry_id?: string
+          id?: string
+          mode?: string
+          recorded_by?: string | null
+          reference_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "transport_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          company_id: string
+          created_at: string | null
+          email: string | null
+          full_name: string | null
+          organisation_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string | null
+          email?: string | null
+          full_name?: string | null
+          organisation_id: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string | null
+          email?: string | null
+          full_name?: string | null
+          organisation_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_views: {
+        Row: {
+          company_id: string
+          created_at: string
+          id: string
+          name: string
+          params: Json
+          user_id: string
+        }
+        Insert: {
+          company_id?: string
+          created_at?: string
+          id?: string
+          name: string
+          params?: Json
+          user_id?: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+          params?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_views_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      settings: {
+        Row: {
+          company_id: string
+          key: string
+          updated_at: string | null
+          value: Json
+        }
+        Insert: {
+          company_id?: string
+          key: string
+          updated_at?: string | null
+          value: Json
+        }
+        Update: {
+          company_id?: string
+          key?: string
+          updated_at?: string | null
+          value?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "settings_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transport_entries: {
         Row: {
-          advance_amount: number | null
-          advance_date: string | null
-          advance_type: string | null
           balance_date: string | null
           balance_status: string
+          company_id: string
           created_at: string | null
           date: string
+          deleted_at: string | null
+          deleted_by: string | null
+          driver_id: string | null
           driver_mobile: string | null
-          driver_name: string | null
           id: string
+          outstanding_amount: number
+          paid_amount: number
+          party_id: string | null
           place: string | null
+          rate_per_unit: number | null
           rent_amount: number
           transport_name: string | null
+          updated_at: string
+          updated_by: string | null
+          vehicle_key: string
           vehicle_number: string
+          version: number
+          weight: number | null
+          weight_unit: string
         }
         Insert: {
-          advance_amount?: number | null
-          advance_date?: string | null
-          advance_type?: string | null
           balance_date?: string | null
-          balance_status: string
+          balance_status?: string
+          company_id?: string
           created_at?: string | null
           date: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          driver_id?: string | null
           driver_mobile?: string | null
-          driver_name?: string | null
           id?: string
+          outstanding_amount?: number
+          paid_amount?: number
+          party_id?: string | null
           place?: string | null
+          rate_per_unit?: number | null
           rent_amount: number
           transport_name?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          vehicle_key?: never
           vehicle_number: string
+          version?: number
+          weight?: number | null
+          weight_unit?: string
         }
         Update: {
-          advance_amount?: number | null
-          advance_date?: string | null
-          advance_type?: string | null
           balance_date?: string | null
           balance_status?: string
+          company_id?: string
           created_at?: string | null
           date?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          driver_id?: string | null
           driver_mobile?: string | null
-          driver_name?: string | null
           id?: string
+          outstanding_amount?: number
+          paid_amount?: number
+          party_id?: string | null
           place?: string | null
+          rate_per_unit?: number | null
           rent_amount?: number
           transport_name?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          vehicle_key?: never
           vehicle_number?: string
+          version?: number
+          weight?: number | null
+          weight_unit?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "transport_entries_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transport_entries_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "drivers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transport_entries_party_id_fkey"
+            columns: ["party_id"]
+            isOneToOne: false
+            referencedRelation: "parties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_expenses: {
+        Row: {
+          amount: number
+          category: string
+          created_at: string | null
+          date: string
+          entry_id: string
+          id: string
+          mode: string
+          note: string | null
+        }
+        Insert: {
+          amount: number
+          category: string
+          created_at?: string | null
+          date?: string
+          entry_id: string
+          id?: string
+          mode?: string
+          note?: string | null
+        }
+        Update: {
+          amount?: number
+          category?: string
+          created_at?: string | null
+          date?: string
+          entry_id?: string
+          id?: string
+          mode?: string
+          note?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_expenses_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "transport_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vehicles: {
+        Row: {
+          capacity: number | null
+          company_id: string
+          created_at: string | null
+          fitness_expiry: string | null
+          id: string
+          insurance_expiry: string | null
+          owner_name: string | null
+          ownership: string
+          permit_expiry: string | null
+          puc_expiry: string | null
+          registration_number: string
+          vehicle_type: string | null
+        }
+        Insert: {
+          capacity?: number | null
+          company_id?: string
+          created_at?: string | null
+          fitness_expiry?: string | null
+          id?: string
+          insurance_expiry?: string | null
+          owner_name?: string | null
+          ownership?: string
+          permit_expiry?: string | null
+          puc_expiry?: string | null
+          registration_number: string
+          vehicle_type?: string | null
+        }
+        Update: {
+          capacity?: number | null
+          company_id?: string
+          created_at?: string | null
+          fitness_expiry?: string | null
+          id?: string
+          insurance_expiry?: string | null
+          owner_name?: string | null
+          ownership?: string
+          permit_expiry?: string | null
+          puc_expiry?: string | null
+          registration_number?: string
+          vehicle_type?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vehicles_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      create_invoice: {
+        Args: { invoice: Json; lines: Json }
+        Returns: {
+          cgst_amount: number
+          company_id: string
+          created_at: string | null
+          financial_year: string
+          gst_mode: string
+          gst_rate: number
+          id: string
+          igst_amount: number
+          invoice_date: string
+          invoice_number: string
+          party_address: string | null
+          party_gstin: string | null
+          party_id: string
+          party_name: string
+          place_of_supply: string
+          serial: number
+          sgst_amount: number
+          supplier_gstin: string | null
+          taxable_amount: number
+          total_amount: number
+        }
+      }
+      current_company_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_organisation_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      entry_list_summary: {
+        Args: { month_start: string }
+        Returns: {
+          outstanding_amount: number
+          this_month_entries: number
+          total_entries: number
+          unpaid_entries: number
+        }[]
+      }
+      financial_year_of: {
+        Args: { d: string }
+        Returns: string
+      }
+      is_within_clerk_window: {
+        Args: { entry_created_at: string }
+        Returns: boolean
+      }
+      purge_trashed_entries: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      recompute_balance_status: {
+        Args: { target_entry_id: string }
+        Returns: undefined
+      }
+      switch_company: {
+        Args: { target_company_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
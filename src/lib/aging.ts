@@ -0,0 +1,57 @@
+import { differenceInCalendarDays, startOfDay } from "date-fns";
+import { AgingBucket, AgingReport, AgingRow } from "@/types/aging";
+import { TransportEntry } from "@/types/transport";
+import { getOutstandingAmount } from "@/lib/payments";
+
+export const AGING_BUCKETS: AgingBucket[] = ['0-30', '31-60', '61-90', '90+'];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  '0-30': "0–30 days",
+  '31-60': "31–60 days",
+  '61-90': "61–90 days",
+  '90+': "90+ days",
+};
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 });
+
+export const getAgingBucket = (daysOutstanding: number): AgingBucket => {
+  if (daysOutstanding <= 30) return '0-30';
+  if (daysOutstanding <= 60) return '31-60';
+  if (daysOutstanding <= 90) return '61-90';
+  return '90+';
+};
+
+// Outstanding balances bucketed by days since the trip date, one row per party,
+// largest total first. Entries without a party are grouped by their transport name.
+export const buildAgingReport = (entries: TransportEntry[], asOf = new Date()): AgingReport => {
+  const rows = new Map<string, AgingRow>();
+  const totals = emptyBuckets();
+
+  entries.forEach(entry => {
+    const outstanding = getOutstandingAmount(entry);
+    if (outstanding <= 0) return;
+
+    const bucket = getAgingBucket(differenceInCalendarDays(startOfDay(asOf), entry.date));
+    const key = entry.partyId ?? `name:${entry.transportName.trim().toLowerCase()}`;
+    const row = rows.get(key) ?? {
+      partyId: entry.partyId,
+      partyName: entry.transportName || "Unknown party",
+      entryCount: 0,
+      buckets: emptyBuckets(),
+      total: 0,
+    };
+
+    row.entryCount += 1;
+    row.buckets[bucket] += outstanding;
+    row.total += outstanding;
+    totals[bucket] += outstanding;
+    rows.set(key, row);
+  });
+
+  return {
+    asOf,
+    rows: [...rows.values()].sort((a, b) => b.total - a.total),
+    totals,
+    total: AGING_BUCKETS.reduce((sum, bucket) => sum + totals[bucket], 0),
+  };
+};
@@ -0,0 +1,55 @@
+import { format, parseISO } from "date-fns";
+import { AuditEvent, AuditFieldChange, AuditTable } from "@/types/audit";
+
+export const AUDIT_TABLE_LABELS: Record<AuditTable, string> = {
+  transport_entries: "Entry",
+  payments: "Payment",
+  trip_expenses: "Expense",
+};
+
+// Column names as the user knows them from the form and ledgers
+const FIELD_LABELS: Record<string, string> = {
+  date: "Date",
+  vehicle_number: "Vehicle",
+  weight: "Weight",
+  weight_unit: "Weight unit",
+  rate_per_unit: "Rate per unit",
+  driver_id: "Driver",
+  driver_mobile: "Driver mobile",
+  place: "Place",
+  transport_name: "Party",
+  rent_amount: "Rent amount",
+  balance_status: "Balance status",
+  balance_date: "Balance date",
+  amount: "Amount",
+  mode: "Mode",
+  reference_number: "Reference",
+  category: "Category",
+  note: "Note",
+  deleted_at: "In trash since",
+};
+
+// party_id always changes together with transport_name, which reads better;
+// deleted_by is the same user the event is already attributed to; version and
+// updated_at move with every edit and say nothing on their own, and the paid and
+// outstanding totals repeat the payment rows shown next to them
+const HIDDEN_FIELDS = ["party_id", "deleted_by", "version", "updated_at", "updated_by", "paid_amount", "outstanding_amount"];
+
+const AMOUNT_FIELDS = ["rent_amount", "rate_per_unit", "amount"];
+
+const DATE_FIELDS = ["date", "balance_date"];
+
+const TIMESTAMP_FIELDS = ["deleted_at"];
+
+export const getFieldLabel = (field: string) => FIELD_LABELS[field] || field.replace(/_/g, " ");
+
+export const getVisibleChanges = (event: AuditEvent): AuditFieldChange[] =>
+  event.changes.filter(change => !HIDDEN_FIELDS.includes(change.field));
+
+export const formatAuditValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (AMOUNT_FIELDS.includes(field)) return `₹${Number(value).toLocaleString()}`;
+  if (DATE_FIELDS.includes(field) && typeof value === "string") return format(parseISO(value), "dd/MM/yyyy");
+  if (TIMESTAMP_FIELDS.includes(field) && typeof value === "string") return format(parseISO(value), "dd/MM/yyyy HH:mm");
+  return String(value);
+};
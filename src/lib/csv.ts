@@ -0,0 +1,89 @@
+export type CsvDelimiter = "," | ";" | "\t";
+
+export type CsvValue = string | number | null | undefined;
+
+export const CSV_DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;)" },
+  { value: "\t", label: "Tab" },
+];
+
+// Excel only reads a CSV as UTF-8, and so shows ₹ instead of mojibake, when it starts with a BOM
+export const UTF8_BOM = "\uFEFF";
+
+// RFC 4180: a field holding the delimiter, a quote or a line break is wrapped in
+// quotes, with quotes inside doubled. Leading and trailing spaces are quoted too
+// so spreadsheet apps do not trim them.
+export const escapeCsvField = (value: CsvValue, delimiter: CsvDelimiter = ",") => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  const needsQuotes =
+    text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Records end in CRLF, as the RFC asks and Excel expects
+export const toCsv = (rows: CsvValue[][], delimiter: CsvDelimiter = ",") =>
+  rows.map((row) => row.map((value) => escapeCsvField(value, delimiter)).join(delimiter)).join("\r\n");
+
+// The delimiter used in the header line: whichever of comma, semicolon and tab
+// appears most outside quotes. Excel writes semicolons where the comma is the
+// decimal mark.
+const detectDelimiter = (text: string): CsvDelimiter => {
+  const counts = new Map<CsvDelimiter, number>(CSV_DELIMITERS.map(({ value }) => [value, 0]));
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === "\n" || char === "\r")) break;
+    else if (!inQuotes && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, (counts.get(char as CsvDelimiter) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()].reduce((best, current) => (current[1] > best[1] ? current : best))[0];
+};
+
+// RFC 4180 reader, the counterpart of toCsv: quoted fields may hold delimiters,
+// doubled quotes and line breaks; records end in CRLF or a bare LF. A leading
+// BOM is dropped and the delimiter is detected when not given.
+export const parseCsv = (input: string, delimiter?: CsvDelimiter): string[][] => {
+  const text = input.startsWith(UTF8_BOM) ? input.slice(UTF8_BOM.length) : input;
+  const separator = delimiter ?? detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  // The last record need not end in a line break
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
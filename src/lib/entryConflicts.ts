@@ -0,0 +1,109 @@
+import { format } from "date-fns";
+import { TransportEntry } from "@/types/transport";
+import { formatWeight } from "@/lib/weight";
+
+export type MergeChoice = "mine" | "theirs";
+
+// The fields of the entry form, in form order, compared when two saves collide
+export const MERGE_FIELDS = [
+  "date",
+  "vehicleNumber",
+  "weight",
+  "weightUnit",
+  "ratePerUnit",
+  "driverId",
+  "driverMobile",
+  "place",
+  "partyId",
+  "rentAmount",
+] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number];
+
+export const MERGE_FIELD_LABELS: Record<MergeField, string> = {
+  date: "Date",
+  vehicleNumber: "Vehicle",
+  weight: "Weight",
+  weightUnit: "Weight unit",
+  ratePerUnit: "Rate per unit",
+  driverId: "Driver",
+  driverMobile: "Driver mobile",
+  place: "Place",
+  partyId: "Party",
+  rentAmount: "Rent",
+};
+
+// Display names travel with the ids they belong to
+const LINKED_FIELDS: Partial<Record<MergeField, (keyof TransportEntry)[]>> = {
+  driverId: ["driverName"],
+  partyId: ["transportName"],
+};
+
+const comparableValue = (entry: TransportEntry, field: MergeField) =>
+  field === "date" ? format(new Date(entry.date), "yyyy-MM-dd") : entry[field] ?? null;
+
+const isSame = (a: TransportEntry, b: TransportEntry, field: MergeField) =>
+  comparableValue(a, field) === comparableValue(b, field);
+
+export const getDifferingFields = (mine: TransportEntry, theirs: TransportEntry): MergeField[] =>
+  MERGE_FIELDS.filter((field) => !isSame(mine, theirs, field));
+
+// Both sides changed the field since the version the edit started from. Without
+// that version every difference counts, since there is no telling who made it.
+const isChangedByBoth = (
+  mine: TransportEntry,
+  theirs: TransportEntry,
+  base: TransportEntry | null,
+  field: MergeField
+) => !base || (!isSame(mine, base, field) && !isSame(theirs, base, field));
+
+export const hasConflictingChanges = (mine: TransportEntry, theirs: TransportEntry, base: TransportEntry | null) =>
+  getDifferingFields(mine, theirs).some((field) => isChangedByBoth(mine, theirs, base, field));
+
+// Keeps the other person's change where only they touched a field, mine elsewhere
+export const getDefaultChoices = (
+  mine: TransportEntry,
+  theirs: TransportEntry,
+  base: TransportEntry | null
+): Partial<Record<MergeField, MergeChoice>> =>
+  Object.fromEntries(
+    getDifferingFields(mine, theirs).map((field) => [
+      field,
+      base && isSame(mine, base, field) ? "theirs" : "mine",
+    ])
+  );
+
+// Their saved entry with the fields picked from mine; it carries their version,
+// so saving it only succeeds if nobody has saved again in the meantime
+export const mergeEntries = (
+  mine: TransportEntry,
+  theirs: TransportEntry,
+  choices: Partial<Record<MergeField, MergeChoice>>
+): TransportEntry => {
+  const merged: TransportEntry = { ...theirs };
+  MERGE_FIELDS.forEach((field) => {
+    if (choices[field] !== "mine") return;
+    [field, ...(LINKED_FIELDS[field] || [])].forEach((key) => {
+      Object.assign(merged, { [key]: mine[key] });
+    });
+  });
+  return merged;
+};
+
+export const formatMergeValue = (entry: TransportEntry, field: MergeField): string => {
+  switch (field) {
+    case "date":
+      return format(new Date(entry.date), "dd/MM/yyyy");
+    case "weight":
+      return formatWeight(entry) || "—";
+    case "driverId":
+      return entry.driverName || "—";
+    case "partyId":
+      return entry.transportName || "—";
+    case "ratePerUnit":
+    case "rentAmount":
+      return entry[field] !== null ? `₹${entry[field]?.toLocaleString()}` : "—";
+    default:
+      return entry[field] ? String(entry[field]) : "—";
+  }
+};
@@ -0,0 +1,239 @@
+import { v4 as uuidv4 } from "uuid";
+import { format, isValid, parse } from "date-fns";
+import { normalizePartyName } from "@/services/partyService";
+import { PAYMENT_MODES } from "@/lib/payments";
+import { WEIGHT_UNITS } from "@/lib/weight";
+import { Party } from "@/types/party";
+import { ColumnMapping, ImportCell, ImportField, ImportRow, ImportSheet } from "@/types/import";
+import { PaymentMode, TransportEntry, WeightUnit } from "@/types/transport";
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'date',
+  'vehicleNumber',
+  'transportName',
+  'place',
+  'weight',
+  'weightUnit',
+  'driverMobile',
+  'rentAmount',
+  'advanceAmount',
+  'advanceDate',
+  'advanceType',
+];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  date: "Date",
+  vehicleNumber: "Vehicle Number",
+  transportName: "Transport Name",
+  place: "Place",
+  weight: "Weight",
+  weightUnit: "Weight Unit",
+  driverMobile: "Driver Mobile",
+  rentAmount: "Rent Amount",
+  advanceAmount: "Advance Amount",
+  advanceDate: "Advance Date",
+  advanceType: "Advance Type",
+};
+
+// The same fields TransportForm will not save without
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['date', 'vehicleNumber', 'rentAmount'];
+
+// Header spellings seen in our own exports and in the old spreadsheets
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  date: ["date", "trip date", "loading date"],
+  vehicleNumber: ["vehicle number", "vehicle no", "vehicle", "lorry no", "truck no"],
+  transportName: ["transport name", "party", "party name", "transport"],
+  place: ["place", "destination", "to"],
+  weight: ["weight", "weight of goods", "qty", "quantity"],
+  weightUnit: ["weight unit", "unit"],
+  driverMobile: ["driver mobile", "driver phone", "mobile"],
+  rentAmount: ["rent amount", "rent", "freight", "amount"],
+  advanceAmount: ["advance amount", "advance"],
+  advanceDate: ["advance date"],
+  advanceType: ["advance type", "advance mode", "mode"],
+};
+
+// Day first, as the trips were written down; a four digit year is required so
+// "03/04/24" is not silently read as the year 24
+const DATE_FORMATS = ["dd/MM/yyyy", "d/M/yyyy", "dd-MM-yyyy", "d-M-yyyy", "dd.MM.yyyy", "yyyy-MM-dd"];
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/\(.*?\)/g, "").replace(/[^a-z0-9]+/g, " ").trim();
+
+// Matches headers to fields by name; anything unrecognised is left for the user to map
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+  IMPORT_FIELDS.forEach((field) => {
+    const index = normalized.findIndex((header, column) =>
+      HEADER_ALIASES[field].includes(header) && !Object.values(mapping).includes(column)
+    );
+    if (index !== -1) {
+      mapping[field] = index;
+    }
+  });
+  return mapping;
+};
+
+const cellText = (cell: ImportCell) => (cell === null || cell === undefined ? "" : String(cell).trim());
+
+// Excel keeps dates as real dates; CSV and text cells go through the formats above
+export const parseImportDate = (cell: ImportCell): Date | null => {
+  if (cell instanceof Date) {
+    return isValid(cell) ? cell : null;
+  }
+  const text = cellText(cell);
+  if (!text) return null;
+  for (const dateFormat of DATE_FORMATS) {
+    const date = parse(text, dateFormat, new Date());
+    if (isValid(date) && date.getFullYear() > 1900) {
+      return date;
+    }
+  }
+  return null;
+};
+
+// Reads "₹1,23,456.50", "Rs. 12,000" or a plain number; commas are grouping only
+export const parseIndianAmount = (cell: ImportCell): number | null => {
+  if (typeof cell === "number") {
+    return Number.isFinite(cell) ? cell : null;
+  }
+  const text = cellText(cell).replace(/^(₹|rs\.?|inr)\s*/i, "").replace(/[,\s]/g, "");
+  if (!text || text === "-") return null;
+  const amount = Number(text);
+  return Number.isFinite(amount) ? amount : null;
+};
+
+const findOption = <T extends string,>(options: readonly T[], text: string): T | undefined =>
+  options.find((option) => option.toLowerCase() === text.toLowerCase());
+
+// A trip is taken to be the same one when the date, vehicle and party match;
+// the party goes by name, which the master keeps in step with partyId
+const getTripKey = (entry: Pick<TransportEntry, "date" | "vehicleNumber" | "transportName">) =>
+  [
+    format(new Date(entry.date), "yyyy-MM-dd"),
+    entry.vehicleNumber.toUpperCase().replace(/\s+/g, ""),
+    normalizePartyName(entry.transportName).toLowerCase(),
+  ].join("|");
+
+// Builds an entry from each row and collects what is wrong with it. The date,
+// vehicle number and rent rules are the ones TransportForm.handleSubmit applies.
+// Rows matching an existing trip or an earlier row of the file are flagged, so a
+// file imported twice, or a trip listed twice in it, shows up.
+export const validateImportRows = (
+  sheet: ImportSheet,
+  mapping: ColumnMapping,
+  parties: Party[],
+  existingEntries: TransportEntry[] = []
+): ImportRow[] => {
+  const partiesByName = new Map(parties.map((party) => [normalizePartyName(party.name).toLowerCase(), party]));
+  const existingTrips = new Set(existingEntries.map(getTripKey));
+  const rowsByTrip = new Map<string, number>();
+
+  return sheet.rows.flatMap((cells, index) => {
+    const value = (field: ImportField) => (mapping[field] === undefined ? null : cells[mapping[field] as number] ?? null);
+    const text = (field: ImportField) => cellText(value(field));
+
+    // Blank lines between blocks of trips are common; they are not errors
+    if (cells.every((cell) => cellText(cell) === "")) {
+      return [];
+    }
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const date = parseImportDate(value('date'));
+    if (!date) {
+      errors.push(text('date') ? `Date "${text('date')}" is not dd/MM/yyyy` : "Date is required");
+    }
+
+    const vehicleNumber = text('vehicleNumber').toUpperCase().replace(/\s+/g, "");
+    if (vehicleNumber.length < 3) {
+      errors.push("Vehicle number is required and must be at least 3 characters");
+    }
+
+    const rentAmount = parseIndianAmount(value('rentAmount'));
+    if (rentAmount === null && text('rentAmount')) {
+      errors.push(`Rent amount "${text('rentAmount')}" is not a number`);
+    } else if (!rentAmount || rentAmount < 1) {
+      errors.push("Rent amount is required and must be greater than 0");
+    }
+
+    const weight = parseIndianAmount(value('weight'));
+    if (text('weight') && (weight === null || weight < 0)) {
+      errors.push(`Weight "${text('weight')}" is not a number`);
+    }
+
+    const weightUnit = text('weightUnit') ? findOption(WEIGHT_UNITS.map((unit) => unit.value), text('weightUnit')) : 'ton';
+    if (!weightUnit) {
+      errors.push(`Weight unit "${text('weightUnit')}" should be kg, quintal or ton`);
+    }
+
+    const advanceAmount = parseIndianAmount(value('advanceAmount'));
+    if (text('advanceAmount') && advanceAmount === null) {
+      errors.push(`Advance amount "${text('advanceAmount')}" is not a number`);
+    } else if (advanceAmount && rentAmount && advanceAmount > rentAmount) {
+      errors.push("Advance amount is more than the rent");
+    }
+
+    const advanceDate = parseImportDate(value('advanceDate'));
+    if (text('advanceDate') && !advanceDate) {
+      errors.push(`Advance date "${text('advanceDate')}" is not dd/MM/yyyy`);
+    }
+
+    const advanceType = text('advanceType') ? findOption(PAYMENT_MODES, text('advanceType')) : 'Cash';
+    if (!advanceType) {
+      errors.push(`Advance type "${text('advanceType')}" should be one of ${PAYMENT_MODES.join(", ")}`);
+    }
+
+    const transportName = normalizePartyName(text('transportName'));
+    const party = partiesByName.get(transportName.toLowerCase());
+    if (transportName && !party) {
+      warnings.push(`"${transportName}" is not in the parties master`);
+    }
+
+    const entry: TransportEntry | null = errors.length > 0 ? null : {
+      id: uuidv4(),
+      date: date as Date,
+      vehicleNumber,
+      weight: weight || null,
+      weightUnit: weightUnit as WeightUnit,
+      ratePerUnit: null,
+      driverId: null,
+      driverName: "",
+      driverMobile: text('driverMobile'),
+      place: text('place'),
+      partyId: party?.id ?? null,
+      transportName: party?.name ?? transportName,
+      rentAmount: rentAmount as number,
+      advanceAmount: advanceAmount || null,
+      advanceDate: advanceAmount ? advanceDate : null,
+      advanceType: advanceType as PaymentMode,
+      balanceStatus: 'UNPAID',
+      balanceDate: null,
+      payments: [],
+      expenses: [],
+      invoiceNumber: null,
+      createdAt: null,
+      deletedAt: null,
+      version: 1,
+      pendingSync: false,
+      syncConflict: false,
+    };
+
+    const rowNumber = index + 2;
+    const tripKey = entry ? getTripKey(entry) : null;
+    const earlierRow = tripKey ? rowsByTrip.get(tripKey) : undefined;
+    const duplicate = !!tripKey && (existingTrips.has(tripKey) || earlierRow !== undefined);
+    if (tripKey && existingTrips.has(tripKey)) {
+      warnings.push("A trip for this vehicle and party on this date is already entered");
+    } else if (earlierRow !== undefined) {
+      warnings.push(`Same vehicle, party and date as row ${earlierRow}`);
+    }
+    if (tripKey && earlierRow === undefined) {
+      rowsByTrip.set(tripKey, rowNumber);
+    }
+
+    return [{ rowNumber, entry, errors, warnings, duplicate }];
+  });
+};
@@ -0,0 +1,136 @@
+import { differenceInCalendarDays, endOfDay, format, isValid, parse, startOfDay, startOfMonth } from "date-fns";
+import { BalanceStatus, EntryFilters, EntryPage, EntryQuery, EntrySortKey, EntrySummary, TransportEntry } from "@/types/transport";
+import { getOutstandingAmount } from "@/lib/payments";
+import { normalizeRegistrationNumber } from "@/services/vehicleService";
+
+export const ENTRY_PAGE_SIZES = [25, 50, 100];
+
+// Same steps as the receivables aging buckets
+export const ENTRY_AGE_FILTERS = [30, 60, 90];
+
+export const DEFAULT_ENTRY_FILTERS: EntryFilters = {
+  search: "",
+  status: "ALL",
+  dateFrom: null,
+  dateTo: null,
+  partyId: null,
+  vehicleNumber: null,
+  minAgeDays: null,
+};
+
+export const DEFAULT_ENTRY_QUERY: EntryQuery = {
+  ...DEFAULT_ENTRY_FILTERS,
+  sortBy: "date",
+  sortOrder: "desc",
+  page: 1,
+  pageSize: ENTRY_PAGE_SIZES[0],
+};
+
+export const hasActiveFilters = (filters: EntryFilters) =>
+  !!filters.search.trim() ||
+  filters.status !== "ALL" ||
+  !!filters.dateFrom ||
+  !!filters.dateTo ||
+  !!filters.partyId ||
+  !!filters.vehicleNumber ||
+  !!filters.minAgeDays;
+
+// The same rules the database applies, for entries held on this device:
+// the offline copy and changes still waiting to sync
+export const matchesEntryFilters = (entry: TransportEntry, filters: EntryFilters, now: Date = new Date()) => {
+  const search = filters.search.trim().toLowerCase();
+  const date = new Date(entry.date);
+  return (
+    (!search ||
+      entry.vehicleNumber.toLowerCase().includes(search) ||
+      entry.driverName.toLowerCase().includes(search) ||
+      entry.place.toLowerCase().includes(search) ||
+      entry.transportName.toLowerCase().includes(search)) &&
+    (filters.status === "ALL" || entry.balanceStatus === filters.status) &&
+    (!filters.dateFrom || date >= startOfDay(filters.dateFrom)) &&
+    (!filters.dateTo || date <= endOfDay(filters.dateTo)) &&
+    (!filters.partyId || entry.partyId === filters.partyId) &&
+    (!filters.vehicleNumber ||
+      normalizeRegistrationNumber(entry.vehicleNumber) === normalizeRegistrationNumber(filters.vehicleNumber)) &&
+    (!filters.minAgeDays || differenceInCalendarDays(now, date) > filters.minAgeDays)
+  );
+};
+
+const SORT_VALUES: Record<EntryQuery["sortBy"], (entry: TransportEntry) => number> = {
+  date: (entry) => new Date(entry.date).getTime(),
+  amount: (entry) => entry.rentAmount,
+  balance: (entry) => getOutstandingAmount(entry),
+};
+
+export const applyEntryQuery = (entries: TransportEntry[], query: EntryQuery): EntryPage => {
+  const direction = query.sortOrder === "asc" ? 1 : -1;
+  const sortValue = SORT_VALUES[query.sortBy];
+  const matching = entries
+    .filter((entry) => matchesEntryFilters(entry, query))
+    .sort((a, b) => (sortValue(a) - sortValue(b)) * direction);
+  const from = (query.page - 1) * query.pageSize;
+  return { entries: matching.slice(from, from + query.pageSize), total: matching.length };
+};
+
+export const getEntrySummary = (entries: TransportEntry[], now: Date = new Date()): EntrySummary => ({
+  totalEntries: entries.length,
+  unpaidEntries: entries.filter((entry) => entry.balanceStatus !== "PAID").length,
+  thisMonthEntries: entries.filter((entry) => new Date(entry.date) >= startOfMonth(now)).length,
+  outstandingAmount: entries.reduce((total, entry) => total + getOutstandingAmount(entry), 0),
+});
+
+export const getPageCount = (total: number, pageSize: number) => Math.max(Math.ceil(total / pageSize), 1);
+
+const URL_DATE_FORMAT = "yyyy-MM-dd";
+const BALANCE_STATUSES: BalanceStatus[] = ["PAID", "UNPAID", "PARTIAL"];
+const SORT_KEYS: EntrySortKey[] = ["date", "amount", "balance"];
+
+const parseUrlDate = (value: string | null) => {
+  if (!value) return null;
+  const date = parse(value, URL_DATE_FORMAT, new Date());
+  return isValid(date) ? date : null;
+};
+
+const parsePositiveInteger = (value: string | null) => {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : null;
+};
+
+// The list's query string, e.g. ?status=UNPAID&age=60&party=<id>. Defaults are
+// left out so the plain list has a plain URL; page is left out of saved views.
+export const entryQueryToParams = (query: EntryQuery, { includePage = true } = {}): Record<string, string> => {
+  const params: Record<string, string> = {};
+  if (query.search.trim()) params.q = query.search.trim();
+  if (query.status !== "ALL") params.status = query.status;
+  if (query.dateFrom) params.from = format(query.dateFrom, URL_DATE_FORMAT);
+  if (query.dateTo) params.to = format(query.dateTo, URL_DATE_FORMAT);
+  if (query.partyId) params.party = query.partyId;
+  if (query.vehicleNumber) params.vehicle = query.vehicleNumber;
+  if (query.minAgeDays) params.age = String(query.minAgeDays);
+  if (query.sortBy !== DEFAULT_ENTRY_QUERY.sortBy) params.sort = query.sortBy;
+  if (query.sortOrder !== DEFAULT_ENTRY_QUERY.sortOrder) params.order = query.sortOrder;
+  if (query.pageSize !== DEFAULT_ENTRY_QUERY.pageSize) params.size = String(query.pageSize);
+  if (includePage && query.page > 1) params.page = String(query.page);
+  return params;
+};
+
+// Anything missing or not understood falls back to the default, so a mangled
+// link still opens the list
+export const parseEntryQuery = (params: URLSearchParams): EntryQuery => {
+  const status = params.get("status") as BalanceStatus;
+  const sortBy = params.get("sort") as EntrySortKey;
+  const pageSize = parsePositiveInteger(params.get("size"));
+  return {
+    search: params.get("q") ?? "",
+    status: BALANCE_STATUSES.includes(status) ? status : "ALL",
+    dateFrom: parseUrlDate(params.get("from")),
+    dateTo: parseUrlDate(params.get("to")),
+    partyId: params.get("party") || null,
+    vehicleNumber: params.get("vehicle") || null,
+    minAgeDays: parsePositiveInteger(params.get("age")),
+    sortBy: SORT_KEYS.includes(sortBy) ? sortBy : DEFAULT_ENTRY_QUERY.sortBy,
+    sortOrder: params.get("order") === "asc" ? "asc" : DEFAULT_ENTRY_QUERY.sortOrder,
+    page: parsePositiveInteger(params.get("page")) ?? 1,
+    pageSize: pageSize && ENTRY_PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_ENTRY_QUERY.pageSize,
+  };
+};
@@ -0,0 +1,33 @@
+import { ExpenseCategory, TransportEntry } from "@/types/transport";
+
+export const EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  "Diesel",
+  "Toll",
+  "Loading",
+  "Unloading",
+  "Driver Bata",
+  "Repairs",
+  "Other",
+];
+
+export const getExpenseTotal = (entry: Pick<TransportEntry, "expenses">) =>
+  (entry.expenses || []).reduce((sum, expense) => sum + expense.amount, 0);
+
+// Rent earned minus what the trip cost; negative when the trip ran at a loss
+export const getTripProfit = (entry: Pick<TransportEntry, "rentAmount" | "expenses">) =>
+  entry.rentAmount - getExpenseTotal(entry);
+
+// Spend per category across entries, largest first, empty categories left out
+export const getExpensesByCategory = (entries: TransportEntry[]) => {
+  const totals = entries
+    .flatMap(entry => entry.expenses || [])
+    .reduce((acc, expense) => {
+      acc[expense.category] = (acc[expense.category] || 0) + expense.amount;
+      return acc;
+    }, {} as Partial<Record<ExpenseCategory, number>>);
+
+  return EXPENSE_CATEGORIES
+    .filter(category => totals[category])
+    .map(category => ({ category, amount: totals[category] as number }))
+    .sort((a, b) => b.amount - a.amount);
+};
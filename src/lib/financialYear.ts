@@ -0,0 +1,13 @@
+// Indian financial year runs April to March, labelled like "2026-27"
+export const getFinancialYear = (date: Date) => {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+};
+
+export const getFinancialYearRange = (date: Date) => {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return {
+    start: new Date(startYear, 3, 1),
+    end: new Date(startYear + 1, 2, 31, 23, 59, 59, 999),
+  };
+};
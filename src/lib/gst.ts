@@ -0,0 +1,84 @@
+import { GstMode } from "@/types/invoice";
+
+export const GST_RATES: Record<GstMode, number> = {
+  RCM: 5,
+  FORWARD: 12,
+};
+
+// Services Accounting Code for goods transport agency services
+export const GTA_SAC_CODE = "996791";
+
+// GST state codes as printed on invoices and used as the first two digits of a GSTIN
+export const GST_STATES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+};
+
+// 15-character GSTIN: state code, PAN, entity code, "Z", checksum
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const getStateCode = (gstin: string) => {
+  const code = gstin.trim().slice(0, 2);
+  return GST_STATES[code] ? code : null;
+};
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+// Intra-state supply splits the tax evenly into CGST and SGST, inter-state is all IGST.
+// Under RCM the tax is shown for the recipient to pay, so it is not added to the total.
+export const calculateInvoiceTax = (
+  taxableAmount: number,
+  gstMode: GstMode,
+  supplierStateCode: string | null,
+  placeOfSupply: string
+) => {
+  const gstRate = GST_RATES[gstMode];
+  const tax = roundToPaise((taxableAmount * gstRate) / 100);
+  const isIntraState = supplierStateCode === placeOfSupply;
+  const cgstAmount = isIntraState ? roundToPaise(tax / 2) : 0;
+  const sgstAmount = isIntraState ? roundToPaise(tax - cgstAmount) : 0;
+  const igstAmount = isIntraState ? 0 : tax;
+
+  return {
+    gstRate,
+    taxableAmount,
+    cgstAmount,
+    sgstAmount,
+    igstAmount,
+    totalAmount: gstMode === "RCM" ? taxableAmount : roundToPaise(taxableAmount + tax),
+  };
+};
@@ -0,0 +1,106 @@
+import { TransportEntry } from "@/types/transport";
+import { PendingOperation } from "@/types/sync";
+
+// IndexedDB holds the last entries fetched from Supabase and the queue of
+// changes made since that have not reached the server yet. Dates survive the
+// round trip because IndexedDB stores values by structured clone.
+const DB_NAME = "transport-offline";
+const DB_VERSION = 1;
+const ENTRIES_STORE = "entries";
+const QUEUE_STORE = "queue";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+          db.createObjectStore(ENTRIES_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: "seq", autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Lets the sync indicator follow queue changes made anywhere in this tab
+const listeners = new Set<() => void>();
+
+export const subscribeToQueue = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notifyQueueChanged = () => listeners.forEach((listener) => listener());
+
+export const getCachedEntries = async (): Promise<TransportEntry[]> => {
+  const db = await openDb();
+  return promisify(db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getAll());
+};
+
+// Replaces the cached copy with what the server just returned
+export const cacheEntries = async (entries: TransportEntry[]) => {
+  const db = await openDb();
+  const tx = db.transaction(ENTRIES_STORE, "readwrite");
+  const store = tx.objectStore(ENTRIES_STORE);
+  store.clear();
+  entries.forEach((entry) => store.put(entry));
+  await transactionDone(tx);
+};
+
+export const getPendingOperations = async (): Promise<PendingOperation[]> => {
+  const db = await openDb();
+  return promisify(db.transaction(QUEUE_STORE).objectStore(QUEUE_STORE).getAll());
+};
+
+export const addPendingOperation = async (operation: Omit<PendingOperation, "seq">): Promise<number> => {
+  const db = await openDb();
+  const seq = await promisify(db.transaction(QUEUE_STORE, "readwrite").objectStore(QUEUE_STORE).add(operation));
+  notifyQueueChanged();
+  return seq as number;
+};
+
+export const putPendingOperation = async (operation: PendingOperation) => {
+  const db = await openDb();
+  await promisify(db.transaction(QUEUE_STORE, "readwrite").objectStore(QUEUE_STORE).put(operation));
+  notifyQueueChanged();
+};
+
+export const removePendingOperation = async (seq: number) => {
+  const db = await openDb();
+  await promisify(db.transaction(QUEUE_STORE, "readwrite").objectStore(QUEUE_STORE).delete(seq));
+  notifyQueueChanged();
+};
+
+// On sign-out or a company switch the cached rows go; queued changes stay for
+// their user to sync later
+export const clearCachedEntries = async () => {
+  const db = await openDb();
+  await promisify(db.transaction(ENTRIES_STORE, "readwrite").objectStore(ENTRIES_STORE).clear());
+};
@@ -0,0 +1,58 @@
+import { Party, StatementLine } from "@/types/party";
+import { TransportEntry } from "@/types/transport";
+
+// Running-balance statement for one party: trips are debits, payments credits
+export const buildPartyStatement = (party: Party, entries: TransportEntry[]): StatementLine[] => {
+  const movements: Omit<StatementLine, 'balance'>[] = [];
+
+  entries
+    .filter(entry => entry.partyId === party.id)
+    .forEach(entry => {
+      movements.push({
+        date: entry.date,
+        type: 'TRIP',
+        description: [entry.vehicleNumber, entry.place].filter(Boolean).join(" • "),
+        debit: entry.rentAmount,
+        credit: 0,
+        entryId: entry.id,
+      });
+      entry.payments.forEach(payment => {
+        movements.push({
+          date: payment.date,
+          type: 'PAYMENT',
+          description: [payment.mode, payment.referenceNumber].filter(Boolean).join(" • "),
+          debit: 0,
+          credit: payment.amount,
+          entryId: entry.id,
+        });
+      });
+    });
+
+  // Trips before payments on the same day, so a same-day advance never shows a credit balance
+  movements.sort((a, b) =>
+    a.date.getTime() - b.date.getTime() || (a.type === 'TRIP' ? -1 : 1) - (b.type === 'TRIP' ? -1 : 1)
+  );
+
+  let balance = party.openingBalance;
+  const lines: StatementLine[] = [{
+    date: null,
+    type: 'OPENING',
+    description: "Opening balance",
+    debit: 0,
+    credit: 0,
+    balance,
+  }];
+
+  movements.forEach(movement => {
+    balance += movement.debit - movement.credit;
+    lines.push({ ...movement, balance });
+  });
+
+  return lines;
+};
+
+export const getStatementTotals = (lines: StatementLine[]) => ({
+  billed: lines.reduce((sum, line) => sum + line.debit, 0),
+  received: lines.reduce((sum, line) => sum + line.credit, 0),
+  outstanding: lines.length > 0 ? lines[lines.length - 1].balance : 0,
+});
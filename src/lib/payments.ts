@@ -0,0 +1,19 @@
+import { BalanceStatus, Payment, TransportEntry } from "@/types/transport";
+
+export const PAYMENT_MODES = ["Cash", "Bank Transfer", "Check", "UPI"] as const;
+
+// Total received against an entry, summed from its payments ledger
+export const getPaidAmount = (entry: Pick<TransportEntry, "payments">) =>
+  (entry.payments || []).reduce((sum, payment) => sum + payment.amount, 0);
+
+// What the party still owes; overpayments never go negative
+export const getOutstandingAmount = (entry: Pick<TransportEntry, "rentAmount" | "payments">) =>
+  Math.max(entry.rentAmount - getPaidAmount(entry), 0);
+
+// Mirrors the recompute_balance_status() trigger in the payments migration
+export const deriveBalanceStatus = (rentAmount: number, payments: Payment[]): BalanceStatus => {
+  const paid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+  if (paid <= 0) return "UNPAID";
+  if (paid >= rentAmount) return "PAID";
+  return "PARTIAL";
+};
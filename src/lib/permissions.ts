@@ -0,0 +1,45 @@
+import { differenceInHours } from "date-fns";
+import { TransportEntry } from "@/types/transport";
+import { UserRole } from "@/types/user";
+
+// Mirrors the row level security policies in supabase/migrations/20261019103000_roles.sql.
+// The database is what enforces these; the UI uses them to hide what would fail.
+export const USER_ROLES: UserRole[] = ['owner', 'accountant', 'clerk'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: "Owner",
+  accountant: "Accountant",
+  clerk: "Data-entry clerk",
+};
+
+export const CLERK_EDIT_WINDOW_HOURS = 24;
+
+const isAccountsStaff = (role: UserRole | null) => role === 'owner' || role === 'accountant';
+
+// Entries, vehicles and drivers alike
+export const canDelete = (role: UserRole | null) => role === 'owner';
+
+export const canManageUsers = (role: UserRole | null) => role === 'owner';
+
+export const canManageSettings = (role: UserRole | null) => role === 'owner';
+
+export const canRecordPayments = isAccountsStaff;
+
+export const canManageInvoices = isAccountsStaff;
+
+export const canExport = isAccountsStaff;
+
+// Bulk loading old trips skips the per-entry checks clerks work under
+export const canImport = isAccountsStaff;
+
+// Clerks may change a trip's weight, rate, rent and expenses only on the day they
+// enter it; the rest of the trip stays editable, as lock_entry_amounts_for_clerks allows
+export const canChangeEntryAmounts = (
+  role: UserRole | null,
+  entry: Pick<TransportEntry, 'createdAt'>,
+  now: Date = new Date()
+) => {
+  if (isAccountsStaff(role)) return true;
+  if (role !== 'clerk') return false;
+  return !!entry.createdAt && differenceInHours(now, entry.createdAt) < CLERK_EDIT_WINDOW_HOURS;
+};
@@ -66,3 +66,31 @@ export function isPWAInstalled() {
 export function isPWASupported() {
   return 'serviceWorker' in navigator;
 }
+
+// Background sync tag for queued entry changes; public/sw.js listens for it
+export const ENTRY_SYNC_TAG = 'sync-transport-entries';
+
+// Asks the browser to wake the service worker once the connection is back.
+// Browsers without Background Sync fall back to the window 'online' event.
+export function requestBackgroundSync(tag: string) {
+  if (!('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.ready
+    .then((registration) => {
+      // SyncManager is not in the TypeScript DOM library yet
+      const { sync } = registration as ServiceWorkerRegistration & { sync?: { register: (tag: string) => Promise<void> } };
+      return sync?.register(tag);
+    })
+    .catch(error => console.error('Background sync registration failed:', error));
+}
+
+// Calls back when the service worker relays a background sync to the open app
+export function onBackgroundSync(tag: string, callback: () => void) {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'background-sync' && event.data.tag === tag) {
+      callback();
+    }
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+}
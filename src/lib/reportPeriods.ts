@@ -0,0 +1,106 @@
+import {
+  endOfDay,
+  endOfMonth,
+  endOfQuarter,
+  format,
+  getQuarter,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  subMonths,
+  subQuarters,
+  subYears,
+} from "date-fns";
+import { getFinancialYear, getFinancialYearRange } from "@/lib/financialYear";
+
+export type ReportPeriodPreset =
+  | 'thisMonth'
+  | 'lastMonth'
+  | 'thisQuarter'
+  | 'lastQuarter'
+  | 'thisFinancialYear'
+  | 'lastFinancialYear'
+  | 'last3Months'
+  | 'last6Months'
+  | 'last12Months'
+  | 'custom';
+
+export interface ReportPeriod {
+  start: Date;
+  end: Date;
+  label: string; // e.g. "Q1 FY 2026-27", printed on reports alongside the dates
+}
+
+export const REPORT_PERIOD_PRESETS: { value: ReportPeriodPreset; label: string }[] = [
+  { value: 'thisMonth', label: "This Month" },
+  { value: 'lastMonth', label: "Last Month" },
+  { value: 'thisQuarter', label: "This Quarter" },
+  { value: 'lastQuarter', label: "Last Quarter" },
+  { value: 'thisFinancialYear', label: "This Financial Year" },
+  { value: 'lastFinancialYear', label: "Last Financial Year" },
+  { value: 'last3Months', label: "Last 3 Months" },
+  { value: 'last6Months', label: "Last 6 Months" },
+  { value: 'last12Months', label: "Last 12 Months" },
+  { value: 'custom', label: "Custom Range" },
+];
+
+// Financial year quarters share the calendar quarter boundaries but start
+// counting in April, so April-June is Q1 and January-March is Q4
+const getFinancialQuarter = (date: Date) => ((getQuarter(date) + 2) % 4) + 1;
+
+const quarterPeriod = (date: Date): ReportPeriod => ({
+  start: startOfQuarter(date),
+  end: endOfQuarter(date),
+  label: `Q${getFinancialQuarter(date)} FY ${getFinancialYear(date)}`,
+});
+
+const monthPeriod = (date: Date): ReportPeriod => ({
+  start: startOfMonth(date),
+  end: endOfMonth(date),
+  label: format(date, "MMMM yyyy"),
+});
+
+const financialYearPeriod = (date: Date): ReportPeriod => ({
+  ...getFinancialYearRange(date),
+  label: `FY ${getFinancialYear(date)}`,
+});
+
+// Rolling ranges end today and start the same day N months back
+const rollingPeriod = (months: number, today: Date): ReportPeriod => ({
+  start: startOfDay(subMonths(today, months)),
+  end: endOfDay(today),
+  label: `Last ${months} months`,
+});
+
+// Whole days from the first to the last; a range with one end picked covers that day
+export const getCustomPeriod = (from: Date, to?: Date | null): ReportPeriod => ({
+  start: startOfDay(from),
+  end: endOfDay(to ?? from),
+  label: "Custom range",
+});
+
+export const getPresetPeriod = (preset: Exclude<ReportPeriodPreset, 'custom'>, today: Date = new Date()): ReportPeriod => {
+  switch (preset) {
+    case 'thisMonth':
+      return monthPeriod(today);
+    case 'lastMonth':
+      return monthPeriod(subMonths(today, 1));
+    case 'thisQuarter':
+      return quarterPeriod(today);
+    case 'lastQuarter':
+      return quarterPeriod(subQuarters(today, 1));
+    case 'thisFinancialYear':
+      return financialYearPeriod(today);
+    case 'lastFinancialYear':
+      return financialYearPeriod(subYears(today, 1));
+    case 'last3Months':
+      return rollingPeriod(3, today);
+    case 'last6Months':
+      return rollingPeriod(6, today);
+    case 'last12Months':
+      return rollingPeriod(12, today);
+  }
+};
+
+export const formatReportPeriod = (period: ReportPeriod) =>
+  `${format(period.start, "dd MMM yyyy")} - ${format(period.end, "dd MMM yyyy")}`;
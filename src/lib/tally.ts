@@ -0,0 +1,216 @@
+import { format } from "date-fns";
+import { GST_STATES, getStateCode } from "@/lib/gst";
+import { Invoice } from "@/types/invoice";
+import { Party } from "@/types/party";
+import { Payment, TransportEntry } from "@/types/transport";
+import { Settings } from "@/services/settingsService";
+
+// Tally Prime reads XML in its import envelope. Amounts follow Tally's sign
+// convention: debits are negative with ISDEEMEDPOSITIVE "Yes", credits positive
+// with "No". Masters and vouchers are built as separate files because Tally
+// imports them through different reports, and the ledgers must exist first.
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const tallyDate = (date: Date) => format(new Date(date), "yyyyMMdd");
+
+const tallyAmount = (amount: number) => amount.toFixed(2);
+
+const envelope = (reportName: string, companyName: string, messages: string[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<ENVELOPE>
+  <HEADER>
+    <TALLYREQUEST>Import Data</TALLYREQUEST>
+  </HEADER>
+  <BODY>
+    <IMPORTDATA>
+      <REQUESTDESC>
+        <REPORTNAME>${reportName}</REPORTNAME>
+        <STATICVARIABLES>
+          <SVCURRENTCOMPANY>${escapeXml(companyName)}</SVCURRENTCOMPANY>
+        </STATICVARIABLES>
+      </REQUESTDESC>
+      <REQUESTDATA>
+${messages.join("\n")}
+      </REQUESTDATA>
+    </IMPORTDATA>
+  </BODY>
+</ENVELOPE>
+`;
+
+// The party ledger an entry is billed to; entries without a party go by transport name
+export const getTallyPartyLedger = (entry: TransportEntry) => entry.transportName.trim();
+
+// The invoice each trip was billed on, by entry id
+export const getInvoicesByEntry = (invoices: Invoice[]) =>
+  new Map(invoices.flatMap((invoice) => invoice.lines.map((line) => [line.entryId, invoice] as const)));
+
+// An invoiced trip is posted to the party on its invoice
+const getEntryLedger = (entry: TransportEntry, invoice: Invoice | undefined) =>
+  invoice ? invoice.partyName.trim() : getTallyPartyLedger(entry);
+
+// Bill-wise reference tying the receipts to the freight bill: the invoice number
+// once billed, otherwise the vehicle and trip date
+const getBillReference = (entry: TransportEntry, invoice: Invoice | undefined) =>
+  invoice?.invoiceNumber || `${entry.vehicleNumber}/${format(new Date(entry.date), "dd-MM-yyyy")}`;
+
+const ledgerEntry = (ledgerName: string, amount: number, isDebit: boolean, billAllocation?: { name: string; type: string }) => `
+          <ALLLEDGERENTRIES.LIST>
+            <LEDGERNAME>${escapeXml(ledgerName)}</LEDGERNAME>
+            <ISDEEMEDPOSITIVE>${isDebit ? "Yes" : "No"}</ISDEEMEDPOSITIVE>
+            <AMOUNT>${tallyAmount(isDebit ? -amount : amount)}</AMOUNT>${billAllocation ? `
+            <BILLALLOCATIONS.LIST>
+              <NAME>${escapeXml(billAllocation.name)}</NAME>
+              <BILLTYPE>${billAllocation.type}</BILLTYPE>
+              <AMOUNT>${tallyAmount(isDebit ? -amount : amount)}</AMOUNT>
+            </BILLALLOCATIONS.LIST>` : ""}
+          </ALLLEDGERENTRIES.LIST>`;
+
+// REMOTEID is our row id, so Tally recognises a voucher it has imported before
+const voucher = (
+  type: "Sales" | "Receipt",
+  remoteId: string,
+  date: Date,
+  partyLedger: string,
+  narration: string,
+  ledgerEntries: string[],
+  voucherNumber?: string
+) => `        <TALLYMESSAGE xmlns:UDF="TallyUDF">
+          <VOUCHER REMOTEID="${escapeXml(remoteId)}" VCHTYPE="${type}" ACTION="Create" OBJVIEW="Accounting Voucher View">
+            <DATE>${tallyDate(date)}</DATE>
+            <VOUCHERTYPENAME>${type}</VOUCHERTYPENAME>${voucherNumber ? `
+            <VOUCHERNUMBER>${escapeXml(voucherNumber)}</VOUCHERNUMBER>` : ""}
+            <PARTYLEDGERNAME>${escapeXml(partyLedger)}</PARTYLEDGERNAME>
+            <NARRATION>${escapeXml(narration)}</NARRATION>
+            <PERSISTEDVIEW>Accounting Voucher View</PERSISTEDVIEW>${ledgerEntries.join("")}
+          </VOUCHER>
+        </TALLYMESSAGE>`;
+
+// One party ledger per distinct party name, under the configured group, with
+// GSTIN and state from the parties master where the entry is linked to one
+export const buildTallyMasters = (
+  entries: TransportEntry[],
+  invoices: Invoice[],
+  parties: Party[],
+  settings: Settings,
+  companyName: string
+) => {
+  const partiesById = new Map(parties.map((party) => [party.id, party]));
+  const invoicesByEntry = getInvoicesByEntry(invoices);
+  const ledgers = new Map<string, Party | undefined>();
+  entries.forEach((entry) => {
+    const invoice = invoicesByEntry.get(entry.id);
+    const name = getEntryLedger(entry, invoice);
+    const partyId = invoice?.partyId ?? entry.partyId;
+    if (name && !ledgers.get(name)) {
+      ledgers.set(name, partyId ? partiesById.get(partyId) : undefined);
+    }
+  });
+
+  const messages = Array.from(ledgers.entries()).map(([name, party]) => {
+    const stateCode = party?.gstin ? getStateCode(party.gstin) : null;
+    return `        <TALLYMESSAGE xmlns:UDF="TallyUDF">
+          <LEDGER NAME="${escapeXml(name)}" ACTION="Create">
+            <NAME.LIST>
+              <NAME>${escapeXml(name)}</NAME>
+            </NAME.LIST>
+            <PARENT>${escapeXml(settings.tally_party_group)}</PARENT>
+            <ISBILLWISEON>Yes</ISBILLWISEON>${party?.address ? `
+            <ADDRESS.LIST>
+              ${party.address.split("\n").map((line) => `<ADDRESS>${escapeXml(line.trim())}</ADDRESS>`).join("\n              ")}
+            </ADDRESS.LIST>` : ""}${party?.phone ? `
+            <LEDGERPHONE>${escapeXml(party.phone)}</LEDGERPHONE>` : ""}${party?.gstin ? `
+            <GSTREGISTRATIONTYPE>Regular</GSTREGISTRATIONTYPE>
+            <PARTYGSTIN>${escapeXml(party.gstin)}</PARTYGSTIN>` : ""}${stateCode ? `
+            <LEDSTATENAME>${escapeXml(GST_STATES[stateCode])}</LEDSTATENAME>` : ""}
+          </LEDGER>
+        </TALLYMESSAGE>`;
+  });
+
+  return envelope("All Masters", companyName, messages);
+};
+
+const getReceiptLedger = (payment: Payment, settings: Settings) =>
+  payment.mode === "Cash" ? settings.tally_cash_ledger : settings.tally_bank_ledger;
+
+// A sales voucher for each invoice, from the amounts and GST mode stored on it.
+// Under forward charge the GST ledgers are added to the voucher; under reverse
+// charge the party pays the tax itself. Trips not yet invoiced are posted at their
+// freight without GST, since no invoice records any tax on them. Each payment
+// against a trip becomes a receipt voucher, the advance included.
+export const buildTallyVouchers = (
+  entries: TransportEntry[],
+  invoices: Invoice[],
+  settings: Settings,
+  companyName: string
+) => {
+  const invoicesByEntry = getInvoicesByEntry(invoices);
+  const messages: string[] = [];
+  const exportedInvoices = new Set<string>();
+
+  entries.forEach((entry) => {
+    const invoice = invoicesByEntry.get(entry.id);
+    const partyLedger = getEntryLedger(entry, invoice);
+    if (!partyLedger) return;
+
+    const billReference = getBillReference(entry, invoice);
+    const trip = `${entry.vehicleNumber} on ${format(new Date(entry.date), "dd/MM/yyyy")}${entry.place ? ` to ${entry.place}` : ""}`;
+
+    if (invoice && !exportedInvoices.has(invoice.id)) {
+      exportedInvoices.add(invoice.id);
+      const salesEntries = [
+        ledgerEntry(partyLedger, invoice.totalAmount, true, { name: billReference, type: "New Ref" }),
+        ledgerEntry(settings.tally_sales_ledger, invoice.taxableAmount, false),
+      ];
+      if (invoice.gstMode === "FORWARD") {
+        if (invoice.cgstAmount > 0) salesEntries.push(ledgerEntry(settings.tally_cgst_ledger, invoice.cgstAmount, false));
+        if (invoice.sgstAmount > 0) salesEntries.push(ledgerEntry(settings.tally_sgst_ledger, invoice.sgstAmount, false));
+        if (invoice.igstAmount > 0) salesEntries.push(ledgerEntry(settings.tally_igst_ledger, invoice.igstAmount, false));
+      }
+      messages.push(voucher(
+        "Sales",
+        invoice.id,
+        invoice.invoiceDate,
+        partyLedger,
+        `Freight for ${invoice.lines.map((line) => line.description).join("; ")}`,
+        salesEntries,
+        invoice.invoiceNumber
+      ));
+    } else if (!invoice) {
+      messages.push(voucher(
+        "Sales",
+        entry.id,
+        entry.date,
+        partyLedger,
+        `Freight for ${trip}, not yet invoiced (no GST)`,
+        [
+          ledgerEntry(partyLedger, entry.rentAmount, true, { name: billReference, type: "New Ref" }),
+          ledgerEntry(settings.tally_sales_ledger, entry.rentAmount, false),
+        ]
+      ));
+    }
+
+    entry.payments.forEach((payment) => {
+      messages.push(voucher(
+        "Receipt",
+        payment.id,
+        payment.date,
+        partyLedger,
+        [`${payment.mode} received for ${trip}`, payment.referenceNumber && `Ref ${payment.referenceNumber}`]
+          .filter(Boolean)
+          .join(", "),
+        [
+          ledgerEntry(getReceiptLedger(payment, settings), payment.amount, true),
+          ledgerEntry(partyLedger, payment.amount, false, { name: billReference, type: "Agst Ref" }),
+        ]
+      ));
+    });
+  });
+
+  return envelope("Vouchers", companyName, messages);
+};
@@ -4,3 +4,11 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Compact rupee ticks so chart axes stay narrow: 1.2L, 45k
+export function formatAxisAmount(value: number) {
+  const absolute = Math.abs(value)
+  if (absolute >= 100000) return `${(value / 100000).toFixed(1)}L`
+  if (absolute >= 1000) return `${Math.round(value / 1000)}k`
+  return String(value)
+}
@@ -0,0 +1,38 @@
+import { differenceInCalendarDays, startOfDay } from "date-fns";
+import { DocumentExpiry, Vehicle, VehicleDocument } from "@/types/vehicle";
+
+export const DOCUMENT_LABELS: Record<VehicleDocument, string> = {
+  insurance: "Insurance",
+  permit: "Permit",
+  fitness: "Fitness Certificate",
+  puc: "PUC",
+};
+
+const getExpiryDates = (vehicle: Vehicle): [VehicleDocument, Date | null][] => [
+  ["insurance", vehicle.insuranceExpiry],
+  ["permit", vehicle.permitExpiry],
+  ["fitness", vehicle.fitnessExpiry],
+  ["puc", vehicle.pucExpiry],
+];
+
+// Documents that run out within `withinDays` of `asOf`, already-expired ones included
+export const getExpiringDocuments = (vehicles: Vehicle[], withinDays = 30, asOf = new Date()): DocumentExpiry[] =>
+  vehicles
+    .flatMap(vehicle =>
+      getExpiryDates(vehicle)
+        .filter(([, expiresOn]) => expiresOn !== null)
+        .map(([document, expiresOn]) => ({
+          vehicle,
+          document,
+          expiresOn,
+          daysLeft: differenceInCalendarDays(expiresOn, startOfDay(asOf)),
+        }))
+    )
+    .filter(expiry => expiry.daysLeft <= withinDays)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+
+// A document is valid through its expiry date, so it has lapsed only on the day after
+export const getExpiredDocuments = (vehicle: Vehicle, onDate: Date): VehicleDocument[] =>
+  getExpiryDates(vehicle)
+    .filter(([, expiresOn]) => expiresOn !== null && differenceInCalendarDays(onDate, expiresOn) > 0)
+    .map(([document]) => document);
@@ -0,0 +1,73 @@
+import { differenceInCalendarDays, format, isAfter, min, startOfDay } from "date-fns";
+import { TransportEntry } from "@/types/transport";
+import { VehicleReport, VehicleReportRow, VehicleReportTotals } from "@/types/vehicleReport";
+import { ReportPeriod } from "@/lib/reportPeriods";
+import { getExpenseTotal, getTripProfit } from "@/lib/expenses";
+import { getOutstandingAmount, getPaidAmount } from "@/lib/payments";
+import { getTonnageStats } from "@/lib/weight";
+import { normalizeRegistrationNumber } from "@/services/vehicleService";
+
+const emptyTotals = (): VehicleReportTotals => ({
+  trips: 0,
+  freight: 0,
+  collected: 0,
+  outstanding: 0,
+  expenses: 0,
+  profit: 0,
+});
+
+// Days of the period that have already happened, so a running financial year
+// doesn't count the months ahead as idle
+const getElapsedDays = ({ start, end }: ReportPeriod, asOf: Date) => {
+  const today = startOfDay(asOf);
+  if (isAfter(startOfDay(start), today)) return 0;
+  return differenceInCalendarDays(min([end, today]), start) + 1;
+};
+
+// Earnings and utilisation per vehicle for the trips in the period, most freight
+// first. Fleet vehicles without a trip are listed too, idle for the whole period.
+// Trips record no distance, so freight is only measured per ton, from the trips
+// that have a weight. Trips are matched to the fleet on the normalised registration
+// number, however the vehicle was typed on the trip.
+export const buildVehicleReport = (
+  entries: TransportEntry[],
+  period: ReportPeriod,
+  fleet: string[] = [],
+  asOf = new Date()
+): VehicleReport => {
+  const periodDays = getElapsedDays(period, asOf);
+  const tripsByVehicle = new Map<string, TransportEntry[]>(fleet.map((vehicleNumber) => [vehicleNumber, []]));
+  entries.forEach((entry) => {
+    const vehicleNumber = normalizeRegistrationNumber(entry.vehicleNumber);
+    if (!vehicleNumber) return;
+    tripsByVehicle.set(vehicleNumber, [...(tripsByVehicle.get(vehicleNumber) ?? []), entry]);
+  });
+
+  const totals = emptyTotals();
+  const rows = [...tripsByVehicle.entries()].map(([vehicleNumber, trips]): VehicleReportRow => {
+    const activeDays = new Set(trips.map((entry) => format(new Date(entry.date), "yyyy-MM-dd"))).size;
+    const row: VehicleReportRow = {
+      vehicleNumber,
+      trips: trips.length,
+      freight: trips.reduce((sum, entry) => sum + entry.rentAmount, 0),
+      collected: trips.reduce((sum, entry) => sum + getPaidAmount(entry), 0),
+      outstanding: trips.reduce((sum, entry) => sum + getOutstandingAmount(entry), 0),
+      expenses: trips.reduce((sum, entry) => sum + getExpenseTotal(entry), 0),
+      profit: trips.reduce((sum, entry) => sum + getTripProfit(entry), 0),
+      activeDays,
+      idleDays: Math.max(periodDays - activeDays, 0),
+      ...getTonnageStats(trips),
+    };
+
+    (Object.keys(totals) as (keyof VehicleReportTotals)[]).forEach((key) => {
+      totals[key] += row[key];
+    });
+    return row;
+  });
+
+  return {
+    periodDays,
+    rows: rows.sort((a, b) => b.freight - a.freight || a.vehicleNumber.localeCompare(b.vehicleNumber)),
+    totals,
+  };
+};
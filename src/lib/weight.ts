@@ -0,0 +1,37 @@
+import { TransportEntry, WeightUnit } from "@/types/transport";
+
+export const WEIGHT_UNITS: { value: WeightUnit; label: string }[] = [
+  { value: "kg", label: "kg" },
+  { value: "quintal", label: "Quintal" },
+  { value: "ton", label: "Ton" },
+];
+
+const TONS_PER_UNIT: Record<WeightUnit, number> = {
+  kg: 0.001,
+  quintal: 0.1,
+  ton: 1,
+};
+
+export const toTons = (weight: number | null, unit: WeightUnit) =>
+  weight ? weight * TONS_PER_UNIT[unit] : 0;
+
+export const getEntryTons = (entry: Pick<TransportEntry, "weight" | "weightUnit">) =>
+  toTons(entry.weight, entry.weightUnit);
+
+export const formatWeight = (entry: Pick<TransportEntry, "weight" | "weightUnit">) =>
+  entry.weight !== null ? `${entry.weight.toLocaleString()} ${entry.weightUnit}` : "";
+
+// Rent for a trip billed by weight; rounded to whole rupees like the rest of the books
+export const calculateRent = (weight: number | null, ratePerUnit: number | null) =>
+  weight && ratePerUnit ? Math.round(weight * ratePerUnit) : null;
+
+// Tonnage and average freight per ton, counting only trips that have a weight recorded
+export const getTonnageStats = (entries: TransportEntry[]) => {
+  const weighed = entries.filter(entry => entry.weight);
+  const totalTons = weighed.reduce((sum, entry) => sum + getEntryTons(entry), 0);
+  const weighedFreight = weighed.reduce((sum, entry) => sum + entry.rentAmount, 0);
+  return {
+    totalTons,
+    freightPerTon: totalTons > 0 ? weighedFreight / totalTons : 0,
+  };
+};
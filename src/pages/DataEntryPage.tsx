@@ -17,7 +17,6 @@ const DataEntryPage = () => {
       const newEntry = await createTransportEntry(formData as TransportEntry);
       if (newEntry) {
         await queryClient.invalidateQueries({ queryKey: ['transportEntries'] });
-        toast.success('Entry created successfully');
         navigate('/');
       }
     } catch (error) {
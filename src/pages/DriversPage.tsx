@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { differenceInCalendarDays, format } from "date-fns";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Edit, Loader2, Plus, Search, Trash } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import DateField from "@/components/DateField";
+import { usePermissions } from "@/hooks/use-permissions";
+import { createDriver, deleteDriver, fetchDrivers, updateDriver } from "@/services/driverService";
+import { fetchVehicles } from "@/services/vehicleService";
+import { Driver } from "@/types/driver";
+
+type DriverDraft = Omit<Driver, 'id'> & { id?: string };
+
+const emptyDraft: DriverDraft = {
+  name: "",
+  mobile: "",
+  licenceNumber: "",
+  licenceExpiry: null,
+  defaultVehicleId: null,
+};
+
+const DriversPage = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { canDelete } = usePermissions();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [draft, setDraft] = useState<DriverDraft | null>(null);
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: drivers = [], isLoading } = useQuery({
+    queryKey: ['drivers'],
+    queryFn: fetchDrivers,
+  });
+
+  const { data: vehicles = [] } = useQuery({
+    queryKey: ['vehicles'],
+    queryFn: fetchVehicles,
+  });
+
+  const filteredDrivers = drivers.filter(driver =>
+    driver.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    driver.mobile.includes(searchTerm) ||
+    driver.licenceNumber.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      setNameError("Name is required");
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = draft.id
+      ? await updateDriver({ ...draft, id: draft.id })
+      : await createDriver(draft);
+    setIsSaving(false);
+
+    if (saved) {
+      await queryClient.invalidateQueries({ queryKey: ['drivers'] });
+      await queryClient.invalidateQueries({ queryKey: ['transportEntries'] });
+      setDraft(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const success = await deleteDriver(id);
+    if (success) {
+      await queryClient.invalidateQueries({ queryKey: ['drivers'] });
+      await queryClient.invalidateQueries({ queryKey: ['transportEntries'] });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8">
+      <div className="mx-auto max-w-5xl">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/')}
+          className="mb-4 -ml-2 text-slate-600 hover:text-slate-900"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Entries
+        </Button>
+
+        <Card className="border-none shadow-lg animate-in">
+          <CardHeader className="bg-primary/5 rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-primary">
+              Drivers
+            </CardTitle>
+            <CardDescription>Drivers with their licence details and usual vehicle</CardDescription>
+          </CardHeader>
+          <CardContent className="p-6 space-y-4">
+            <div className="flex flex-col sm:flex-row justify-between gap-2">
+              <div className="relative flex-1 sm:max-w-xs">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+                <Input
+                  placeholder="Search drivers..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9 w-full"
+                />
+              </div>
+              <Button
+                className="gap-2"
+                onClick={() => {
+                  setNameError(null);
+                  setDraft({ ...emptyDraft });
+                }}
+              >
+                <Plus className="h-4 w-4" /> Add Driver
+              </Button>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center items-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="border rounded-lg overflow-hidden bg-white shadow-sm">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="font-semibold">Name</TableHead>
+                      <TableHead className="font-semibold">Mobile</TableHead>
+                      <TableHead className="font-semibold">Licence</TableHead>
+                      <TableHead className="font-semibold">Licence Expiry</TableHead>
+                      <TableHead className="font-semibold">Default Vehicle</TableHead>
+                      <TableHead className="font-semibold text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredDrivers.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-slate-500">
+                          No drivers found.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredDrivers.map((driver) => {
+                        const daysLeft = driver.licenceExpiry
+                          ? differenceInCalendarDays(driver.licenceExpiry, new Date())
+                          : null;
+                        return (
+                          <TableRow key={driver.id}>
+                            <TableCell className="font-medium">{driver.name}</TableCell>
+                            <TableCell>{driver.mobile || "—"}</TableCell>
+                            <TableCell>{driver.licenceNumber || "—"}</TableCell>
+                            <TableCell
+                              className={
+                                daysLeft !== null && daysLeft < 0
+                                  ? "text-red-600"
+                                  : daysLeft !== null && daysLeft <= 30
+                                    ? "text-amber-600"
+                                    : undefined
+                              }
+                            >
+                              {driver.licenceExpiry ? format(driver.licenceExpiry, "dd/MM/yyyy") : "—"}
+                            </TableCell>
+                            <TableCell>
+                              {vehicles.find(vehicle => vehicle.id === driver.defaultVehicleId)?.registrationNumber || "—"}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => {
+                                  setNameError(null);
+                                  setDraft({ ...driver });
+                                }}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              {canDelete && (
+                                <Button variant="ghost" size="icon" onClick={() => handleDelete(driver.id)}>
+                                  <Trash className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Driver" : "Add Driver"}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="grid gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="driver-name">Name</Label>
+                <Input
+                  id="driver-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+                {nameError && <p className="text-sm font-medium text-destructive">{nameError}</p>}
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="driver-mobile">Mobile</Label>
+                <Input
+                  id="driver-mobile"
+                  value={draft.mobile}
+                  onChange={(e) => setDraft({ ...draft, mobile: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="driver-licence">Licence Number</Label>
+                <Input
+                  id="driver-licence"
+                  placeholder="e.g. MH1220110012345"
+                  value={draft.licenceNumber}
+                  onChange={(e) => setDraft({ ...draft, licenceNumber: e.target.value })}
+                />
+              </div>
+              <DateField
+                label="Licence Expiry"
+                value={draft.licenceExpiry}
+                onChange={(licenceExpiry) => setDraft({ ...draft, licenceExpiry })}
+              />
+              <div className="grid gap-2">
+                <Label>Default Vehicle</Label>
+                <Select
+                  value={draft.defaultVehicleId ?? "none"}
+                  onValueChange={(value) =>
+                    setDraft({ ...draft, defaultVehicleId: value === "none" ? null : value })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select vehicle" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No default vehicle</SelectItem>
+                    {vehicles.map((vehicle) => (
+                      <SelectItem key={vehicle.id} value={vehicle.id}>{vehicle.registrationNumber}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default DriversPage;
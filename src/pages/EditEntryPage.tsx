@@ -1,34 +1,58 @@
+import { useState } from "react";
 import TransportForm from "@/components/TransportForm";
+import PaymentLedger from "@/components/PaymentLedger";
+import ExpenseLedger from "@/components/ExpenseLedger";
+import EntryHistory from "@/components/EntryHistory";
+import EntryMergeDialog from "@/components/EntryMergeDialog";
 import { TransportEntry } from "@/types/transport";
-import { useNavigate, useParams } from "react-router-dom";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Loader2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, ArrowLeft, Loader2, Lock } from "lucide-react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { fetchTransportEntries, updateTransportEntry } from "@/services/transportService";
+import { fetchSyncConflict, fetchTransportEntry, updateTransportEntry } from "@/services/transportService";
+import { usePermissions } from "@/hooks/use-permissions";
+import { CLERK_EDIT_WINDOW_HOURS } from "@/lib/permissions";
 import { toast } from "sonner";
 
 const EditEntryPage = () => {
   const navigate = useNavigate();
   const { id } = useParams();
+  const location = useLocation();
   const queryClient = useQueryClient();
+  const { canChangeEntryAmounts } = usePermissions();
+  const [isMerging, setIsMerging] = useState(false);
 
-  const { data: entries = [], isLoading } = useQuery({
-    queryKey: ['transportEntries'],
-    queryFn: fetchTransportEntries,
-    initialData: [],
+  // Back to the list as it was left, filters and page included
+  const listPath = `/${(location.state as { listSearch?: string } | null)?.listSearch ?? ""}`;
+
+  const { data: entry = null, isLoading } = useQuery({
+    queryKey: ['transportEntries', id],
+    queryFn: () => fetchTransportEntry(id as string),
+    enabled: !!id,
+  });
+
+  // An edit that lost to someone else's save, here or when an offline edit synced
+  const { data: conflict = null } = useQuery({
+    queryKey: ['transportEntries', id, 'conflict'],
+    queryFn: () => fetchSyncConflict(id as string),
+    enabled: !!id,
   });
 
-  const entry = entries.find(e => e.id === id);
+  const isLocked = !!entry && (!!entry.invoiceNumber || !!conflict);
+  const amountsLocked = !!entry && !canChangeEntryAmounts(entry);
   
   const handleSubmit = async (formData) => {
+    if (isLocked) return;
     try {
       const updatedEntry = formData as TransportEntry;
-      const result = await updateTransportEntry(updatedEntry);
-      if (result) {
-        await queryClient.invalidateQueries({ queryKey: ['transportEntries'] });
-        toast.success('Entry updated successfully');
-        navigate('/');
+      const outcome = await updateTransportEntry(updatedEntry);
+      await queryClient.invalidateQueries({ queryKey: ['transportEntries'] });
+      if (outcome === 'applied' || outcome === 'queued') {
+        navigate(listPath);
+      } else if (outcome === 'conflict') {
+        setIsMerging(true);
       }
     } catch (error) {
       console.error('Error updating entry:', error);
@@ -36,6 +60,11 @@ const EditEntryPage = () => {
     }
   };
 
+  const handleMerged = async () => {
+    setIsMerging(false);
+    await queryClient.invalidateQueries({ queryKey: ['transportEntries'] });
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8 flex justify-center items-center">
@@ -50,7 +79,7 @@ const EditEntryPage = () => {
         <div className="mx-auto max-w-5xl">
           <Button 
             variant="ghost" 
-            onClick={() => navigate('/')} 
+            onClick={() => navigate(listPath)} 
             className="mb-4 -ml-2 text-slate-600 hover:text-slate-900"
           >
             <ArrowLeft className="mr-2 h-4 w-4" />
@@ -74,7 +103,7 @@ const EditEntryPage = () => {
       <div className="mx-auto max-w-5xl">
         <Button 
           variant="ghost" 
-          onClick={() => navigate('/')} 
+          onClick={() => navigate(listPath)} 
           className="mb-4 -ml-2 text-slate-600 hover:text-slate-900"
         >
           <ArrowLeft className="mr-2 h-4 w-4" />
@@ -88,11 +117,86 @@ const EditEntryPage = () => {
             </CardTitle>
             <CardDescription>Update transport entry details</CardDescription>
           </CardHeader>
+          <CardContent className="p-6 space-y-4">
+            {entry.invoiceNumber && (
+              <Alert className="bg-amber-50 border-amber-200">
+                <Lock className="h-4 w-4 text-amber-500" />
+                <AlertTitle className="text-amber-700">Invoiced on {entry.invoiceNumber}</AlertTitle>
+                <AlertDescription className="text-amber-600">
+                  This trip has been billed, so its details can no longer be changed. Payments can still be recorded below.
+                </AlertDescription>
+              </Alert>
+            )}
+            {conflict && (
+              <Alert className="bg-red-50 border-red-200">
+                <AlertTriangle className="h-4 w-4 text-red-500" />
+                <AlertTitle className="text-red-700">Someone else saved this entry first</AlertTitle>
+                <AlertDescription className="text-red-600">
+                  Your changes have not been saved yet.{" "}
+                  <button className="font-medium underline" onClick={() => setIsMerging(true)}>
+                    Review and merge
+                  </button>
+                </AlertDescription>
+              </Alert>
+            )}
+            {!isLocked && amountsLocked && (
+              <Alert className="bg-amber-50 border-amber-200">
+                <Lock className="h-4 w-4 text-amber-500" />
+                <AlertTitle className="text-amber-700">Entered more than {CLERK_EDIT_WINDOW_HOURS} hours ago</AlertTitle>
+                <AlertDescription className="text-amber-600">
+                  Ask the owner or an accountant to change the weight, rate or rent of this trip.
+                </AlertDescription>
+              </Alert>
+            )}
+            <fieldset disabled={isLocked}>
+              <TransportForm onSubmit={handleSubmit} initialData={entry} isEditing={true} amountsLocked={amountsLocked} />
+            </fieldset>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6 border-none shadow-lg animate-in">
+          <CardHeader className="bg-primary/5 rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-primary">
+              Payments
+            </CardTitle>
+            <CardDescription>Record each instalment received against this entry</CardDescription>
+          </CardHeader>
           <CardContent className="p-6">
-            <TransportForm onSubmit={handleSubmit} initialData={entry} isEditing={true} />
+            <PaymentLedger entry={entry} />
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6 border-none shadow-lg animate-in">
+          <CardHeader className="bg-primary/5 rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-primary">
+              Trip Expenses
+            </CardTitle>
+            <CardDescription>Diesel, tolls, loading and other costs of running this trip</CardDescription>
+          </CardHeader>
+          <CardContent className="p-6">
+            <ExpenseLedger entry={entry} />
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6 border-none shadow-lg animate-in">
+          <CardHeader className="bg-primary/5 rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-primary">
+              History
+            </CardTitle>
+            <CardDescription>Every change to this entry, its payments and expenses, and who made it</CardDescription>
+          </CardHeader>
+          <CardContent className="p-6">
+            <EntryHistory entryId={entry.id} />
           </CardContent>
         </Card>
       </div>
+
+      <EntryMergeDialog
+        conflict={conflict}
+        open={isMerging && !!conflict}
+        onOpenChange={setIsMerging}
+        onResolved={handleMerged}
+      />
     </div>
   );
 };
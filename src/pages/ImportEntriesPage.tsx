@@ -0,0 +1,412 @@
+import { ChangeEvent, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, ArrowLeft, CheckCircle2, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import {
+  guessColumnMapping,
+  IMPORT_FIELD_LABELS,
+  IMPORT_FIELDS,
+  REQUIRED_IMPORT_FIELDS,
+  validateImportRows,
+} from "@/lib/entryImport";
+import { fetchParties } from "@/services/partyService";
+import { fetchTransportEntries, importTransportEntries } from "@/services/transportService";
+import { IMPORT_FILE_TYPES, readSpreadsheet } from "@/utils/spreadsheetImport";
+import { ColumnMapping, ImportCell, ImportRow, ImportSheet } from "@/types/import";
+import { toast } from "sonner";
+
+type ImportStep = "upload" | "map" | "preview" | "done";
+
+interface ImportSummary {
+  imported: number;
+  skipped: ImportRow[]; // Failed validation
+  duplicates: ImportRow[]; // Left out as already entered or repeated in the file
+  failed: ImportRow[]; // Valid, but in a batch the database refused
+}
+
+// Select items cannot have an empty value, so an unmapped field needs its own
+const UNMAPPED = "UNMAPPED";
+
+const formatCell = (cell: ImportCell) =>
+  cell instanceof Date ? format(cell, "dd/MM/yyyy") : cell === null ? "" : String(cell);
+
+const ImportEntriesPage = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [isReading, setIsReading] = useState(false);
+  const [onlyProblems, setOnlyProblems] = useState(false);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const { data: parties = [] } = useQuery({
+    queryKey: ['parties'],
+    queryFn: fetchParties,
+  });
+
+  // Trips already entered, to spot a file that was imported before
+  const { data: existingEntries = [], isLoading: isLoadingEntries } = useQuery({
+    queryKey: ['transportEntries'],
+    queryFn: fetchTransportEntries,
+  });
+
+  const rows = useMemo(
+    () => (sheet ? validateImportRows(sheet, mapping, parties, existingEntries) : []),
+    [sheet, mapping, parties, existingEntries]
+  );
+  const duplicateRows = rows.filter((row) => row.duplicate);
+  const validRows = rows.filter((row) => row.entry && !(skipDuplicates && row.duplicate));
+  const invalidRows = rows.filter((row) => !row.entry);
+  const warningCount = rows.filter((row) => row.warnings.length > 0).length;
+  const shownRows = onlyProblems ? rows.filter((row) => row.errors.length > 0 || row.warnings.length > 0) : rows;
+  const missingFields = REQUIRED_IMPORT_FIELDS.filter((field) => mapping[field] === undefined);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.rows.length === 0) {
+        toast.error('The file has no rows below the header');
+        return;
+      }
+      setSheet(data);
+      setMapping(guessColumnMapping(data.headers));
+      setStep("map");
+    } catch (error) {
+      console.error('Failed to read spreadsheet:', error);
+      toast.error('Could not read the file. Save it as CSV or XLSX and try again');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const entries = validRows.flatMap((row) => (row.entry ? [row.entry] : []));
+    setProgress(0);
+    const result = await importTransportEntries(entries, (done) =>
+      setProgress(Math.round((done / entries.length) * 100))
+    );
+    setProgress(null);
+    // Kept aside because the rows are rebuilt, with new ids, whenever parties reload
+    setSummary({
+      imported: result.imported,
+      skipped: invalidRows,
+      duplicates: skipDuplicates ? duplicateRows : [],
+      failed: validRows.filter((row) => row.entry && result.failedIds.includes(row.entry.id)),
+    });
+    setStep("done");
+    await queryClient.invalidateQueries({ queryKey: ['transportEntries'] });
+  };
+
+  const startOver = () => {
+    setSheet(null);
+    setMapping({});
+    setSummary(null);
+    setOnlyProblems(false);
+    setSkipDuplicates(true);
+    setStep("upload");
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8">
+      <div className="mx-auto max-w-6xl">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/')}
+          className="mb-4 -ml-2 text-slate-600 hover:text-slate-900"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Entries
+        </Button>
+
+        <Card className="border-none shadow-lg animate-in">
+          <CardHeader className="bg-primary/5 rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-primary">
+              <FileSpreadsheet className="h-5 w-5" />
+              Import Entries
+            </CardTitle>
+            <CardDescription>
+              {step === "upload" && "Load past trips from a CSV or Excel file"}
+              {step === "map" && `Match the columns of ${sheet?.fileName} to entry fields`}
+              {step === "preview" && "Check the rows before they are imported"}
+              {step === "done" && "Import finished"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-6">
+            {step === "upload" && (
+              <div className="flex flex-col items-center gap-4 rounded-lg border-2 border-dashed border-slate-200 py-12 text-center">
+                <Upload className="h-10 w-10 text-slate-400" />
+                <div className="space-y-1">
+                  <p className="font-medium">Choose a CSV or XLSX file</p>
+                  <p className="text-sm text-slate-500">
+                    The first row should hold the column names. Dates are read as dd/MM/yyyy and amounts may use
+                    Indian grouping, e.g. ₹1,23,456.
+                  </p>
+                </div>
+                <Label htmlFor="import-file" className="cursor-pointer">
+                  <span className="inline-flex h-10 items-center gap-2 rounded-md bg-primary px-4 text-sm font-medium text-primary-foreground hover:bg-primary/90">
+                    {isReading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                    Select File
+                  </span>
+                </Label>
+                <Input
+                  id="import-file"
+                  type="file"
+                  accept={IMPORT_FILE_TYPES}
+                  className="hidden"
+                  onChange={handleFile}
+                  disabled={isReading}
+                />
+              </div>
+            )}
+
+            {step === "map" && sheet && (
+              <div className="space-y-6">
+                <div className="border rounded-lg overflow-hidden bg-white shadow-sm">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="font-semibold">Entry Field</TableHead>
+                        <TableHead className="font-semibold">Spreadsheet Column</TableHead>
+                        <TableHead className="font-semibold">First Row</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {IMPORT_FIELDS.map((field) => (
+                        <TableRow key={field}>
+                          <TableCell className="font-medium">
+                            {IMPORT_FIELD_LABELS[field]}
+                            {REQUIRED_IMPORT_FIELDS.includes(field) && <span className="text-red-500"> *</span>}
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={mapping[field] === undefined ? UNMAPPED : String(mapping[field])}
+                              onValueChange={(value) => {
+                                const next = { ...mapping };
+                                delete next[field];
+                                setMapping(value === UNMAPPED ? next : { ...next, [field]: Number(value) });
+                              }}
+                            >
+                              <SelectTrigger className="w-[240px]">
+                                <SelectValue placeholder="Not mapped" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                                {sheet.headers.map((header, index) => (
+                                  <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell className="text-slate-500">
+                            {mapping[field] === undefined ? "—" : formatCell(sheet.rows[0][mapping[field] as number] ?? null) || "—"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {missingFields.length > 0 && (
+                  <p className="text-sm text-red-600">
+                    Map a column to {missingFields.map((field) => IMPORT_FIELD_LABELS[field]).join(", ")} to continue.
+                  </p>
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={startOver}>Choose Another File</Button>
+                  <Button onClick={() => setStep("preview")} disabled={missingFields.length > 0}>
+                    Validate Rows
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {step === "preview" && (
+              <div className="space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <div className="flex flex-wrap gap-2">
+                    <Badge className="bg-green-100 text-green-800 hover:bg-green-200">{validRows.length} ready to import</Badge>
+                    {invalidRows.length > 0 && (
+                      <Badge className="bg-red-100 text-red-800 hover:bg-red-200">{invalidRows.length} will be skipped</Badge>
+                    )}
+                    {duplicateRows.length > 0 && (
+                      <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-300">
+                        {duplicateRows.length} duplicates
+                      </Badge>
+                    )}
+                    {warningCount > 0 && (
+                      <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-300">
+                        {warningCount} with warnings
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4">
+                    {duplicateRows.length > 0 && (
+                      <div className="flex items-center gap-2">
+                        <Switch id="skip-duplicates" checked={skipDuplicates} onCheckedChange={setSkipDuplicates} />
+                        <Label htmlFor="skip-duplicates">Skip trips already entered or repeated in the file</Label>
+                      </div>
+                    )}
+                    <div className="flex items-center gap-2">
+                      <Switch id="only-problems" checked={onlyProblems} onCheckedChange={setOnlyProblems} />
+                      <Label htmlFor="only-problems">Only rows with problems</Label>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="border rounded-lg overflow-hidden bg-white shadow-sm">
+                  <ScrollArea className="h-[420px]">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="font-semibold">Row</TableHead>
+                          <TableHead className="font-semibold">Date</TableHead>
+                          <TableHead className="font-semibold">Vehicle</TableHead>
+                          <TableHead className="font-semibold">Party</TableHead>
+                          <TableHead className="font-semibold text-right">Rent</TableHead>
+                          <TableHead className="font-semibold">Issues</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {shownRows.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={6} className="text-center py-8 text-slate-500">
+                              No problems found.
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          shownRows.map((row) => (
+                            <TableRow
+                              key={row.rowNumber}
+                              className={cn(!row.entry && "bg-red-50", row.duplicate && "bg-amber-50")}
+                            >
+                              <TableCell className="text-slate-500">{row.rowNumber}</TableCell>
+                              <TableCell>{row.entry ? format(row.entry.date, "dd/MM/yyyy") : "—"}</TableCell>
+                              <TableCell className="font-medium">{row.entry?.vehicleNumber ?? "—"}</TableCell>
+                              <TableCell>{row.entry?.transportName || "—"}</TableCell>
+                              <TableCell className="text-right">
+                                {row.entry ? `₹${row.entry.rentAmount.toLocaleString()}` : "—"}
+                              </TableCell>
+                              <TableCell className="text-sm">
+                                {row.errors.map((error) => (
+                                  <div key={error} className="text-red-600">{error}</div>
+                                ))}
+                                {row.warnings.map((warning) => (
+                                  <div key={warning} className="text-amber-600">{warning}</div>
+                                ))}
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </ScrollArea>
+                </div>
+
+                {progress !== null && <Progress value={progress} />}
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setStep("map")} disabled={progress !== null}>
+                    Change Mapping
+                  </Button>
+                  <Button onClick={handleImport} disabled={validRows.length === 0 || progress !== null || isLoadingEntries}>
+                    {progress !== null && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Import {validRows.length} Entries
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {step === "done" && summary && (
+              <div className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="rounded-lg border p-4">
+                    <p className="text-sm font-medium text-slate-600">Imported</p>
+                    <p className="text-2xl font-bold text-green-600">{summary.imported}</p>
+                  </div>
+                  <div className="rounded-lg border p-4">
+                    <p className="text-sm font-medium text-slate-600">Skipped (invalid or duplicate)</p>
+                    <p className="text-2xl font-bold text-amber-600">{summary.skipped.length + summary.duplicates.length}</p>
+                  </div>
+                  <div className="rounded-lg border p-4">
+                    <p className="text-sm font-medium text-slate-600">Refused by the database</p>
+                    <p className="text-2xl font-bold text-red-600">{summary.failed.length}</p>
+                  </div>
+                </div>
+
+                {summary.skipped.length + summary.duplicates.length + summary.failed.length === 0 ? (
+                  <p className="flex items-center gap-2 text-green-700">
+                    <CheckCircle2 className="h-4 w-4" /> Every row was imported.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    <p className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                      <AlertTriangle className="h-4 w-4 text-amber-500" /> Rows not imported
+                    </p>
+                    <ScrollArea className="h-[240px] rounded-lg border bg-white p-3">
+                      <ul className="space-y-1 text-sm">
+                        {summary.skipped.map((row) => (
+                          <li key={row.rowNumber}>
+                            <span className="font-medium">Row {row.rowNumber}:</span> {row.errors.join("; ")}
+                          </li>
+                        ))}
+                        {summary.duplicates.map((row) => (
+                          <li key={row.rowNumber}>
+                            <span className="font-medium">Row {row.rowNumber}:</span> already entered or listed earlier in the file
+                          </li>
+                        ))}
+                        {summary.failed.map((row) => (
+                          <li key={row.rowNumber}>
+                            <span className="font-medium">Row {row.rowNumber}:</span> not saved, try importing it again
+                          </li>
+                        ))}
+                      </ul>
+                    </ScrollArea>
+                  </div>
+                )}
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={startOver}>Import Another File</Button>
+                  <Button onClick={() => navigate('/')}>Back to Entries</Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ImportEntriesPage;
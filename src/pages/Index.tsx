@@ -1,41 +1,50 @@
 
-import React, { useEffect } from "react";
+import React from "react";
 import TransportEntries from "@/components/TransportEntries";
 import ReportsDashboard from "@/components/ReportsDashboard";
+import CompanySwitcher from "@/components/CompanySwitcher";
+import SyncStatusIndicator from "@/components/SyncStatusIndicator";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Truck } from "lucide-react";
+import { IdCard, LogOut, Receipt, Settings, ShieldCheck, Trash2, Truck, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useCompany } from "@/hooks/use-company";
+import { useRealtimeEntries } from "@/hooks/use-realtime-entries";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { fetchTransportEntries, deleteTransportEntry } from "@/services/transportService";
 import { Loader2 } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { TransportEntry } from "@/types/transport";
+import { DEFAULT_ENTRY_QUERY, entryQueryToParams } from "@/lib/entryQuery";
 import { useState } from "react";
 import { toast } from "sonner";
 
 const Index = () => {
   const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const [, setSearchParams] = useSearchParams();
+  const { session, signOut } = useAuth();
+  const { canDelete, canManageSettings, canManageUsers } = usePermissions();
+  const { currentCompany } = useCompany();
   const [activeTab, setActiveTab] = useState<"entries" | "reports">("entries");
+  const highlightedIds = useRealtimeEntries();
   
+  // The entries table pages itself on the server; only the reports need every entry
   const { data = [], isLoading, isError, error, refetch } = useQuery<TransportEntry[], Error>({
     queryKey: ['transportEntries'],
     queryFn: fetchTransportEntries,
-    initialData: [],
+    enabled: activeTab === "reports",
     staleTime: 1000 * 60, // 1 minute (reduced from 5 minutes for more frequent updates)
     retry: 3,
   });
 
-  // Force refetch on component mount
-  useEffect(() => {
-    console.log("Index component mounted, refetching data...");
-    refetch();
-  }, [refetch]);
-
   const handleDeleteEntry = async (id: string) => {
     try {
       const success = await deleteTransportEntry(id);
       if (success) {
         await queryClient.invalidateQueries({ queryKey: ['transportEntries'] });
-        toast.success('Entry deleted successfully');
       }
     } catch (error) {
       console.error('Error deleting entry:', error);
@@ -47,6 +56,12 @@ const Index = () => {
     setActiveTab(value as "entries" | "reports");
   };
 
+  // Drill down from the vehicle report: the list reads its filters from the URL
+  const handleViewVehicleEntries = (vehicleNumber: string, start: Date, end: Date) => {
+    setSearchParams(entryQueryToParams({ ...DEFAULT_ENTRY_QUERY, vehicleNumber, dateFrom: start, dateTo: end }));
+    setActiveTab("entries");
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8">
       <div className="mx-auto max-w-5xl">
@@ -55,9 +70,43 @@ const Index = () => {
             <Truck className="h-6 w-6 text-primary" />
           </div>
           <div>
-            <h1 className="text-3xl md:text-4xl font-bold text-slate-800 mb-1">Pratik Transport Co</h1>
+            <h1 className="text-3xl md:text-4xl font-bold text-slate-800 mb-1">{currentCompany?.name}</h1>
             <p className="text-slate-500">Manage your transport entries and track payments</p>
           </div>
+          <nav className="ml-auto flex flex-wrap justify-end gap-2">
+            <SyncStatusIndicator />
+            <CompanySwitcher />
+            <Button variant="outline" className="gap-2" onClick={() => navigate('/parties')}>
+              <Users className="h-4 w-4" /> Parties
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={() => navigate('/vehicles')}>
+              <Truck className="h-4 w-4" /> Vehicles
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={() => navigate('/drivers')}>
+              <IdCard className="h-4 w-4" /> Drivers
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={() => navigate('/invoices')}>
+              <Receipt className="h-4 w-4" /> Invoices
+            </Button>
+            {canManageUsers && (
+              <Button variant="outline" className="gap-2" onClick={() => navigate('/users')}>
+                <ShieldCheck className="h-4 w-4" /> Users
+              </Button>
+            )}
+            {canDelete && (
+              <Button variant="outline" className="gap-2" onClick={() => navigate('/trash')}>
+                <Trash2 className="h-4 w-4" /> Trash
+              </Button>
+            )}
+            {canManageSettings && (
+              <Button variant="outline" className="gap-2" onClick={() => navigate('/settings')}>
+                <Settings className="h-4 w-4" /> Settings
+              </Button>
+            )}
+            <Button variant="ghost" className="gap-2" title={session?.user.email} onClick={signOut}>
+              <LogOut className="h-4 w-4" /> Sign out
+            </Button>
+          </nav>
         </header>
 
         <Card className="border-none shadow-lg animate-in">
@@ -68,41 +117,41 @@ const Index = () => {
             <CardDescription>View and manage your transport entries and reports</CardDescription>
           </CardHeader>
           <CardContent className="p-6">
-            {isLoading ? (
-              <div className="flex justify-center items-center py-12">
-                <Loader2 className="h-8 w-8 animate-spin text-primary" />
-              </div>
-            ) : isError ? (
-              <div className="text-center py-12 text-red-500">
-                <p>Error loading entries: {error instanceof Error ? error.message : 'Unknown error'}</p>
-                <button 
-                  onClick={() => refetch()}
-                  className="mt-4 text-sm text-primary hover:underline"
-                >
-                  Try again
-                </button>
-              </div>
-            ) : (
-              <Tabs 
-                value={activeTab} 
-                onValueChange={handleTabChange}
-                className="space-y-4"
-              >
-                <TabsList className="grid w-full grid-cols-2 bg-white shadow-sm mb-4">
-                  <TabsTrigger value="entries" className="text-base py-3">Transport Entries</TabsTrigger>
-                  <TabsTrigger value="reports" className="text-base py-3">Reports & Analytics</TabsTrigger>
-                </TabsList>
-                <TabsContent value="entries" className="mt-0">
-                  <TransportEntries 
-                    entries={data} 
-                    onDelete={handleDeleteEntry} 
-                  />
-                </TabsContent>
-                <TabsContent value="reports" className="mt-0">
-                  <ReportsDashboard entries={data} />
-                </TabsContent>
-              </Tabs>
-            )}
+            <Tabs 
+              value={activeTab} 
+              onValueChange={handleTabChange}
+              className="space-y-4"
+            >
+              <TabsList className="grid w-full grid-cols-2 bg-white shadow-sm mb-4">
+                <TabsTrigger value="entries" className="text-base py-3">Transport Entries</TabsTrigger>
+                <TabsTrigger value="reports" className="text-base py-3">Reports & Analytics</TabsTrigger>
+              </TabsList>
+              <TabsContent value="entries" className="mt-0">
+                <TransportEntries 
+                  onDelete={handleDeleteEntry} 
+                  highlightedIds={highlightedIds}
+                />
+              </TabsContent>
+              <TabsContent value="reports" className="mt-0">
+                {isLoading ? (
+                  <div className="flex justify-center items-center py-12">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                  </div>
+                ) : isError ? (
+                  <div className="text-center py-12 text-red-500">
+                    <p>Error loading entries: {error instanceof Error ? error.message : 'Unknown error'}</p>
+                    <button 
+                      onClick={() => refetch()}
+                      className="mt-4 text-sm text-primary hover:underline"
+                    >
+                      Try again
+                    </button>
+                  </div>
+                ) : (
+                  <ReportsDashboard entries={data} onViewVehicleEntries={handleViewVehicleEntries} />
+                )}
+              </TabsContent>
+            </Tabs>
           </CardContent>
         </Card>
       </div>
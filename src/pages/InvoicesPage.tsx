@@ -0,0 +1,390 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, FileText, Loader2, Plus, Search } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import DateField from "@/components/DateField";
+import PartyPicker from "@/components/PartyPicker";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useCompany } from "@/hooks/use-company";
+import { createInvoice, fetchInvoices } from "@/services/invoiceService";
+import { fetchTransportEntries } from "@/services/transportService";
+import { calculateInvoiceTax, GST_RATES, GST_STATES, getStateCode } from "@/lib/gst";
+import { formatWeight } from "@/lib/weight";
+import { exportInvoiceToPDF } from "@/utils/pdfExport";
+import { GstMode } from "@/types/invoice";
+import { Party } from "@/types/party";
+import { TransportEntry } from "@/types/transport";
+
+interface InvoiceDraft {
+  party: Party | null;
+  invoiceDate: Date | null;
+  gstMode: GstMode;
+  placeOfSupply: string;
+  entryIds: string[];
+}
+
+const describeTrip = (entry: TransportEntry) =>
+  [format(entry.date, "dd/MM/yyyy"), entry.vehicleNumber, entry.place, formatWeight(entry)]
+    .filter(Boolean)
+    .join(" • ");
+
+const InvoicesPage = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { canManageInvoices } = usePermissions();
+  const { letterhead } = useCompany();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [draft, setDraft] = useState<InvoiceDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: invoices = [], isLoading } = useQuery({
+    queryKey: ['invoices'],
+    queryFn: fetchInvoices,
+  });
+
+  const { data: entries = [] } = useQuery({
+    queryKey: ['transportEntries'],
+    queryFn: fetchTransportEntries,
+    initialData: [],
+  });
+
+  const companyGstin = letterhead.gstin;
+  const companyStateCode = getStateCode(companyGstin);
+
+  const filteredInvoices = invoices.filter(invoice =>
+    invoice.invoiceNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    invoice.partyName.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const billableEntries = draft?.party
+    ? entries.filter(entry => entry.partyId === draft.party?.id && !entry.invoiceNumber)
+    : [];
+  const selectedEntries = billableEntries.filter(entry => draft?.entryIds.includes(entry.id));
+  const tax = draft?.placeOfSupply
+    ? calculateInvoiceTax(
+        selectedEntries.reduce((sum, entry) => sum + entry.rentAmount, 0),
+        draft.gstMode,
+        companyStateCode,
+        draft.placeOfSupply
+      )
+    : null;
+
+  const openNew = () => {
+    setError(null);
+    setDraft({
+      party: null,
+      invoiceDate: new Date(),
+      gstMode: "RCM",
+      placeOfSupply: companyStateCode || "",
+      entryIds: [],
+    });
+  };
+
+  const toggleEntry = (entryId: string, checked: boolean) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      entryIds: checked
+        ? [...draft.entryIds, entryId]
+        : draft.entryIds.filter(id => id !== entryId),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.party) {
+      setError("Select a party to bill");
+      return;
+    }
+    if (!draft.invoiceDate) {
+      setError("Invoice date is required");
+      return;
+    }
+    if (!tax) {
+      setError("Select a place of supply");
+      return;
+    }
+    if (selectedEntries.length === 0) {
+      setError("Select at least one trip");
+      return;
+    }
+    setError(null);
+
+    setIsSaving(true);
+    const invoice = await createInvoice({
+      invoiceDate: draft.invoiceDate,
+      partyId: draft.party.id,
+      placeOfSupply: draft.placeOfSupply,
+      gstMode: draft.gstMode,
+      lines: selectedEntries.map(entry => ({
+        entryId: entry.id,
+        description: describeTrip(entry),
+      })),
+    });
+    setIsSaving(false);
+
+    if (invoice) {
+      await queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      await queryClient.invalidateQueries({ queryKey: ['transportEntries'] });
+      setDraft(null);
+      exportInvoiceToPDF(invoice, letterhead);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8">
+      <div className="mx-auto max-w-5xl">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/')}
+          className="mb-4 -ml-2 text-slate-600 hover:text-slate-900"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Entries
+        </Button>
+
+        <Card className="border-none shadow-lg animate-in">
+          <CardHeader className="bg-primary/5 rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-primary">
+              Invoices
+            </CardTitle>
+            <CardDescription>GST tax invoices billing one or more trips to a party</CardDescription>
+          </CardHeader>
+          <CardContent className="p-6 space-y-4">
+            <div className="flex flex-col sm:flex-row justify-between gap-2">
+              <div className="relative flex-1 sm:max-w-xs">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+                <Input
+                  placeholder="Search invoices..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9 w-full"
+                />
+              </div>
+              {canManageInvoices && (
+                <Button className="gap-2" onClick={openNew}>
+                  <Plus className="h-4 w-4" /> New Invoice
+                </Button>
+              )}
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center items-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="border rounded-lg overflow-hidden bg-white shadow-sm">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="font-semibold">Invoice No.</TableHead>
+                      <TableHead className="font-semibold">Date</TableHead>
+                      <TableHead className="font-semibold">Party</TableHead>
+                      <TableHead className="font-semibold">GST</TableHead>
+                      <TableHead className="font-semibold text-right">Trips</TableHead>
+                      <TableHead className="font-semibold text-right">Total</TableHead>
+                      <TableHead className="font-semibold text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredInvoices.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-8 text-slate-500">
+                          No invoices found.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredInvoices.map((invoice) => (
+                        <TableRow key={invoice.id}>
+                          <TableCell className="font-medium">{invoice.invoiceNumber}</TableCell>
+                          <TableCell>{format(invoice.invoiceDate, "dd/MM/yyyy")}</TableCell>
+                          <TableCell>{invoice.partyName}</TableCell>
+                          <TableCell>
+                            <Badge variant={invoice.gstMode === "RCM" ? "outline" : "secondary"}>
+                              {invoice.gstMode === "RCM" ? "RCM" : "Forward"} {invoice.gstRate}%
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{invoice.lines.length}</TableCell>
+                          <TableCell className="text-right">₹{invoice.totalAmount.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="icon" onClick={() => exportInvoiceToPDF(invoice, letterhead)}>
+                              <FileText className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Invoice</DialogTitle>
+            <DialogDescription>
+              {companyGstin
+                ? `Billed from GSTIN ${companyGstin}`
+                : "Set the company GSTIN in Settings to print it on invoices"}
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="grid gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label>Party</Label>
+                  <PartyPicker
+                    value={draft.party?.id ?? null}
+                    onChange={(party) =>
+                      setDraft({
+                        ...draft,
+                        party,
+                        placeOfSupply: getStateCode(party.gstin) || draft.placeOfSupply,
+                        entryIds: [],
+                      })
+                    }
+                  />
+                </div>
+                <DateField
+                  label="Invoice Date"
+                  value={draft.invoiceDate}
+                  onChange={(invoiceDate) => setDraft({ ...draft, invoiceDate })}
+                />
+                <div className="grid gap-2">
+                  <Label>GST</Label>
+                  <Select
+                    value={draft.gstMode}
+                    onValueChange={(gstMode: GstMode) => setDraft({ ...draft, gstMode })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select GST mode" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="RCM">Reverse charge ({GST_RATES.RCM}%, paid by party)</SelectItem>
+                      <SelectItem value="FORWARD">Forward charge ({GST_RATES.FORWARD}%)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-2">
+                  <Label>Place of Supply</Label>
+                  {/* A registered party is supplied in its GSTIN's state; create_invoice() enforces it */}
+                  <Select
+                    value={draft.placeOfSupply}
+                    onValueChange={(placeOfSupply) => setDraft({ ...draft, placeOfSupply })}
+                    disabled={!!(draft.party && getStateCode(draft.party.gstin))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select state" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(GST_STATES).map(([code, state]) => (
+                        <SelectItem key={code} value={code}>{code} - {state}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid gap-2">
+                <Label>Trips</Label>
+                <ScrollArea className="h-48 rounded-md border">
+                  {billableEntries.length === 0 ? (
+                    <p className="p-4 text-sm text-slate-500">
+                      {draft.party ? "No uninvoiced trips for this party." : "Select a party to see its trips."}
+                    </p>
+                  ) : (
+                    billableEntries.map((entry) => (
+                      <label
+                        key={entry.id}
+                        className="flex items-center gap-3 px-4 py-2 text-sm border-b last:border-b-0 cursor-pointer hover:bg-slate-50"
+                      >
+                        <Checkbox
+                          checked={draft.entryIds.includes(entry.id)}
+                          onCheckedChange={(checked) => toggleEntry(entry.id, checked === true)}
+                        />
+                        <span className="flex-1">{describeTrip(entry)}</span>
+                        <span className="font-medium">₹{entry.rentAmount.toLocaleString()}</span>
+                      </label>
+                    ))
+                  )}
+                </ScrollArea>
+              </div>
+
+              {tax && (
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm bg-slate-50 p-4 rounded-lg">
+                  <span className="text-muted-foreground">Taxable value</span>
+                  <span className="text-right">₹{tax.taxableAmount.toLocaleString()}</span>
+                  {tax.igstAmount > 0 ? (
+                    <>
+                      <span className="text-muted-foreground">IGST @ {tax.gstRate}%</span>
+                      <span className="text-right">₹{tax.igstAmount.toLocaleString()}</span>
+                    </>
+                  ) : (
+                    <>
+                      <span className="text-muted-foreground">CGST + SGST @ {tax.gstRate / 2}% each</span>
+                      <span className="text-right">₹{(tax.cgstAmount + tax.sgstAmount).toLocaleString()}</span>
+                    </>
+                  )}
+                  <span className="font-medium">
+                    Invoice total{draft.gstMode === "RCM" && " (GST payable by party)"}
+                  </span>
+                  <span className="text-right font-medium">₹{tax.totalAmount.toLocaleString()}</span>
+                </div>
+              )}
+
+              {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Invoice
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default InvoicesPage;
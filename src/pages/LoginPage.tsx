@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { Location, Navigate, useLocation } from "react-router-dom";
+import { Loader2, Truck } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useAuth } from "@/hooks/use-auth";
+import { sendLoginCode, signInWithPassword, verifyLoginCode } from "@/services/authService";
+
+const LOGIN_CODE_LENGTH = 6;
+
+const LoginPage = () => {
+  const location = useLocation();
+  const { session } = useAuth();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (session) {
+    const from = (location.state as { from?: Location } | null)?.from;
+    return <Navigate to={from ? `${from.pathname}${from.search}` : "/"} replace />;
+  }
+
+  const handlePasswordSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    await signInWithPassword(email, password);
+    setIsSubmitting(false);
+  };
+
+  const handleSendCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    const sent = await sendLoginCode(email);
+    setIsSubmitting(false);
+    if (sent) {
+      setCode("");
+      setCodeSent(true);
+    }
+  };
+
+  const handleVerifyCode = async (value: string) => {
+    setIsSubmitting(true);
+    const verified = await verifyLoginCode(email, value);
+    setIsSubmitting(false);
+    if (!verified) {
+      setCode("");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8 flex items-center justify-center">
+      <Card className="w-full max-w-md border-none shadow-lg animate-in">
+        <CardHeader className="bg-primary/5 rounded-t-lg">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/10">
+              <Truck className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <CardTitle className="text-primary">Sign in</CardTitle>
+              <CardDescription>Use the email your administrator registered for you</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-6">
+          <Tabs defaultValue="password">
+            <TabsList className="grid w-full grid-cols-2 mb-6">
+              <TabsTrigger value="password">Password</TabsTrigger>
+              <TabsTrigger value="code">Email Code</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="password">
+              <form onSubmit={handlePasswordSignIn} className="grid gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="login-email">Email</Label>
+                  <Input
+                    id="login-email"
+                    type="email"
+                    autoComplete="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="login-password">Password</Label>
+                  <Input
+                    id="login-password"
+                    type="password"
+                    autoComplete="current-password"
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </div>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Sign in
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="code">
+              {codeSent ? (
+                <div className="grid gap-4">
+                  <p className="text-sm text-muted-foreground">
+                    Enter the {LOGIN_CODE_LENGTH}-digit code sent to <span className="font-medium">{email}</span>
+                  </p>
+                  <div className="flex justify-center">
+                    <InputOTP
+                      maxLength={LOGIN_CODE_LENGTH}
+                      value={code}
+                      onChange={setCode}
+                      onComplete={handleVerifyCode}
+                      disabled={isSubmitting}
+                    >
+                      <InputOTPGroup>
+                        {Array.from({ length: LOGIN_CODE_LENGTH }, (_, index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                  {isSubmitting && (
+                    <div className="flex justify-center">
+                      <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                    </div>
+                  )}
+                  <Button variant="ghost" onClick={() => setCodeSent(false)} disabled={isSubmitting}>
+                    Use a different email
+                  </Button>
+                </div>
+              ) : (
+                <form onSubmit={handleSendCode} className="grid gap-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="login-code-email">Email</Label>
+                    <Input
+                      id="login-code-email"
+                      type="email"
+                      autoComplete="email"
+                      required
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                    />
+                  </div>
+                  <Button type="submit" disabled={isSubmitting}>
+                    {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Send login code
+                  </Button>
+                </form>
+              )}
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LoginPage;
@@ -0,0 +1,328 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, FileText, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import DateField from "@/components/DateField";
+import { useCompany } from "@/hooks/use-company";
+import { fetchTransportEntries } from "@/services/transportService";
+import { fetchParties } from "@/services/partyService";
+import { createLorryReceipt, fetchLorryReceipt, updateLorryReceipt } from "@/services/lorryReceiptService";
+import { formatWeight } from "@/lib/weight";
+import { exportLorryReceiptToPDF } from "@/utils/pdfExport";
+import { FreightBasis, LorryReceipt } from "@/types/lorryReceipt";
+
+type LorryReceiptDraft = Omit<LorryReceipt, 'id' | 'lrNumber' | 'financialYear' | 'lrDate' | 'packages'> & {
+  lrDate: Date | null;
+  packages: string;
+};
+
+const LorryReceiptPage = () => {
+  const navigate = useNavigate();
+  const { id } = useParams();
+  const queryClient = useQueryClient();
+  const { letterhead } = useCompany();
+  const [draft, setDraft] = useState<LorryReceiptDraft | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: entries = [], isLoading: isLoadingEntries } = useQuery({
+    queryKey: ['transportEntries'],
+    queryFn: fetchTransportEntries,
+    initialData: [],
+  });
+
+  const { data: parties = [], isLoading: isLoadingParties } = useQuery({
+    queryKey: ['parties'],
+    queryFn: fetchParties,
+  });
+
+  const { data: lorryReceipt, isLoading: isLoadingReceipt } = useQuery({
+    queryKey: ['lorryReceipt', id],
+    queryFn: () => fetchLorryReceipt(id as string),
+    enabled: !!id,
+  });
+
+  const entry = entries.find(e => e.id === id);
+  const party = parties.find(p => p.id === entry?.partyId);
+  const isLoading = isLoadingEntries || isLoadingParties || isLoadingReceipt;
+
+  // Start from the saved LR, or prefill a new one from the trip and its party
+  useEffect(() => {
+    if (isLoading || !entry || draft) return;
+    setDraft(
+      lorryReceipt
+        ? { ...lorryReceipt, packages: lorryReceipt.packages !== null ? String(lorryReceipt.packages) : "" }
+        : {
+            entryId: entry.id,
+            lrDate: entry.date,
+            consignorName: party?.name || entry.transportName,
+            consignorAddress: party?.address || "",
+            consignorGstin: party?.gstin || "",
+            consigneeName: "",
+            consigneeAddress: "",
+            consigneeGstin: "",
+            origin: "",
+            destination: entry.place,
+            goodsDescription: "",
+            packages: "",
+            freightBasis: "TO_PAY",
+          }
+    );
+  }, [isLoading, entry, party, lorryReceipt, draft]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const nextErrors: Record<string, string> = {};
+    if (!draft.lrDate) nextErrors.lrDate = "LR date is required";
+    if (!draft.consignorName.trim()) nextErrors.consignorName = "Consignor is required";
+    if (!draft.consigneeName.trim()) nextErrors.consigneeName = "Consignee is required";
+    if (!draft.origin.trim()) nextErrors.origin = "Origin is required";
+    if (!draft.destination.trim()) nextErrors.destination = "Destination is required";
+    if (!draft.goodsDescription.trim()) nextErrors.goodsDescription = "Goods description is required";
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0 || !draft.lrDate) return;
+
+    setIsSaving(true);
+    const receipt = {
+      ...draft,
+      lrDate: draft.lrDate,
+      packages: draft.packages ? Number(draft.packages) : null,
+    };
+    const saved = lorryReceipt
+      ? await updateLorryReceipt({ ...lorryReceipt, ...receipt })
+      : await createLorryReceipt(receipt);
+    setIsSaving(false);
+
+    if (saved) {
+      queryClient.setQueryData(['lorryReceipt', id], saved);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8 flex justify-center items-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!entry) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8">
+        <div className="mx-auto max-w-5xl">
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/')}
+            className="mb-4 -ml-2 text-slate-600 hover:text-slate-900"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Entries
+          </Button>
+
+          <Card className="border-none shadow-lg animate-in">
+            <CardContent className="p-6">
+              <div className="text-center py-8">
+                Entry not found. The entry may have been deleted.
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const fieldError = (field: string) =>
+    errors[field] && <p className="text-sm font-medium text-destructive">{errors[field]}</p>;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8">
+      <div className="mx-auto max-w-5xl">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/')}
+          className="mb-4 -ml-2 text-slate-600 hover:text-slate-900"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Entries
+        </Button>
+
+        <Card className="border-none shadow-lg animate-in">
+          <CardHeader className="bg-primary/5 rounded-t-lg">
+            <div className="flex flex-col sm:flex-row justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2 text-primary">
+                  {lorryReceipt ? `Lorry Receipt ${lorryReceipt.lrNumber}` : "New Lorry Receipt"}
+                </CardTitle>
+                <CardDescription>
+                  {entry.vehicleNumber} • {entry.transportName} • {formatWeight(entry) || "No weight"} • ₹{entry.rentAmount.toLocaleString()}
+                </CardDescription>
+              </div>
+              {lorryReceipt && (
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  onClick={() => exportLorryReceiptToPDF(entry, lorryReceipt, letterhead)}
+                >
+                  <FileText className="h-4 w-4" /> PDF
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="p-6">
+            {draft && (
+              <div className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="grid gap-2">
+                    <DateField
+                      label="LR Date"
+                      value={draft.lrDate}
+                      onChange={(lrDate) => setDraft({ ...draft, lrDate })}
+                    />
+                    {fieldError("lrDate")}
+                  </div>
+                  <div className="grid gap-2">
+                    <Label>Freight Payable</Label>
+                    <Select
+                      value={draft.freightBasis}
+                      onValueChange={(freightBasis: FreightBasis) => setDraft({ ...draft, freightBasis })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Who pays the freight" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="TO_PAY">To pay (consignee pays on delivery)</SelectItem>
+                        <SelectItem value="PAID">Paid (consignor has paid)</SelectItem>
+                        <SelectItem value="TO_BE_BILLED">To be billed</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-4">
+                    <h3 className="text-sm font-semibold text-slate-700">Consignor</h3>
+                    <div className="grid gap-2">
+                      <Label htmlFor="consignor-name">Name</Label>
+                      <Input
+                        id="consignor-name"
+                        value={draft.consignorName}
+                        onChange={(e) => setDraft({ ...draft, consignorName: e.target.value })}
+                      />
+                      {fieldError("consignorName")}
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="consignor-address">Address</Label>
+                      <Textarea
+                        id="consignor-address"
+                        value={draft.consignorAddress}
+                        onChange={(e) => setDraft({ ...draft, consignorAddress: e.target.value })}
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="consignor-gstin">GSTIN</Label>
+                      <Input
+                        id="consignor-gstin"
+                        value={draft.consignorGstin}
+                        onChange={(e) => setDraft({ ...draft, consignorGstin: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-4">
+                    <h3 className="text-sm font-semibold text-slate-700">Consignee</h3>
+                    <div className="grid gap-2">
+                      <Label htmlFor="consignee-name">Name</Label>
+                      <Input
+                        id="consignee-name"
+                        value={draft.consigneeName}
+                        onChange={(e) => setDraft({ ...draft, consigneeName: e.target.value })}
+                      />
+                      {fieldError("consigneeName")}
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="consignee-address">Address</Label>
+                      <Textarea
+                        id="consignee-address"
+                        value={draft.consigneeAddress}
+                        onChange={(e) => setDraft({ ...draft, consigneeAddress: e.target.value })}
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="consignee-gstin">GSTIN</Label>
+                      <Input
+                        id="consignee-gstin"
+                        value={draft.consigneeGstin}
+                        onChange={(e) => setDraft({ ...draft, consigneeGstin: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="lr-origin">From</Label>
+                    <Input
+                      id="lr-origin"
+                      value={draft.origin}
+                      onChange={(e) => setDraft({ ...draft, origin: e.target.value })}
+                    />
+                    {fieldError("origin")}
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="lr-destination">To</Label>
+                    <Input
+                      id="lr-destination"
+                      value={draft.destination}
+                      onChange={(e) => setDraft({ ...draft, destination: e.target.value })}
+                    />
+                    {fieldError("destination")}
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="lr-goods">Description of Goods</Label>
+                    <Input
+                      id="lr-goods"
+                      placeholder="e.g. Onion bags"
+                      value={draft.goodsDescription}
+                      onChange={(e) => setDraft({ ...draft, goodsDescription: e.target.value })}
+                    />
+                    {fieldError("goodsDescription")}
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="lr-packages">Packages</Label>
+                    <Input
+                      id="lr-packages"
+                      type="number"
+                      min="0"
+                      value={draft.packages}
+                      onChange={(e) => setDraft({ ...draft, packages: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <Button onClick={handleSave} disabled={isSaving}>
+                    {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {lorryReceipt ? "Save Changes" : "Issue LR"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default LorryReceiptPage;
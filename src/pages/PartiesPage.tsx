@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Edit, Loader2, Plus, Search } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createParty, fetchParties, updateParty } from "@/services/partyService";
+import { fetchTransportEntries } from "@/services/transportService";
+import { buildPartyStatement, getStatementTotals } from "@/lib/partyStatement";
+import { GSTIN_PATTERN } from "@/lib/gst";
+import { Party } from "@/types/party";
+
+type PartyDraft = Omit<Party, 'id' | 'openingBalance'> & { id?: string; openingBalance: string };
+
+const emptyDraft: PartyDraft = {
+  name: "",
+  gstin: "",
+  phone: "",
+  address: "",
+  openingBalance: "0",
+};
+
+const PartiesPage = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [draft, setDraft] = useState<PartyDraft | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: parties = [], isLoading } = useQuery({
+    queryKey: ['parties'],
+    queryFn: fetchParties,
+  });
+
+  const { data: entries = [] } = useQuery({
+    queryKey: ['transportEntries'],
+    queryFn: fetchTransportEntries,
+    initialData: [],
+  });
+
+  const filteredParties = parties.filter(party =>
+    party.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    party.gstin.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    party.phone.includes(searchTerm)
+  );
+
+  const openEdit = (party: Party) => {
+    setErrors({});
+    setDraft({ ...party, openingBalance: String(party.openingBalance) });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const nextErrors: Record<string, string> = {};
+    if (!draft.name.trim()) {
+      nextErrors.name = "Name is required";
+    }
+    if (draft.gstin && !GSTIN_PATTERN.test(draft.gstin.trim().toUpperCase())) {
+      nextErrors.gstin = "GSTIN must be 15 characters, e.g. 27AAPFU0939F1ZV";
+    }
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) return;
+
+    setIsSaving(true);
+    const party = { ...draft, openingBalance: Number(draft.openingBalance) || 0 };
+    const saved = draft.id
+      ? await updateParty({ ...party, id: draft.id })
+      : await createParty(party);
+    setIsSaving(false);
+
+    if (saved) {
+      await queryClient.invalidateQueries({ queryKey: ['parties'] });
+      await queryClient.invalidateQueries({ queryKey: ['transportEntries'] });
+      setDraft(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8">
+      <div className="mx-auto max-w-5xl">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/')}
+          className="mb-4 -ml-2 text-slate-600 hover:text-slate-900"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Entries
+        </Button>
+
+        <Card className="border-none shadow-lg animate-in">
+          <CardHeader className="bg-primary/5 rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-primary">
+              Parties
+            </CardTitle>
+            <CardDescription>Customers you bill, with their GSTIN and outstanding balance</CardDescription>
+          </CardHeader>
+          <CardContent className="p-6 space-y-4">
+            <div className="flex flex-col sm:flex-row justify-between gap-2">
+              <div className="relative flex-1 sm:max-w-xs">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+                <Input
+                  placeholder="Search parties..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9 w-full"
+                />
+              </div>
+              <Button
+                className="gap-2"
+                onClick={() => {
+                  setErrors({});
+                  setDraft({ ...emptyDraft });
+                }}
+              >
+                <Plus className="h-4 w-4" /> Add Party
+              </Button>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center items-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="border rounded-lg overflow-hidden bg-white shadow-sm">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="font-semibold">Name</TableHead>
+                      <TableHead className="font-semibold">GSTIN</TableHead>
+                      <TableHead className="font-semibold">Phone</TableHead>
+                      <TableHead className="font-semibold text-right">Outstanding</TableHead>
+                      <TableHead className="font-semibold text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredParties.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center py-8 text-slate-500">
+                          No parties found.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredParties.map((party) => {
+                        const { outstanding } = getStatementTotals(buildPartyStatement(party, entries));
+                        return (
+                          <TableRow
+                            key={party.id}
+                            className="cursor-pointer"
+                            onClick={() => navigate(`/parties/${party.id}`)}
+                          >
+                            <TableCell className="font-medium">{party.name}</TableCell>
+                            <TableCell>{party.gstin || "—"}</TableCell>
+                            <TableCell>{party.phone || "—"}</TableCell>
+                            <TableCell className="text-right">₹{outstanding.toLocaleString()}</TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  openEdit(party);
+                                }}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Party" : "Add Party"}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="grid gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="party-name">Name</Label>
+                <Input
+                  id="party-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+                {errors.name && <p className="text-sm font-medium text-destructive">{errors.name}</p>}
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="party-gstin">GSTIN</Label>
+                <Input
+                  id="party-gstin"
+                  placeholder="27AAPFU0939F1ZV"
+                  value={draft.gstin}
+                  onChange={(e) => setDraft({ ...draft, gstin: e.target.value })}
+                />
+                {errors.gstin && <p className="text-sm font-medium text-destructive">{errors.gstin}</p>}
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="party-phone">Phone</Label>
+                <Input
+                  id="party-phone"
+                  value={draft.phone}
+                  onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="party-address">Address</Label>
+                <Textarea
+                  id="party-address"
+                  value={draft.address}
+                  onChange={(e) => setDraft({ ...draft, address: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="party-opening-balance">Opening Balance</Label>
+                <Input
+                  id="party-opening-balance"
+                  type="number"
+                  value={draft.openingBalance}
+                  onChange={(e) => setDraft({ ...draft, openingBalance: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PartiesPage;
@@ -0,0 +1,171 @@
+import { useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, FileText, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useCompany } from "@/hooks/use-company";
+import { fetchTransportEntries } from "@/services/transportService";
+import { fetchParties } from "@/services/partyService";
+import { buildPartyStatement, getStatementTotals } from "@/lib/partyStatement";
+import { exportPartyStatementToPDF } from "@/utils/pdfExport";
+
+const PartyStatementPage = () => {
+  const navigate = useNavigate();
+  const { letterhead } = useCompany();
+  const { id } = useParams();
+
+  const { data: parties = [], isLoading: isLoadingParties } = useQuery({
+    queryKey: ['parties'],
+    queryFn: fetchParties,
+  });
+
+  const { data: entries = [], isLoading: isLoadingEntries } = useQuery({
+    queryKey: ['transportEntries'],
+    queryFn: fetchTransportEntries,
+    initialData: [],
+  });
+
+  const party = parties.find(p => p.id === id);
+
+  if (isLoadingParties || isLoadingEntries) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8 flex justify-center items-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!party) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8">
+        <div className="mx-auto max-w-5xl">
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/parties')}
+            className="mb-4 -ml-2 text-slate-600 hover:text-slate-900"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Parties
+          </Button>
+
+          <Card className="border-none shadow-lg animate-in">
+            <CardContent className="p-6">
+              <div className="text-center py-8">
+                Party not found.
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const lines = buildPartyStatement(party, entries);
+  const totals = getStatementTotals(lines);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8">
+      <div className="mx-auto max-w-5xl">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/parties')}
+          className="mb-4 -ml-2 text-slate-600 hover:text-slate-900"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Parties
+        </Button>
+
+        <Card className="border-none shadow-lg animate-in">
+          <CardHeader className="bg-primary/5 rounded-t-lg">
+            <div className="flex flex-col sm:flex-row justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2 text-primary">
+                  {party.name}
+                </CardTitle>
+                <CardDescription>
+                  {[party.gstin && `GSTIN ${party.gstin}`, party.phone, party.address]
+                    .filter(Boolean)
+                    .join(" • ") || "Account statement"}
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={() => exportPartyStatementToPDF(party, lines, letterhead)}
+              >
+                <FileText className="h-4 w-4" /> PDF
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-6 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="bg-slate-50 p-4 rounded-lg">
+                <p className="text-sm font-medium text-muted-foreground">Total Billed</p>
+                <p className="text-2xl font-bold">₹{totals.billed.toLocaleString()}</p>
+              </div>
+              <div className="bg-slate-50 p-4 rounded-lg">
+                <p className="text-sm font-medium text-muted-foreground">Total Received</p>
+                <p className="text-2xl font-bold text-green-600">₹{totals.received.toLocaleString()}</p>
+              </div>
+              <div className="bg-slate-50 p-4 rounded-lg">
+                <p className="text-sm font-medium text-muted-foreground">Outstanding</p>
+                <p className="text-2xl font-bold text-red-600">₹{totals.outstanding.toLocaleString()}</p>
+              </div>
+            </div>
+
+            <div className="border rounded-lg overflow-hidden bg-white shadow-sm">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="font-semibold">Date</TableHead>
+                    <TableHead className="font-semibold">Type</TableHead>
+                    <TableHead className="font-semibold">Particulars</TableHead>
+                    <TableHead className="font-semibold text-right">Debit</TableHead>
+                    <TableHead className="font-semibold text-right">Credit</TableHead>
+                    <TableHead className="font-semibold text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line, index) => (
+                    <TableRow
+                      key={`${line.type}-${line.entryId ?? "opening"}-${index}`}
+                      className={line.entryId ? "cursor-pointer" : undefined}
+                      onClick={() => line.entryId && navigate(`/edit-entry/${line.entryId}`)}
+                    >
+                      <TableCell>{line.date ? format(line.date, "dd/MM/yyyy") : "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant={line.type === "PAYMENT" ? "outline" : "secondary"}>
+                          {line.type === "OPENING" ? "Opening" : line.type === "TRIP" ? "Trip" : "Payment"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{line.description || "—"}</TableCell>
+                      <TableCell className="text-right">
+                        {line.debit ? `₹${line.debit.toLocaleString()}` : ""}
+                      </TableCell>
+                      <TableCell className="text-right text-green-600">
+                        {line.credit ? `₹${line.credit.toLocaleString()}` : ""}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">₹{line.balance.toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default PartyStatementPage;
@@ -0,0 +1,405 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { ArrowLeft, Building2, Loader2, Plus } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useCompany } from "@/hooks/use-company";
+import { fetchSettings, saveSettings, SettingKey, Settings } from "@/services/settingsService";
+import { createCompany, updateCompany } from "@/services/companyService";
+import { getFinancialYear } from "@/lib/financialYear";
+import { GSTIN_PATTERN, GST_STATES, getStateCode } from "@/lib/gst";
+
+const PREFIX_PATTERN = /^[A-Z0-9-]{1,10}$/;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type SettingsDraft = Settings & { company_name: string };
+
+// Must match ledger and group names in Tally exactly, or the import creates or rejects them
+const TALLY_LEDGER_FIELDS: { key: SettingKey; label: string; hint: string }[] = [
+  { key: "tally_party_group", label: "Party Group", hint: "Group the party ledgers are created under" },
+  { key: "tally_sales_ledger", label: "Freight Income Ledger", hint: "Credited with the freight of each invoice and uninvoiced trip" },
+  { key: "tally_cash_ledger", label: "Cash Ledger", hint: "Debited for cash receipts" },
+  { key: "tally_bank_ledger", label: "Bank Ledger", hint: "Debited for bank transfer, cheque and UPI receipts" },
+  { key: "tally_cgst_ledger", label: "CGST Ledger", hint: "Output tax on intra-state forward charge invoices" },
+  { key: "tally_sgst_ledger", label: "SGST Ledger", hint: "Output tax on intra-state forward charge invoices" },
+  { key: "tally_igst_ledger", label: "IGST Ledger", hint: "Output tax on inter-state forward charge invoices" },
+];
+
+const SettingsPage = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { companies, currentCompany, switchCompany } = useCompany();
+  const [draft, setDraft] = useState<SettingsDraft | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [newCompanyName, setNewCompanyName] = useState<string | null>(null);
+  const [newCompanyError, setNewCompanyError] = useState<string | null>(null);
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['settings'],
+    queryFn: fetchSettings,
+  });
+
+  useEffect(() => {
+    if (settings && currentCompany) {
+      setDraft({ ...settings, company_name: currentCompany.name });
+    }
+  }, [settings, currentCompany]);
+
+  const handleSave = async () => {
+    if (!draft || !currentCompany) return;
+    const companyName = draft.company_name.trim();
+    const values: Settings = {
+      lr_prefix: draft.lr_prefix.trim().toUpperCase(),
+      invoice_prefix: draft.invoice_prefix.trim().toUpperCase(),
+      company_gstin: draft.company_gstin.trim().toUpperCase(),
+      company_address: draft.company_address.trim(),
+      company_phone: draft.company_phone.trim(),
+      company_email: draft.company_email.trim(),
+      trash_retention_days: draft.trash_retention_days.trim(),
+      tally_company_name: draft.tally_company_name.trim(),
+      tally_party_group: draft.tally_party_group.trim(),
+      tally_sales_ledger: draft.tally_sales_ledger.trim(),
+      tally_cash_ledger: draft.tally_cash_ledger.trim(),
+      tally_bank_ledger: draft.tally_bank_ledger.trim(),
+      tally_cgst_ledger: draft.tally_cgst_ledger.trim(),
+      tally_sgst_ledger: draft.tally_sgst_ledger.trim(),
+      tally_igst_ledger: draft.tally_igst_ledger.trim(),
+    };
+
+    const nextErrors: Record<string, string> = {};
+    if (!companyName) {
+      nextErrors.company_name = "Company name is required";
+    }
+    if (values.company_email && !EMAIL_PATTERN.test(values.company_email)) {
+      nextErrors.company_email = "Enter a valid email address";
+    }
+    if (!PREFIX_PATTERN.test(values.lr_prefix)) {
+      nextErrors.lr_prefix = "Use 1-10 letters, digits or hyphens";
+    }
+    // GST allows at most 16 characters in an invoice number: PREFIX/2026-27/0001
+    if (!/^[A-Z0-9-]{1,4}$/.test(values.invoice_prefix)) {
+      nextErrors.invoice_prefix = "Use 1-4 letters, digits or hyphens";
+    }
+    if (values.company_gstin && !GSTIN_PATTERN.test(values.company_gstin)) {
+      nextErrors.company_gstin = "GSTIN must be 15 characters, e.g. 27AAPFU0939F1ZV";
+    }
+    const retentionDays = Number(values.trash_retention_days);
+    if (!Number.isInteger(retentionDays) || retentionDays < 1 || retentionDays > 365) {
+      nextErrors.trash_retention_days = "Use a whole number of days between 1 and 365";
+    }
+    TALLY_LEDGER_FIELDS.forEach(({ key, label }) => {
+      if (!values[key]) {
+        nextErrors[key] = `${label} is required for the Tally export`;
+      }
+    });
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) return;
+
+    setIsSaving(true);
+    const success = await saveSettings(values)
+      && (companyName === currentCompany.name || await updateCompany({ ...currentCompany, name: companyName }));
+    setIsSaving(false);
+
+    if (success) {
+      await queryClient.invalidateQueries({ queryKey: ['settings'] });
+      await queryClient.invalidateQueries({ queryKey: ['companies'] });
+      toast.success("Settings saved");
+    }
+  };
+
+  // New companies start with default settings; the owner is switched to them to fill those in
+  const handleCreateCompany = async () => {
+    if (newCompanyName === null) return;
+    if (!newCompanyName.trim()) {
+      setNewCompanyError("Company name is required");
+      return;
+    }
+
+    setIsSaving(true);
+    const company = await createCompany(newCompanyName);
+    if (company) {
+      await switchCompany(company.id);
+      setNewCompanyName(null);
+    }
+    setIsSaving(false);
+  };
+
+  const financialYear = getFinancialYear(new Date());
+  const companyStateCode = draft ? getStateCode(draft.company_gstin) : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8">
+      <div className="mx-auto max-w-5xl">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/')}
+          className="mb-4 -ml-2 text-slate-600 hover:text-slate-900"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Entries
+        </Button>
+
+        <Card className="border-none shadow-lg animate-in">
+          <CardHeader className="bg-primary/5 rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-primary">
+              Settings
+            </CardTitle>
+            <CardDescription>
+              Numbering, letterhead and document preferences for {currentCompany?.name || "this company"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-6 space-y-6">
+            {isLoading || !draft ? (
+              <div className="flex justify-center items-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="grid gap-2 content-start">
+                  <Label htmlFor="company-name">Company Name</Label>
+                  <Input
+                    id="company-name"
+                    value={draft.company_name}
+                    onChange={(e) => setDraft({ ...draft, company_name: e.target.value })}
+                  />
+                  {errors.company_name ? (
+                    <p className="text-sm font-medium text-destructive">{errors.company_name}</p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Printed at the top of reports, LRs and invoices.</p>
+                  )}
+                </div>
+                <div className="grid gap-2 content-start">
+                  <Label htmlFor="company-address">Address</Label>
+                  <Textarea
+                    id="company-address"
+                    value={draft.company_address}
+                    onChange={(e) => setDraft({ ...draft, company_address: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-2 content-start">
+                  <Label htmlFor="company-phone">Phone</Label>
+                  <Input
+                    id="company-phone"
+                    value={draft.company_phone}
+                    onChange={(e) => setDraft({ ...draft, company_phone: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-2 content-start">
+                  <Label htmlFor="company-email">Email</Label>
+                  <Input
+                    id="company-email"
+                    type="email"
+                    value={draft.company_email}
+                    onChange={(e) => setDraft({ ...draft, company_email: e.target.value })}
+                  />
+                  {errors.company_email && (
+                    <p className="text-sm font-medium text-destructive">{errors.company_email}</p>
+                  )}
+                </div>
+                <div className="grid gap-2 content-start">
+                  <Label htmlFor="lr-prefix">Lorry Receipt Prefix</Label>
+                  <Input
+                    id="lr-prefix"
+                    value={draft.lr_prefix}
+                    onChange={(e) => setDraft({ ...draft, lr_prefix: e.target.value })}
+                  />
+                  {errors.lr_prefix ? (
+                    <p className="text-sm font-medium text-destructive">{errors.lr_prefix}</p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      LR numbers will look like {draft.lr_prefix.trim().toUpperCase() || "LR"}/{financialYear}/0001.
+                      Numbering restarts every financial year.
+                    </p>
+                  )}
+                </div>
+                <div className="grid gap-2 content-start">
+                  <Label htmlFor="invoice-prefix">Invoice Prefix</Label>
+                  <Input
+                    id="invoice-prefix"
+                    value={draft.invoice_prefix}
+                    onChange={(e) => setDraft({ ...draft, invoice_prefix: e.target.value })}
+                  />
+                  {errors.invoice_prefix ? (
+                    <p className="text-sm font-medium text-destructive">{errors.invoice_prefix}</p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Invoice numbers will look like {draft.invoice_prefix.trim().toUpperCase() || "INV"}/{financialYear}/0001.
+                    </p>
+                  )}
+                </div>
+                <div className="grid gap-2 content-start">
+                  <Label htmlFor="company-gstin">Company GSTIN</Label>
+                  <Input
+                    id="company-gstin"
+                    placeholder="27AAPFU0939F1ZV"
+                    value={draft.company_gstin}
+                    onChange={(e) => setDraft({ ...draft, company_gstin: e.target.value })}
+                  />
+                  {errors.company_gstin ? (
+                    <p className="text-sm font-medium text-destructive">{errors.company_gstin}</p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {companyStateCode
+                        ? `Invoices to parties in ${GST_STATES[companyStateCode]} charge CGST + SGST, others IGST.`
+                        : "Printed on invoices and used to choose between CGST/SGST and IGST."}
+                    </p>
+                  )}
+                </div>
+                <div className="grid gap-2 content-start">
+                  <Label htmlFor="trash-retention">Keep Deleted Entries For (days)</Label>
+                  <Input
+                    id="trash-retention"
+                    type="number"
+                    min="1"
+                    max="365"
+                    value={draft.trash_retention_days}
+                    onChange={(e) => setDraft({ ...draft, trash_retention_days: e.target.value })}
+                  />
+                  {errors.trash_retention_days ? (
+                    <p className="text-sm font-medium text-destructive">{errors.trash_retention_days}</p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Entries in the trash are deleted permanently after this many days.
+                    </p>
+                  )}
+                </div>
+                <div className="md:col-span-2 border-t pt-6">
+                  <h3 className="font-semibold text-slate-900">Tally Export</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Ledgers the Tally XML export posts to. Use the names exactly as they appear in Tally.
+                  </p>
+                </div>
+                <div className="grid gap-2 content-start">
+                  <Label htmlFor="tally-company-name">Tally Company Name</Label>
+                  <Input
+                    id="tally-company-name"
+                    placeholder={draft.company_name}
+                    value={draft.tally_company_name}
+                    onChange={(e) => setDraft({ ...draft, tally_company_name: e.target.value })}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    The company the vouchers are imported into. Leave blank if it is the same as above.
+                  </p>
+                </div>
+                {TALLY_LEDGER_FIELDS.map(({ key, label, hint }) => (
+                  <div key={key} className="grid gap-2 content-start">
+                    <Label htmlFor={key}>{label}</Label>
+                    <Input
+                      id={key}
+                      value={draft[key]}
+                      onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                    />
+                    {errors[key] ? (
+                      <p className="text-sm font-medium text-destructive">{errors[key]}</p>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">{hint}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={isSaving || isLoading}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6 border-none shadow-lg animate-in">
+          <CardHeader className="bg-primary/5 rounded-t-lg">
+            <div className="flex flex-col sm:flex-row justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2 text-primary">
+                  Companies
+                </CardTitle>
+                <CardDescription>Firms and branches that share this login, each with its own numbering</CardDescription>
+              </div>
+              <Button
+                className="gap-2"
+                onClick={() => {
+                  setNewCompanyError(null);
+                  setNewCompanyName("");
+                }}
+              >
+                <Plus className="h-4 w-4" /> Add Company
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-6">
+            <div className="grid gap-2">
+              {companies.map((company) => (
+                <div key={company.id} className="flex items-center justify-between rounded-lg border bg-white px-4 py-3">
+                  <div className="flex items-center gap-2 font-medium">
+                    <Building2 className="h-4 w-4 text-slate-400" />
+                    {company.name}
+                  </div>
+                  {company.id === currentCompany?.id ? (
+                    <span className="text-sm text-slate-500">Current</span>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => switchCompany(company.id)}
+                    >
+                      Switch
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={newCompanyName !== null} onOpenChange={(open) => !open && setNewCompanyName(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Company</DialogTitle>
+            <DialogDescription>
+              You will be switched to the new company to set up its letterhead and numbering.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="new-company-name">Name</Label>
+            <Input
+              id="new-company-name"
+              placeholder="e.g. Pratik Transport Co - Nashik Branch"
+              value={newCompanyName || ""}
+              onChange={(e) => setNewCompanyName(e.target.value)}
+            />
+            {newCompanyError && <p className="text-sm font-medium text-destructive">{newCompanyError}</p>}
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button onClick={handleCreateCompany} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { addDays, differenceInCalendarDays, format } from "date-fns";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, RotateCcw, Trash } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { fetchTrashedEntries, purgeTransportEntry, restoreTransportEntry } from "@/services/transportService";
+import { fetchSettings, SETTING_DEFAULTS } from "@/services/settingsService";
+import { TransportEntry } from "@/types/transport";
+
+const TrashPage = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [purging, setPurging] = useState<TransportEntry | null>(null);
+  const [isPurging, setIsPurging] = useState(false);
+
+  // Nested under ['transportEntries'] so restoring refreshes the main list as well
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ['transportEntries', 'trash'],
+    queryFn: fetchTrashedEntries,
+  });
+
+  const { data: settings = SETTING_DEFAULTS } = useQuery({
+    queryKey: ['settings'],
+    queryFn: fetchSettings,
+  });
+
+  const retentionDays = Number(settings.trash_retention_days) || Number(SETTING_DEFAULTS.trash_retention_days);
+
+  const handleRestore = async (id: string) => {
+    const success = await restoreTransportEntry(id);
+    if (success) {
+      await queryClient.invalidateQueries({ queryKey: ['transportEntries'] });
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!purging) return;
+    setIsPurging(true);
+    const success = await purgeTransportEntry(purging.id);
+    setIsPurging(false);
+
+    if (success) {
+      await queryClient.invalidateQueries({ queryKey: ['transportEntries'] });
+      setPurging(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8">
+      <div className="mx-auto max-w-5xl">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/')}
+          className="mb-4 -ml-2 text-slate-600 hover:text-slate-900"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Entries
+        </Button>
+
+        <Card className="border-none shadow-lg animate-in">
+          <CardHeader className="bg-primary/5 rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-primary">
+              Trash
+            </CardTitle>
+            <CardDescription>
+              Deleted entries are kept for {retentionDays} days, then removed permanently
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-6">
+            {isLoading ? (
+              <div className="flex justify-center items-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="border rounded-lg overflow-hidden bg-white shadow-sm">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="font-semibold">Date</TableHead>
+                      <TableHead className="font-semibold">Vehicle</TableHead>
+                      <TableHead className="font-semibold">Party</TableHead>
+                      <TableHead className="font-semibold text-right">Rent</TableHead>
+                      <TableHead className="font-semibold">Deleted</TableHead>
+                      <TableHead className="font-semibold">Purged In</TableHead>
+                      <TableHead className="font-semibold text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-8 text-slate-500">
+                          The trash is empty.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      entries.map((entry) => {
+                        const deletedAt = entry.deletedAt || new Date();
+                        const daysLeft = Math.max(
+                          differenceInCalendarDays(addDays(deletedAt, retentionDays), new Date()),
+                          0
+                        );
+                        return (
+                          <TableRow key={entry.id}>
+                            <TableCell>{format(entry.date, "dd/MM/yyyy")}</TableCell>
+                            <TableCell className="font-medium">{entry.vehicleNumber}</TableCell>
+                            <TableCell>{entry.transportName || "—"}</TableCell>
+                            <TableCell className="text-right">₹{entry.rentAmount.toLocaleString()}</TableCell>
+                            <TableCell>{format(deletedAt, "dd/MM/yyyy HH:mm")}</TableCell>
+                            <TableCell className={daysLeft <= 3 ? "text-red-600" : undefined}>
+                              {daysLeft === 0 ? "Today" : `${daysLeft} days`}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button variant="ghost" size="sm" className="gap-2" onClick={() => handleRestore(entry.id)}>
+                                <RotateCcw className="h-4 w-4" /> Restore
+                              </Button>
+                              <Button variant="ghost" size="icon" onClick={() => setPurging(entry)}>
+                                <Trash className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={purging !== null} onOpenChange={(open) => !open && setPurging(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete permanently</DialogTitle>
+            <DialogDescription>
+              The entry for {purging?.vehicleNumber} and its payments and expenses will be removed for good.
+              This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button variant="destructive" onClick={handlePurge} disabled={isPurging}>
+              {isPurging && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete Permanently
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TrashPage;
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Info, Loader2, UserMinus } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { fetchCompanyUsers, removeUser, updateUserRole } from "@/services/userService";
+import { ROLE_LABELS, USER_ROLES } from "@/lib/permissions";
+import { UserProfile, UserRole } from "@/types/user";
+
+const UsersPage = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { session } = useAuth();
+  const [removing, setRemoving] = useState<UserProfile | null>(null);
+  const [isRemoving, setIsRemoving] = useState(false);
+
+  const { data: users = [], isLoading } = useQuery({
+    queryKey: ['users'],
+    queryFn: fetchCompanyUsers,
+  });
+
+  const handleRoleChange = async (user: UserProfile, role: UserRole) => {
+    const success = await updateUserRole(user.userId, role);
+    if (success) {
+      await queryClient.invalidateQueries({ queryKey: ['users'] });
+      await queryClient.invalidateQueries({ queryKey: ['profile', user.userId] });
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removing) return;
+    setIsRemoving(true);
+    const success = await removeUser(removing.userId);
+    setIsRemoving(false);
+
+    if (success) {
+      await queryClient.invalidateQueries({ queryKey: ['users'] });
+      setRemoving(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8">
+      <div className="mx-auto max-w-5xl">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/')}
+          className="mb-4 -ml-2 text-slate-600 hover:text-slate-900"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Entries
+        </Button>
+
+        <Card className="border-none shadow-lg animate-in">
+          <CardHeader className="bg-primary/5 rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-primary">
+              Users
+            </CardTitle>
+            <CardDescription>Who can sign in and what they are allowed to do</CardDescription>
+          </CardHeader>
+          <CardContent className="p-6 space-y-4">
+            <Alert>
+              <Info className="h-4 w-4" />
+              <AlertTitle>Adding users</AlertTitle>
+              <AlertDescription>
+                Create new users with the Supabase admin API, giving the <code>company_id</code> they belong to in
+                their app metadata. They join as a data-entry clerk; set <code>role</code> there as well to start
+                them as an accountant or owner. Open sign-ups are turned off.
+              </AlertDescription>
+            </Alert>
+
+            {isLoading ? (
+              <div className="flex justify-center items-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="border rounded-lg overflow-hidden bg-white shadow-sm">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="font-semibold">Name</TableHead>
+                      <TableHead className="font-semibold">Email</TableHead>
+                      <TableHead className="font-semibold">Role</TableHead>
+                      <TableHead className="font-semibold text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {users.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center py-8 text-slate-500">
+                          No users found.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      users.map((user) => {
+                        const isCurrentUser = user.userId === session?.user.id;
+                        return (
+                          <TableRow key={user.userId}>
+                            <TableCell className="font-medium">
+                              {user.fullName || "—"}
+                              {isCurrentUser && <span className="ml-2 text-xs text-slate-500">(you)</span>}
+                            </TableCell>
+                            <TableCell>{user.email || "—"}</TableCell>
+                            <TableCell>
+                              <Select
+                                value={user.role}
+                                onValueChange={(role: UserRole) => handleRoleChange(user, role)}
+                              >
+                                <SelectTrigger className="w-[180px]">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {USER_ROLES.map((role) => (
+                                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {!isCurrentUser && (
+                                <Button variant="ghost" size="icon" onClick={() => setRemoving(user)}>
+                                  <UserMinus className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={removing !== null} onOpenChange={(open) => !open && setRemoving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remove access</DialogTitle>
+            <DialogDescription>
+              {removing?.fullName || removing?.email} will no longer see this company's data. Their login
+              stays in Supabase until you delete it from the dashboard.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button variant="destructive" onClick={handleRemove} disabled={isRemoving}>
+              {isRemoving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Remove
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default UsersPage;
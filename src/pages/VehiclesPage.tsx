@@ -0,0 +1,336 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Edit, Loader2, Plus, Search, Trash, Truck } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import DateField from "@/components/DateField";
+import { usePermissions } from "@/hooks/use-permissions";
+import { createVehicle, deleteVehicle, fetchVehicles, updateVehicle } from "@/services/vehicleService";
+import { DOCUMENT_LABELS, getExpiringDocuments } from "@/lib/vehicleDocuments";
+import { Vehicle, VehicleOwnership } from "@/types/vehicle";
+
+type VehicleDraft = Omit<Vehicle, 'id' | 'capacity'> & { id?: string; capacity: string };
+
+const emptyDraft: VehicleDraft = {
+  registrationNumber: "",
+  ownership: "OWN",
+  ownerName: "",
+  vehicleType: "",
+  capacity: "",
+  insuranceExpiry: null,
+  permitExpiry: null,
+  fitnessExpiry: null,
+  pucExpiry: null,
+};
+
+const VehiclesPage = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { canDelete } = usePermissions();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [draft, setDraft] = useState<VehicleDraft | null>(null);
+  const [registrationError, setRegistrationError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: vehicles = [], isLoading } = useQuery({
+    queryKey: ['vehicles'],
+    queryFn: fetchVehicles,
+  });
+
+  const filteredVehicles = vehicles.filter(vehicle =>
+    vehicle.registrationNumber.toLowerCase().includes(searchTerm.replace(/\s+/g, "").toLowerCase()) ||
+    vehicle.ownerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    vehicle.vehicleType.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const openEdit = (vehicle: Vehicle) => {
+    setRegistrationError(null);
+    setDraft({ ...vehicle, capacity: vehicle.capacity !== null ? String(vehicle.capacity) : "" });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (draft.registrationNumber.replace(/\s+/g, "").length < 3) {
+      setRegistrationError("Registration number must be at least 3 characters");
+      return;
+    }
+
+    setIsSaving(true);
+    const vehicle = { ...draft, capacity: draft.capacity ? Number(draft.capacity) : null };
+    const saved = draft.id
+      ? await updateVehicle({ ...vehicle, id: draft.id })
+      : await createVehicle(vehicle);
+    setIsSaving(false);
+
+    if (saved) {
+      await queryClient.invalidateQueries({ queryKey: ['vehicles'] });
+      setDraft(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const success = await deleteVehicle(id);
+    if (success) {
+      await queryClient.invalidateQueries({ queryKey: ['vehicles'] });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8">
+      <div className="mx-auto max-w-5xl">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/')}
+          className="mb-4 -ml-2 text-slate-600 hover:text-slate-900"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Entries
+        </Button>
+
+        <Card className="border-none shadow-lg animate-in">
+          <CardHeader className="bg-primary/5 rounded-t-lg">
+            <CardTitle className="flex items-center gap-2 text-primary">
+              Vehicles
+            </CardTitle>
+            <CardDescription>Own fleet and market vehicles with their document expiry dates</CardDescription>
+          </CardHeader>
+          <CardContent className="p-6 space-y-4">
+            <div className="flex flex-col sm:flex-row justify-between gap-2">
+              <div className="relative flex-1 sm:max-w-xs">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+                <Input
+                  placeholder="Search vehicles..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9 w-full"
+                />
+              </div>
+              <Button
+                className="gap-2"
+                onClick={() => {
+                  setRegistrationError(null);
+                  setDraft({ ...emptyDraft });
+                }}
+              >
+                <Plus className="h-4 w-4" /> Add Vehicle
+              </Button>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center items-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="border rounded-lg overflow-hidden bg-white shadow-sm">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="font-semibold">Registration</TableHead>
+                      <TableHead className="font-semibold">Owner</TableHead>
+                      <TableHead className="font-semibold">Type</TableHead>
+                      <TableHead className="font-semibold text-right">Capacity</TableHead>
+                      <TableHead className="font-semibold">Documents</TableHead>
+                      <TableHead className="font-semibold text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredVehicles.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-slate-500">
+                          No vehicles found.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredVehicles.map((vehicle) => {
+                        const [nextExpiry] = getExpiringDocuments([vehicle], Infinity);
+                        return (
+                          <TableRow key={vehicle.id} className="group">
+                            <TableCell>
+                              <div className="flex items-center gap-2 font-medium">
+                                <Truck className="h-3.5 w-3.5 text-slate-400" />
+                                {vehicle.registrationNumber}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={vehicle.ownership === "OWN" ? "secondary" : "outline"}>
+                                {vehicle.ownership === "OWN" ? "Own fleet" : "Market"}
+                              </Badge>
+                              {vehicle.ownerName && (
+                                <span className="ml-2 text-sm text-slate-500">{vehicle.ownerName}</span>
+                              )}
+                            </TableCell>
+                            <TableCell>{vehicle.vehicleType || "—"}</TableCell>
+                            <TableCell className="text-right">
+                              {vehicle.capacity !== null ? `${vehicle.capacity} t` : "—"}
+                            </TableCell>
+                            <TableCell>
+                              {nextExpiry ? (
+                                <span
+                                  className={
+                                    nextExpiry.daysLeft < 0
+                                      ? "text-red-600"
+                                      : nextExpiry.daysLeft <= 30
+                                        ? "text-amber-600"
+                                        : "text-slate-600"
+                                  }
+                                >
+                                  {DOCUMENT_LABELS[nextExpiry.document]}{" "}
+                                  {nextExpiry.daysLeft < 0 ? "expired" : "expires"}{" "}
+                                  {format(nextExpiry.expiresOn, "dd/MM/yyyy")}
+                                </span>
+                              ) : (
+                                "—"
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button variant="ghost" size="icon" onClick={() => openEdit(vehicle)}>
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              {canDelete && (
+                                <Button variant="ghost" size="icon" onClick={() => handleDelete(vehicle.id)}>
+                                  <Trash className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Vehicle" : "Add Vehicle"}</DialogTitle>
+            <DialogDescription>Documents are flagged on the dashboard 30 days before they expire</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="vehicle-registration">Registration Number</Label>
+                <Input
+                  id="vehicle-registration"
+                  placeholder="e.g. MH12AB1234"
+                  value={draft.registrationNumber}
+                  onChange={(e) => setDraft({ ...draft, registrationNumber: e.target.value })}
+                />
+                {registrationError && (
+                  <p className="text-sm font-medium text-destructive">{registrationError}</p>
+                )}
+              </div>
+              <div className="grid gap-2">
+                <Label>Ownership</Label>
+                <Select
+                  value={draft.ownership}
+                  onValueChange={(ownership: VehicleOwnership) => setDraft({ ...draft, ownership })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select ownership" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="OWN">Own fleet</SelectItem>
+                    <SelectItem value="MARKET">Market vehicle</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="vehicle-owner">Owner Name</Label>
+                <Input
+                  id="vehicle-owner"
+                  placeholder="Owner of a market vehicle"
+                  value={draft.ownerName}
+                  onChange={(e) => setDraft({ ...draft, ownerName: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="vehicle-type">Type</Label>
+                <Input
+                  id="vehicle-type"
+                  placeholder="e.g. 10-wheeler, trailer"
+                  value={draft.vehicleType}
+                  onChange={(e) => setDraft({ ...draft, vehicleType: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="vehicle-capacity">Capacity (tons)</Label>
+                <Input
+                  id="vehicle-capacity"
+                  type="number"
+                  min="0"
+                  value={draft.capacity}
+                  onChange={(e) => setDraft({ ...draft, capacity: e.target.value })}
+                />
+              </div>
+              <DateField
+                label="Insurance Expiry"
+                value={draft.insuranceExpiry}
+                onChange={(insuranceExpiry) => setDraft({ ...draft, insuranceExpiry })}
+              />
+              <DateField
+                label="Permit Expiry"
+                value={draft.permitExpiry}
+                onChange={(permitExpiry) => setDraft({ ...draft, permitExpiry })}
+              />
+              <DateField
+                label="Fitness Certificate Expiry"
+                value={draft.fitnessExpiry}
+                onChange={(fitnessExpiry) => setDraft({ ...draft, fitnessExpiry })}
+              />
+              <DateField
+                label="PUC Expiry"
+                value={draft.pucExpiry}
+                onChange={(pucExpiry) => setDraft({ ...draft, pucExpiry })}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default VehiclesPage;
@@ -0,0 +1,44 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { AuditAction, AuditEvent, AuditTable } from "@/types/audit";
+import { toast } from "sonner";
+
+type DbChanges = Record<string, { old: unknown; new: unknown }>;
+
+const transformDbAuditEvent = (row: Tables<'audit_log'>): AuditEvent => ({
+  id: row.id,
+  entryId: row.entry_id,
+  table: row.table_name as AuditTable,
+  rowId: row.row_id,
+  action: row.action as AuditAction,
+  changes: Object.entries((row.changes || {}) as DbChanges)
+    .map(([field, change]) => ({ field, oldValue: change.old, newValue: change.new }))
+    .sort((a, b) => a.field.localeCompare(b.field)),
+  changedByName: row.changed_by_name || "Unknown user",
+  changedAt: new Date(row.changed_at),
+});
+
+// Newest first. The log is written by database triggers, so there is nothing to create here.
+export const fetchEntryHistory = async (entryId: string): Promise<AuditEvent[]> => {
+  try {
+    console.log('Fetching history for entry:', entryId);
+    const { data, error } = await supabase
+      .from('audit_log')
+      .select('*')
+      .eq('entry_id', entryId)
+      .order('changed_at', { ascending: false })
+      .order('id', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching entry history:', error.message);
+      toast.error('Failed to load history');
+      throw error;
+    }
+
+    return (data || []).map(transformDbAuditEvent);
+  } catch (error) {
+    console.error('Failed to fetch entry history:', error);
+    toast.error('Failed to load history');
+    return [];
+  }
+};
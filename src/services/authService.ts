@@ -0,0 +1,79 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+export const signInWithPassword = async (email: string, password: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+
+    if (error) {
+      console.error('Error signing in:', error.message);
+      toast.error(error.status === 400 ? 'Incorrect email or password' : 'Failed to sign in');
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Failed to sign in:', error);
+    toast.error('Failed to sign in');
+    return false;
+  }
+};
+
+// Accounts are created by an administrator, so an unknown email never gets a new user
+export const sendLoginCode = async (email: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase.auth.signInWithOtp({
+      email: email.trim(),
+      options: { shouldCreateUser: false },
+    });
+
+    if (error) {
+      console.error('Error sending login code:', error.message);
+      toast.error('Failed to send login code');
+      return false;
+    }
+
+    toast.success('Login code sent. Check your email');
+    return true;
+  } catch (error) {
+    console.error('Failed to send login code:', error);
+    toast.error('Failed to send login code');
+    return false;
+  }
+};
+
+export const verifyLoginCode = async (email: string, token: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase.auth.verifyOtp({ email: email.trim(), token, type: 'email' });
+
+    if (error) {
+      console.error('Error verifying login code:', error.message);
+      toast.error('Invalid or expired code');
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Failed to verify login code:', error);
+    toast.error('Failed to verify login code');
+    return false;
+  }
+};
+
+export const signOut = async (): Promise<boolean> => {
+  try {
+    const { error } = await supabase.auth.signOut();
+
+    if (error) {
+      console.error('Error signing out:', error.message);
+      toast.error('Failed to sign out');
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Failed to sign out:', error);
+    toast.error('Failed to sign out');
+    return false;
+  }
+};
@@ -0,0 +1,99 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Company } from "@/types/company";
+import { toast } from "sonner";
+
+const transformDbCompany = (company: Tables<'companies'>): Company => ({
+  id: company.id,
+  name: company.name,
+});
+
+// Every company of the signed-in user's organisation
+export const fetchCompanies = async (): Promise<Company[]> => {
+  try {
+    console.log('Fetching companies...');
+    const { data, error } = await supabase
+      .from('companies')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching companies:', error.message);
+      toast.error('Failed to load companies');
+      throw error;
+    }
+
+    return (data || []).map(transformDbCompany);
+  } catch (error) {
+    console.error('Failed to fetch companies:', error);
+    toast.error('Failed to load companies');
+    return [];
+  }
+};
+
+export const createCompany = async (name: string): Promise<Company | null> => {
+  try {
+    console.log('Creating company:', name);
+    const { data, error } = await supabase
+      .from('companies')
+      .insert({ name: name.trim() })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating company:', error.message);
+      toast.error('Failed to create company');
+      return null;
+    }
+
+    toast.success('Company created successfully');
+    return transformDbCompany(data);
+  } catch (error) {
+    console.error('Failed to create company:', error);
+    toast.error('Failed to create company');
+    return null;
+  }
+};
+
+export const updateCompany = async (company: Company): Promise<boolean> => {
+  try {
+    console.log('Updating company:', company);
+    const { error } = await supabase
+      .from('companies')
+      .update({ name: company.name.trim() })
+      .eq('id', company.id);
+
+    if (error) {
+      console.error('Error updating company:', error.message);
+      toast.error('Failed to update company');
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Failed to update company:', error);
+    toast.error('Failed to update company');
+    return false;
+  }
+};
+
+// Moves the signed-in user to another company of the organisation. Every
+// company-scoped query returns that company's rows from then on.
+export const switchCompany = async (companyId: string): Promise<boolean> => {
+  try {
+    console.log('Switching company:', companyId);
+    const { error } = await supabase.rpc('switch_company', { target_company_id: companyId });
+
+    if (error) {
+      console.error('Error switching company:', error.message);
+      toast.error('Failed to switch company');
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Failed to switch company:', error);
+    toast.error('Failed to switch company');
+    return false;
+  }
+};
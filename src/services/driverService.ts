@@ -0,0 +1,117 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Driver } from "@/types/driver";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+
+const prepareDriverForDb = (driver: Omit<Driver, 'id'>) => ({
+  name: driver.name.trim(),
+  mobile: driver.mobile || null,
+  licence_number: driver.licenceNumber ? driver.licenceNumber.replace(/\s+/g, "").toUpperCase() : null,
+  licence_expiry: driver.licenceExpiry ? format(driver.licenceExpiry, "yyyy-MM-dd") : null,
+  default_vehicle_id: driver.defaultVehicleId,
+});
+
+const transformDbDriver = (driver: Tables<'drivers'>): Driver => ({
+  id: driver.id,
+  name: driver.name,
+  mobile: driver.mobile || "",
+  licenceNumber: driver.licence_number || "",
+  licenceExpiry: driver.licence_expiry ? parseISO(driver.licence_expiry) : null,
+  defaultVehicleId: driver.default_vehicle_id,
+});
+
+export const fetchDrivers = async (): Promise<Driver[]> => {
+  try {
+    console.log('Fetching drivers from Supabase...');
+    const { data, error } = await supabase
+      .from('drivers')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching drivers:', error.message);
+      toast.error('Failed to load drivers');
+      throw error;
+    }
+
+    return (data || []).map(transformDbDriver);
+  } catch (error) {
+    console.error('Failed to fetch drivers:', error);
+    toast.error('Failed to load drivers');
+    return [];
+  }
+};
+
+export const createDriver = async (driver: Omit<Driver, 'id'>): Promise<Driver | null> => {
+  try {
+    console.log('Creating driver:', driver);
+    const { data, error } = await supabase
+      .from('drivers')
+      .insert(prepareDriverForDb(driver))
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating driver:', error.message);
+      toast.error(error.code === '23505' ? 'A driver with this licence number already exists' : 'Failed to create driver');
+      return null;
+    }
+
+    console.log('Driver created successfully:', data);
+    toast.success('Driver created successfully');
+    return transformDbDriver(data);
+  } catch (error) {
+    console.error('Failed to create driver:', error);
+    toast.error('Failed to create driver');
+    return null;
+  }
+};
+
+export const updateDriver = async (driver: Driver): Promise<boolean> => {
+  try {
+    console.log('Updating driver:', driver);
+    const { error } = await supabase
+      .from('drivers')
+      .update(prepareDriverForDb(driver))
+      .eq('id', driver.id);
+
+    if (error) {
+      console.error('Error updating driver:', error.message);
+      toast.error(error.code === '23505' ? 'A driver with this licence number already exists' : 'Failed to update driver');
+      return false;
+    }
+
+    console.log('Driver updated successfully');
+    toast.success('Driver updated successfully');
+    return true;
+  } catch (error) {
+    console.error('Failed to update driver:', error);
+    toast.error('Failed to update driver');
+    return false;
+  }
+};
+
+export const deleteDriver = async (id: string): Promise<boolean> => {
+  try {
+    console.log('Deleting driver:', id);
+    const { error } = await supabase
+      .from('drivers')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting driver:', error.message);
+      toast.error('Failed to delete driver');
+      return false;
+    }
+
+    console.log('Driver deleted successfully');
+    toast.success('Driver deleted successfully');
+    return true;
+  } catch (error) {
+    console.error('Failed to delete driver:', error);
+    toast.error('Failed to delete driver');
+    return false;
+  }
+};
@@ -0,0 +1,123 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { GstMode, Invoice, InvoiceLine } from "@/types/invoice";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+
+// What the user chooses; billing details, line amounts and tax are worked out
+// by create_invoice() from the party and the trips
+export type NewInvoice = Pick<Invoice, 'invoiceDate' | 'partyId' | 'placeOfSupply' | 'gstMode'> & {
+  lines: Pick<InvoiceLine, 'entryId' | 'description'>[];
+};
+
+const prepareInvoiceForDb = (invoice: NewInvoice) => ({
+  invoice_date: format(invoice.invoiceDate, "yyyy-MM-dd"),
+  party_id: invoice.partyId,
+  place_of_supply: invoice.placeOfSupply,
+  gst_mode: invoice.gstMode,
+});
+
+const transformDbInvoiceLine = (line: Tables<'invoice_lines'>): InvoiceLine => ({
+  id: line.id,
+  invoiceId: line.invoice_id,
+  entryId: line.entry_id,
+  description: line.description,
+  amount: Number(line.amount) || 0,
+});
+
+const transformDbInvoice = (
+  invoice: Tables<'invoices'> & { invoice_lines?: Tables<'invoice_lines'>[] }
+): Invoice => ({
+  id: invoice.id,
+  invoiceNumber: invoice.invoice_number,
+  invoiceDate: parseISO(invoice.invoice_date),
+  financialYear: invoice.financial_year,
+  partyId: invoice.party_id,
+  partyName: invoice.party_name,
+  partyGstin: invoice.party_gstin || "",
+  partyAddress: invoice.party_address || "",
+  supplierGstin: invoice.supplier_gstin || "",
+  placeOfSupply: invoice.place_of_supply,
+  gstMode: invoice.gst_mode as GstMode,
+  gstRate: Number(invoice.gst_rate) || 0,
+  taxableAmount: Number(invoice.taxable_amount) || 0,
+  cgstAmount: Number(invoice.cgst_amount) || 0,
+  sgstAmount: Number(invoice.sgst_amount) || 0,
+  igstAmount: Number(invoice.igst_amount) || 0,
+  totalAmount: Number(invoice.total_amount) || 0,
+  lines: (invoice.invoice_lines || []).map(transformDbInvoiceLine),
+});
+
+// Read in batches because PostgREST caps a response at 1000 rows
+export const fetchInvoices = async (): Promise<Invoice[]> => {
+  const batchSize = 1000;
+  const invoices: Invoice[] = [];
+  try {
+    for (let from = 0; ; from += batchSize) {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*, invoice_lines(*)')
+        .order('invoice_date', { ascending: false })
+        .order('serial', { ascending: false })
+        .order('id')
+        .range(from, from + batchSize - 1);
+
+      if (error) {
+        console.error('Error fetching invoices:', error.message);
+        toast.error('Failed to load invoices');
+        throw error;
+      }
+
+      invoices.push(...(data || []).map(transformDbInvoice));
+      if (!data || data.length < batchSize) break;
+    }
+
+    return invoices;
+  } catch (error) {
+    console.error('Failed to fetch invoices:', error);
+    toast.error('Failed to load invoices');
+    return [];
+  }
+};
+
+// The invoice and its lines go in through one database function, so a failure
+// leaves neither behind and no invoice number is used up
+export const createInvoice = async (invoice: NewInvoice): Promise<Invoice | null> => {
+  try {
+    console.log('Creating invoice:', invoice);
+    const { data: created, error } = await supabase.rpc('create_invoice', {
+      invoice: prepareInvoiceForDb(invoice),
+      lines: invoice.lines.map(line => ({
+        entry_id: line.entryId,
+        description: line.description,
+      })),
+    });
+
+    if (error) {
+      console.error('Error creating invoice:', error.message);
+      toast.error(error.code === '23505' ? 'One of the trips is already invoiced' : 'Failed to create invoice');
+      return null;
+    }
+
+    // Read it back with the lines the function added
+    const { data, error: fetchError } = await supabase
+      .from('invoices')
+      .select('*, invoice_lines(*)')
+      .eq('id', created.id)
+      .single();
+
+    if (fetchError) {
+      console.error('Error loading created invoice:', fetchError.message);
+      toast.warning(`Invoice ${created.invoice_number} created, but it could not be loaded for printing`);
+      return null;
+    }
+
+    console.log('Invoice created:', data.invoice_number);
+    toast.success(`Invoice ${data.invoice_number} created`);
+    return transformDbInvoice(data);
+  } catch (error) {
+    console.error('Failed to create invoice:', error);
+    toast.error('Failed to create invoice');
+    return null;
+  }
+};
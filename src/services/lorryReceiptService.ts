@@ -0,0 +1,115 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { FreightBasis, LorryReceipt } from "@/types/lorryReceipt";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+
+// lr_number, financial_year and serial are left out: the database assigns them
+const prepareLorryReceiptForDb = (lr: Omit<LorryReceipt, 'id' | 'lrNumber' | 'financialYear'>) => ({
+  entry_id: lr.entryId,
+  lr_date: format(lr.lrDate, "yyyy-MM-dd"),
+  consignor_name: lr.consignorName.trim(),
+  consignor_address: lr.consignorAddress || null,
+  consignor_gstin: lr.consignorGstin ? lr.consignorGstin.trim().toUpperCase() : null,
+  consignee_name: lr.consigneeName.trim(),
+  consignee_address: lr.consigneeAddress || null,
+  consignee_gstin: lr.consigneeGstin ? lr.consigneeGstin.trim().toUpperCase() : null,
+  origin: lr.origin.trim(),
+  destination: lr.destination.trim(),
+  goods_description: lr.goodsDescription.trim(),
+  packages: lr.packages,
+  freight_basis: lr.freightBasis,
+});
+
+const transformDbLorryReceipt = (lr: Tables<'lorry_receipts'>): LorryReceipt => ({
+  id: lr.id,
+  entryId: lr.entry_id,
+  lrNumber: lr.lr_number,
+  lrDate: parseISO(lr.lr_date),
+  financialYear: lr.financial_year,
+  consignorName: lr.consignor_name,
+  consignorAddress: lr.consignor_address || "",
+  consignorGstin: lr.consignor_gstin || "",
+  consigneeName: lr.consignee_name,
+  consigneeAddress: lr.consignee_address || "",
+  consigneeGstin: lr.consignee_gstin || "",
+  origin: lr.origin,
+  destination: lr.destination,
+  goodsDescription: lr.goods_description,
+  packages: lr.packages,
+  freightBasis: (lr.freight_basis as FreightBasis) || "TO_PAY",
+});
+
+export const fetchLorryReceipt = async (entryId: string): Promise<LorryReceipt | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('lorry_receipts')
+      .select('*')
+      .eq('entry_id', entryId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching lorry receipt:', error.message);
+      toast.error('Failed to load lorry receipt');
+      return null;
+    }
+
+    return data ? transformDbLorryReceipt(data) : null;
+  } catch (error) {
+    console.error('Failed to fetch lorry receipt:', error);
+    toast.error('Failed to load lorry receipt');
+    return null;
+  }
+};
+
+export const createLorryReceipt = async (
+  lr: Omit<LorryReceipt, 'id' | 'lrNumber' | 'financialYear'>
+): Promise<LorryReceipt | null> => {
+  try {
+    console.log('Issuing lorry receipt:', lr);
+    const { data, error } = await supabase
+      .from('lorry_receipts')
+      .insert(prepareLorryReceiptForDb(lr))
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error issuing lorry receipt:', error.message);
+      toast.error(error.code === '23505' ? 'This entry already has a lorry receipt' : 'Failed to issue lorry receipt');
+      return null;
+    }
+
+    console.log('Lorry receipt issued:', data.lr_number);
+    toast.success(`Lorry receipt ${data.lr_number} issued`);
+    return transformDbLorryReceipt(data);
+  } catch (error) {
+    console.error('Failed to issue lorry receipt:', error);
+    toast.error('Failed to issue lorry receipt');
+    return null;
+  }
+};
+
+export const updateLorryReceipt = async (lr: LorryReceipt): Promise<LorryReceipt | null> => {
+  try {
+    console.log('Updating lorry receipt:', lr);
+    const { data, error } = await supabase
+      .from('lorry_receipts')
+      .update(prepareLorryReceiptForDb(lr))
+      .eq('id', lr.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating lorry receipt:', error.message);
+      toast.error('Failed to update lorry receipt');
+      return null;
+    }
+
+    toast.success('Lorry receipt updated');
+    return transformDbLorryReceipt(data);
+  } catch (error) {
+    console.error('Failed to update lorry receipt:', error);
+    toast.error('Failed to update lorry receipt');
+    return null;
+  }
+};
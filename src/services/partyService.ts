@@ -0,0 +1,98 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Party } from "@/types/party";
+import { toast } from "sonner";
+
+// Collapse stray whitespace so "Sharma  Roadlines " is stored as "Sharma Roadlines"
+export const normalizePartyName = (name: string) => name.trim().replace(/\s+/g, " ");
+
+const preparePartyForDb = (party: Omit<Party, 'id'>) => ({
+  name: normalizePartyName(party.name),
+  gstin: party.gstin ? party.gstin.trim().toUpperCase() : null,
+  phone: party.phone || null,
+  address: party.address || null,
+  opening_balance: Number(party.openingBalance) || 0,
+});
+
+const transformDbParty = (party: Tables<'parties'>): Party => ({
+  id: party.id,
+  name: party.name,
+  gstin: party.gstin || "",
+  phone: party.phone || "",
+  address: party.address || "",
+  openingBalance: Number(party.opening_balance) || 0,
+});
+
+export const fetchParties = async (): Promise<Party[]> => {
+  try {
+    console.log('Fetching parties from Supabase...');
+    const { data, error } = await supabase
+      .from('parties')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching parties:', error.message);
+      toast.error('Failed to load parties');
+      throw error;
+    }
+
+    return (data || []).map(transformDbParty);
+  } catch (error) {
+    console.error('Failed to fetch parties:', error);
+    toast.error('Failed to load parties');
+    return [];
+  }
+};
+
+export const createParty = async (party: Omit<Party, 'id'>): Promise<Party | null> => {
+  try {
+    console.log('Creating party:', party);
+    const { data, error } = await supabase
+      .from('parties')
+      .insert(preparePartyForDb(party))
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating party:', error.message);
+      // 23505: the case-insensitive unique index on name
+      toast.error(error.code === '23505' ? 'A party with this name already exists' : 'Failed to create party');
+      return null;
+    }
+
+    console.log('Party created successfully:', data);
+    toast.success('Party created successfully');
+    return transformDbParty(data);
+  } catch (error) {
+    console.error('Failed to create party:', error);
+    toast.error('Failed to create party');
+    return null;
+  }
+};
+
+export const updateParty = async (party: Party): Promise<boolean> => {
+  try {
+    console.log('Updating party:', party);
+    const preparedParty = preparePartyForDb(party);
+    const { error } = await supabase
+      .from('parties')
+      .update(preparedParty)
+      .eq('id', party.id);
+
+    if (error) {
+      console.error('Error updating party:', error.message);
+      toast.error(error.code === '23505' ? 'A party with this name already exists' : 'Failed to update party');
+      return false;
+    }
+
+    // The parties_sync_name trigger renames the party on its existing entries
+    console.log('Party updated successfully');
+    toast.success('Party updated successfully');
+    return true;
+  } catch (error) {
+    console.error('Failed to update party:', error);
+    toast.error('Failed to update party');
+    return false;
+  }
+};
@@ -0,0 +1,85 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { SavedView } from "@/types/savedView";
+import { toast } from "sonner";
+
+const transformDbSavedView = (view: Tables<'saved_views'>): SavedView => ({
+  id: view.id,
+  name: view.name,
+  params: Object.fromEntries(
+    Object.entries((view.params as Record<string, unknown>) || {}).map(([key, value]) => [key, String(value)])
+  ),
+});
+
+// The signed-in user's views for the current company; row level security does the narrowing
+export const fetchSavedViews = async (): Promise<SavedView[]> => {
+  try {
+    console.log('Fetching saved views...');
+    const { data, error } = await supabase
+      .from('saved_views')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching saved views:', error.message);
+      toast.error('Failed to load saved views');
+      throw error;
+    }
+
+    return (data || []).map(transformDbSavedView);
+  } catch (error) {
+    console.error('Failed to fetch saved views:', error);
+    toast.error('Failed to load saved views');
+    return [];
+  }
+};
+
+export const createSavedView = async (name: string, params: Record<string, string>): Promise<SavedView | null> => {
+  try {
+    console.log('Saving view:', name, params);
+    const { data, error } = await supabase
+      .from('saved_views')
+      .insert({ name: name.trim(), params })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving view:', error.message);
+      // 23505: the case-insensitive unique index on the user's view names
+      toast.error(error.code === '23505' ? 'You already have a view with this name' : 'Failed to save view');
+      return null;
+    }
+
+    console.log('View saved successfully:', data);
+    toast.success('View saved');
+    return transformDbSavedView(data);
+  } catch (error) {
+    console.error('Failed to save view:', error);
+    toast.error('Failed to save view');
+    return null;
+  }
+};
+
+export const deleteSavedView = async (id: string): Promise<boolean> => {
+  try {
+    console.log('Deleting saved view:', id);
+    const { error } = await supabase
+      .from('saved_views')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting saved view:', error.message);
+      toast.error('Failed to delete view');
+      return false;
+    }
+
+    console.log('Saved view deleted successfully');
+    toast.success('View deleted');
+    return true;
+  } catch (error) {
+    console.error('Failed to delete saved view:', error);
+    toast.error('Failed to delete view');
+    return false;
+  }
+};
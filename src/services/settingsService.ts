@@ -0,0 +1,77 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+
+// Known keys in the settings table, with the value used when a row is missing.
+// Settings are per company; row level security returns the selected company's.
+export const SETTING_DEFAULTS = {
+  lr_prefix: "LR",
+  invoice_prefix: "INV",
+  company_gstin: "",
+  company_address: "",
+  company_phone: "",
+  company_email: "",
+  trash_retention_days: "30", // Read by purge_trashed_entries() in the database
+  // Names as they are in the accountant's Tally company, used by the Tally XML export
+  tally_company_name: "", // Blank means the company name above
+  tally_party_group: "Sundry Debtors",
+  tally_sales_ledger: "Freight Income",
+  tally_cash_ledger: "Cash",
+  tally_bank_ledger: "Bank Account", // Receipts by bank transfer, cheque and UPI
+  tally_cgst_ledger: "Output CGST",
+  tally_sgst_ledger: "Output SGST",
+  tally_igst_ledger: "Output IGST",
+};
+
+export type Settings = typeof SETTING_DEFAULTS;
+
+export type SettingKey = keyof Settings;
+
+export const fetchSettings = async (): Promise<Settings> => {
+  try {
+    const { data, error } = await supabase
+      .from('settings')
+      .select('key, value');
+
+    if (error) {
+      console.error('Error fetching settings:', error.message);
+      return { ...SETTING_DEFAULTS };
+    }
+
+    const settings = { ...SETTING_DEFAULTS };
+    (data || []).forEach(({ key, value }) => {
+      if (key in settings && value !== null) {
+        settings[key as SettingKey] = value as string;
+      }
+    });
+    return settings;
+  } catch (error) {
+    console.error('Failed to fetch settings:', error);
+    return { ...SETTING_DEFAULTS };
+  }
+};
+
+export const saveSettings = async (settings: Partial<Settings>): Promise<boolean> => {
+  try {
+    console.log('Saving settings:', settings);
+    const updatedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('settings')
+      .upsert(
+        Object.entries(settings).map(([key, value]) => ({ key, value: value as Json, updated_at: updatedAt })),
+        { onConflict: 'company_id,key' }
+      );
+
+    if (error) {
+      console.error('Error saving settings:', error.message);
+      toast.error('Failed to save settings');
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Failed to save settings:', error);
+    toast.error('Failed to save settings');
+    return false;
+  }
+};
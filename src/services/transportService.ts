@@ -1,110 +1,795 @@
 
 import { supabase } from "@/integrations/supabase/client";
-import { TransportEntry } from "@/types/transport";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  EntryFilters,
+  EntryPage,
+  EntryQuery,
+  EntrySortKey,
+  EntrySummary,
+  ExpenseCategory,
+  Payment,
+  PaymentMode,
+  SortOrder,
+  TransportEntry,
+  TripExpense,
+} from "@/types/transport";
+import { EntryConflict, PendingOperation, PendingOperationKind, SyncOutcome } from "@/types/sync";
+import { EntryImportResult } from "@/types/import";
+import { deriveBalanceStatus } from "@/lib/payments";
+import { getDefaultChoices, hasConflictingChanges, mergeEntries } from "@/lib/entryConflicts";
+import { applyEntryQuery, getEntrySummary, matchesEntryFilters } from "@/lib/entryQuery";
+import {
+  addPendingOperation,
+  cacheEntries,
+  getCachedEntries,
+  getPendingOperations,
+  putPendingOperation,
+  removePendingOperation,
+} from "@/lib/offlineStore";
+import { ENTRY_SYNC_TAG, requestBackgroundSync } from "@/lib/pwa";
+import { normalizeRegistrationNumber } from "@/services/vehicleService";
+import { v4 as uuidv4 } from "uuid";
+import { endOfDay, startOfDay, startOfMonth, subDays } from "date-fns";
 import { toast } from "sonner";
 
+const ENTRY_SELECT = '*, payments(*), expenses:trip_expenses(*), driver:drivers(name), invoice_line:invoice_lines(invoice:invoices(invoice_number))';
+
 // Transform date objects for Supabase (Date objects to ISO strings)
+// Advance and balance fields are not written: they live in the payments ledger
 const prepareEntryForDb = (entry: TransportEntry) => {
   console.log('Preparing entry for database:', entry);
   return {
-    ...entry,
+    id: entry.id,
     date: entry.date instanceof Date ? entry.date.toISOString() : entry.date,
-    advance_date: entry.advanceDate instanceof Date ? entry.advanceDate.toISOString() : entry.advanceDate,
-    balance_date: entry.balanceDate instanceof Date ? entry.balanceDate.toISOString() : entry.balanceDate,
+    place: entry.place,
     // Map to DB column names
     vehicle_number: entry.vehicleNumber,
-    driver_name: entry.weight, // Use driver_name column for weight
+    weight: entry.weight,
+    weight_unit: entry.weightUnit,
+    rate_per_unit: entry.ratePerUnit,
+    driver_id: entry.driverId,
     driver_mobile: entry.driverMobile,
+    party_id: entry.partyId,
     transport_name: entry.transportName,
     rent_amount: entry.rentAmount,
-    advance_amount: entry.advanceAmount,
-    advance_type: entry.advanceType,
-    balance_status: entry.balanceStatus,
-    // Remove JavaScript properties that don't exist in the DB
-    vehicleNumber: undefined,
-    weight: undefined, // Changed from driverName
-    driverMobile: undefined,
-    transportName: undefined,
-    rentAmount: undefined,
-    advanceAmount: undefined,
-    advanceDate: undefined,
-    advanceType: undefined,
-    balanceStatus: undefined,
-    balanceDate: undefined
   };
 };
 
+const preparePaymentForDb = (payment: Omit<Payment, 'id'>) => ({
+  entry_id: payment.entryId,
+  amount: payment.amount,
+  date: payment.date instanceof Date ? payment.date.toISOString() : payment.date,
+  mode: payment.mode,
+  reference_number: payment.referenceNumber || null,
+});
+
+const transformDbPayment = (payment: Tables<'payments'>): Payment => ({
+  id: payment.id,
+  entryId: payment.entry_id,
+  amount: Number(payment.amount) || 0,
+  date: payment.date ? new Date(payment.date) : new Date(),
+  mode: (payment.mode as PaymentMode) || "Cash",
+  referenceNumber: payment.reference_number || "",
+});
+
+const prepareExpenseForDb = (expense: Omit<TripExpense, 'id'>) => ({
+  entry_id: expense.entryId,
+  category: expense.category,
+  amount: expense.amount,
+  date: expense.date instanceof Date ? expense.date.toISOString() : expense.date,
+  mode: expense.mode,
+  note: expense.note || null,
+});
+
+const transformDbExpense = (expense: Tables<'trip_expenses'>): TripExpense => ({
+  id: expense.id,
+  entryId: expense.entry_id,
+  category: (expense.category as ExpenseCategory) || "Other",
+  amount: Number(expense.amount) || 0,
+  date: expense.date ? new Date(expense.date) : new Date(),
+  mode: (expense.mode as PaymentMode) || "Cash",
+  note: expense.note || "",
+});
+
 // Transform Supabase data to our app's format (ISO strings to Date objects)
 const transformDbEntry = (entry: any): TransportEntry => {
   console.log('Transforming DB entry:', entry);
+  const rentAmount = Number(entry.rent_amount) || 0;
+  const payments: Payment[] = (entry.payments || [])
+    .map(transformDbPayment)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  const advance = payments[0];
+  const balanceStatus = deriveBalanceStatus(rentAmount, payments);
+
   return {
     id: entry.id,
     date: entry.date ? new Date(entry.date) : new Date(),
     vehicleNumber: entry.vehicle_number || "",
-    weight: entry.driver_name || "", // Use driver_name field for weight
+    weight: entry.weight !== null && entry.weight !== undefined ? Number(entry.weight) : null,
+    weightUnit: entry.weight_unit || "ton",
+    ratePerUnit: entry.rate_per_unit !== null && entry.rate_per_unit !== undefined ? Number(entry.rate_per_unit) : null,
+    driverId: entry.driver_id || null,
+    driverName: entry.driver?.name || "",
     driverMobile: entry.driver_mobile || "",
     place: entry.place || "",
+    partyId: entry.party_id || null,
     transportName: entry.transport_name || "",
-    rentAmount: Number(entry.rent_amount) || 0,
-    advanceAmount: entry.advance_amount ? Number(entry.advance_amount) : null,
-    advanceDate: entry.advance_date ? new Date(entry.advance_date) : null,
-    advanceType: entry.advance_type || "Cash",
-    balanceStatus: entry.balance_status || "Pending",
-    balanceDate: entry.balance_date ? new Date(entry.balance_date) : null,
+    rentAmount,
+    advanceAmount: advance ? advance.amount : null,
+    advanceDate: advance ? advance.date : null,
+    advanceType: advance ? advance.mode : "Cash",
+    balanceStatus,
+    balanceDate: balanceStatus === "PAID" ? payments[payments.length - 1].date : null,
+    payments,
+    expenses: (entry.expenses || [])
+      .map(transformDbExpense)
+      .sort((a, b) => a.date.getTime() - b.date.getTime()),
+    invoiceNumber: entry.invoice_line?.invoice?.invoice_number || null,
+    createdAt: entry.created_at ? new Date(entry.created_at) : null,
+    deletedAt: entry.deleted_at ? new Date(entry.deleted_at) : null,
+    version: Number(entry.version) || 1,
+    pendingSync: false,
+    syncConflict: false,
   };
 };
 
+// Supabase reports a dropped connection as an error carrying the fetch failure message
+const isNetworkError = (error: { message?: string } | null) =>
+  !navigator.onLine || /Failed to fetch|NetworkError|Load failed/i.test(error?.message || '');
+
+const getCurrentUserId = async () => {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+};
+
+// Oldest first; another user's changes wait until they sign in on this device again
+const getOwnPendingOperations = async (): Promise<PendingOperation[]> => {
+  const userId = await getCurrentUserId();
+  const operations = await getPendingOperations();
+  return operations
+    .filter((operation) => operation.userId === userId)
+    .sort((a, b) => a.seq - b.seq);
+};
+
+export const countPendingOperations = async (): Promise<number> =>
+  (await getOwnPendingOperations()).length;
+
+// Shows entries as they will be once the queued changes reach the server
+const applyPendingOperations = (entries: TransportEntry[], operations: PendingOperation[]) => {
+  let result = [...entries];
+  operations.forEach((operation) => {
+    result = result.filter((entry) => entry.id !== operation.entryId);
+    if (operation.entry) {
+      result.push({ ...operation.entry, pendingSync: true, syncConflict: !!operation.conflict });
+    }
+  });
+  return result.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+};
+
+// Queue reads and writes run one at a time, so a change folded into a queued
+// insert can never race the sync that is sending that insert
+let queueLock: Promise<unknown> = Promise.resolve();
+
+const withQueueLock = <T,>(task: () => Promise<T>): Promise<T> => {
+  const run = queueLock.then(task);
+  queueLock = run.catch(() => undefined);
+  return run;
+};
+
+// Folds a change into what is already queued for the entry: an entry created
+// offline and then edited is sent as one insert, and one created and deleted
+// offline is never sent at all. Returns the queue position, or null when
+// nothing is left to send.
+const queueOperation = async (
+  kind: PendingOperationKind,
+  entryId: string,
+  entry: TransportEntry | null
+): Promise<number | null> => {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    throw new Error('Cannot save changes without a signed-in user');
+  }
+
+  const queued = (await getOwnPendingOperations()).filter((operation) => operation.entryId === entryId);
+  const queuedCreate = queued.find((operation) => operation.kind === 'create');
+  const queuedUpdate = queued.filter((operation) => operation.kind === 'update').pop();
+
+  if (kind === 'delete' && queuedCreate) {
+    await Promise.all(queued.map((operation) => removePendingOperation(operation.seq)));
+    return null;
+  }
+
+  const target = kind === 'update' ? queuedCreate || queuedUpdate : undefined;
+  if (target) {
+    await putPendingOperation({ ...target, entry });
+    return target.seq;
+  }
+
+  // The copy fetched before the edit began, if it is still the one the edit was made on
+  const cached = kind === 'update' ? (await getCachedEntries()).find((cachedEntry) => cachedEntry.id === entryId) : undefined;
+
+  return addPendingOperation({
+    kind,
+    entryId,
+    userId,
+    entry,
+    advancePaymentId: kind === 'create' ? uuidv4() : null,
+    base: cached && cached.version === entry?.version ? cached : null,
+    conflict: null,
+    queuedAt: new Date(),
+  });
+};
+
+type OperationError = { code: string; message: string };
+
+type OperationResult =
+  | { status: 'applied' }
+  | { status: 'failed'; error: OperationError }
+  | { status: 'conflict'; theirs: TransportEntry };
+
+// Writes an edit only while the row still has the version the edit started
+// from. When someone saved in between and the two edits touched different
+// fields, they are combined and written once more without asking.
+const applyUpdate = async (operation: PendingOperation): Promise<OperationResult> => {
+  let mine = operation.entry as TransportEntry;
+  let theirs: TransportEntry | null = null;
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { id, ...updateData } = prepareEntryForDb(mine);
+    const { data, error } = await supabase
+      .from('transport_entries')
+      .update(updateData)
+      .eq('id', operation.entryId)
+      .eq('version', mine.version)
+      .select('id');
+
+    if (error) {
+      return { status: 'failed', error };
+    }
+    if (data && data.length > 0) {
+      return { status: 'applied' };
+    }
+
+    const { data: current, error: currentError } = await supabase
+      .from('transport_entries')
+      .select(ENTRY_SELECT)
+      .eq('id', operation.entryId)
+      .maybeSingle();
+
+    if (currentError) {
+      return { status: 'failed', error: currentError };
+    }
+    // Purged, or hidden from this user by row level security
+    if (!current || current.version === mine.version) {
+      return { status: 'failed', error: { code: 'PGRST116', message: 'Entry not found' } };
+    }
+
+    theirs = transformDbEntry(current);
+    if (hasConflictingChanges(mine, theirs, operation.base)) {
+      return { status: 'conflict', theirs };
+    }
+    mine = mergeEntries(mine, theirs, getDefaultChoices(mine, theirs, operation.base));
+  }
+
+  return { status: 'conflict', theirs: theirs as TransportEntry };
+};
+
+// Sends one queued change. Inserts use the id made on this device, so a replay
+// after a lost response finds the rows already there (23505) and moves on.
+const applyOperation = async (operation: PendingOperation): Promise<OperationResult> => {
+  try {
+    if (operation.kind === 'delete') {
+      const { error } = await supabase
+        .from('transport_entries')
+        .update({ deleted_at: new Date(operation.queuedAt).toISOString() })
+        .eq('id', operation.entryId);
+      return error ? { status: 'failed', error } : { status: 'applied' };
+    }
+
+    if (operation.kind === 'update') {
+      return await applyUpdate(operation);
+    }
+
+    const entry = operation.entry as TransportEntry;
+    const preparedEntry = prepareEntryForDb(entry);
+
+    const { error } = await supabase
+      .from('transport_entries')
+      .insert(preparedEntry);
+
+    if (error && error.code !== '23505') {
+      return { status: 'failed', error };
+    }
+
+    // The advance taken at loading becomes the first payment in the ledger
+    if (entry.advanceAmount && entry.advanceAmount > 0) {
+      const { error: paymentError } = await supabase
+        .from('payments')
+        .insert({
+          id: operation.advancePaymentId ?? undefined,
+          ...preparePaymentForDb({
+            entryId: entry.id,
+            amount: entry.advanceAmount,
+            date: entry.advanceDate || entry.date,
+            mode: entry.advanceType,
+            referenceNumber: "",
+          }),
+        });
+
+      if (paymentError && paymentError.code !== '23505') {
+        if (isNetworkError(paymentError)) {
+          return { status: 'failed', error: paymentError };
+        }
+        console.error('Error recording advance payment:', paymentError.message);
+        toast.error('Entry created, but the advance payment was not recorded');
+      }
+    }
+
+    return { status: 'applied' };
+  } catch (error) {
+    return { status: 'failed', error: { code: '', message: error instanceof Error ? error.message : String(error) } };
+  }
+};
+
+const REJECTED_MESSAGES: Record<PendingOperationKind, { fallback: string; messages: Record<string, string> }> = {
+  create: {
+    fallback: 'Failed to create entry',
+    messages: {},
+  },
+  update: {
+    fallback: 'Failed to update entry',
+    messages: {
+      P0001: 'This entry is invoiced and can no longer be edited',
+      '42501': 'Only the owner or an accountant can change amounts after 24 hours',
+      PGRST116: 'This entry was deleted or you can no longer edit it',
+    },
+  },
+  delete: {
+    fallback: 'Failed to delete entry',
+    messages: {
+      // Lorry receipts and invoice lines keep their entry, so issued numbers never leave gaps
+      '23503': 'This entry has a lorry receipt or invoice and cannot be deleted',
+      '42501': 'Only the owner can delete entries',
+    },
+  },
+};
+
+const reportRejectedOperation = (operation: PendingOperation, error: OperationError) => {
+  console.error(`Error syncing ${operation.kind} of entry ${operation.entryId}:`, error.message);
+  const { fallback, messages } = REJECTED_MESSAGES[operation.kind];
+  toast.error(messages[error.code] || fallback, {
+    description: operation.entry?.vehicleNumber ? `Vehicle ${operation.entry.vehicleNumber}` : undefined,
+  });
+};
+
+// Sends queued changes in the order they were made. The first network failure
+// stops the run, so a later change never reaches the server before an earlier
+// one; a change the server refuses is dropped with the same message as online.
+// An edit that lost to someone else's save stays queued, holding back any later
+// change to that entry, until it is merged on the edit page.
+const replayPendingOperations = async (): Promise<Map<number, SyncOutcome>> => {
+  const outcomes = new Map<number, SyncOutcome>();
+  const operations = await getOwnPendingOperations();
+  const conflictedEntries = new Set(
+    operations.filter((operation) => operation.conflict).map((operation) => operation.entryId)
+  );
+
+  for (const [index, operation] of operations.entries()) {
+    if (conflictedEntries.has(operation.entryId)) {
+      outcomes.set(operation.seq, operation.conflict ? 'conflict' : 'queued');
+      continue;
+    }
+
+    const result: OperationResult = navigator.onLine
+      ? await applyOperation(operation)
+      : { status: 'failed', error: { code: '', message: 'Offline' } };
+
+    if (result.status === 'failed' && isNetworkError(result.error)) {
+      operations.slice(index).forEach((pending) => outcomes.set(pending.seq, 'queued'));
+      requestBackgroundSync(ENTRY_SYNC_TAG);
+      break;
+    }
+
+    if (result.status === 'conflict') {
+      await putPendingOperation({ ...operation, conflict: result.theirs });
+      conflictedEntries.add(operation.entryId);
+      toast.error('Someone else saved this entry first. Open it to merge your changes', {
+        description: operation.entry?.vehicleNumber ? `Vehicle ${operation.entry.vehicleNumber}` : undefined,
+      });
+      outcomes.set(operation.seq, 'conflict');
+      continue;
+    }
+
+    await removePendingOperation(operation.seq);
+    if (result.status === 'failed') {
+      reportRejectedOperation(operation, result.error);
+      outcomes.set(operation.seq, 'rejected');
+    } else {
+      outcomes.set(operation.seq, 'applied');
+    }
+  }
+
+  return outcomes;
+};
+
+export const syncPendingOperations = (): Promise<Map<number, SyncOutcome>> =>
+  withQueueLock(replayPendingOperations);
+
+export const countSyncConflicts = async (): Promise<number> =>
+  (await getOwnPendingOperations()).filter((operation) => operation.conflict).length;
+
+export const fetchSyncConflict = async (entryId: string): Promise<EntryConflict | null> => {
+  const operation = (await getOwnPendingOperations())
+    .find((pending) => pending.entryId === entryId && pending.conflict);
+  if (!operation?.entry || !operation.conflict) return null;
+  return { mine: operation.entry, theirs: operation.conflict, base: operation.base };
+};
+
+// Saves the merge picked on the edit page, or with null keeps their version and
+// drops the edit. The merge starts from their version, so it becomes the base.
+export const resolveSyncConflict = async (entryId: string, merged: TransportEntry | null): Promise<boolean> => {
+  try {
+    console.log('Resolving sync conflict for entry:', entryId);
+    const outcome = await withQueueLock(async (): Promise<SyncOutcome> => {
+      const operation = (await getOwnPendingOperations())
+        .find((pending) => pending.entryId === entryId && pending.conflict);
+      if (!operation) {
+        return 'applied';
+      }
+      if (!merged) {
+        await removePendingOperation(operation.seq);
+        return 'applied';
+      }
+      await putPendingOperation({ ...operation, entry: merged, base: operation.conflict, conflict: null });
+      return (await replayPendingOperations()).get(operation.seq) ?? 'applied';
+    });
+
+    if (outcome === 'rejected' || outcome === 'conflict') {
+      return false;
+    }
+
+    if (outcome === 'queued') {
+      toast.success('Saved offline. The change will sync when you are back online');
+      return true;
+    }
+
+    toast.success(merged ? 'Entry updated successfully' : 'Kept the saved version of the entry');
+    return true;
+  } catch (error) {
+    console.error('Failed to resolve sync conflict:', error);
+    toast.error('Failed to update entry');
+    return false;
+  }
+};
+
+// Every entry change goes through the queue: it is saved on this device first,
+// then sent with anything still waiting. 'queued' means it reaches the server
+// once the connection is back.
+const saveEntryChange = (
+  kind: PendingOperationKind,
+  entryId: string,
+  entry: TransportEntry | null
+): Promise<SyncOutcome> =>
+  withQueueLock(async () => {
+    const seq = await queueOperation(kind, entryId, entry);
+    if (seq === null) {
+      return 'applied';
+    }
+    const outcomes = await replayPendingOperations();
+    return outcomes.get(seq) ?? 'applied';
+  });
+
+// Every entry, for the reports, read in batches because PostgREST caps a response
+// at 1000 rows. A copy is kept on this device and shown when offline; changes
+// still waiting to sync are laid over either.
 export const fetchTransportEntries = async (): Promise<TransportEntry[]> => {
+  const batchSize = 1000;
+  const entries: TransportEntry[] = [];
   try {
     console.log('Fetching transport entries from Supabase...');
-    
-    const { data, error } = await supabase
-      .from('transport_entries')
-      .select('*')
-      .order('date', { ascending: false });
+
+    for (let from = 0; ; from += batchSize) {
+      const { data, error } = await supabase
+        .from('transport_entries')
+        .select(ENTRY_SELECT)
+        .is('deleted_at', null)
+        .order('date', { ascending: false })
+        .order('id')
+        .range(from, from + batchSize - 1);
+
+      if (error && isNetworkError(error)) {
+        console.log('Offline, showing entries saved on this device');
+        return applyPendingOperations(await getCachedEntries(), await getOwnPendingOperations());
+      }
+
+      if (error) {
+        console.error('Error fetching entries:', error.message);
+        toast.error('Failed to load entries');
+        throw error;
+      }
+
+      entries.push(...(data || []).map(entry => transformDbEntry(entry)));
+      if (!data || data.length < batchSize) break;
+    }
+
+    console.log(`Successfully fetched ${entries.length} entries`);
+
+    await cacheEntries(entries).catch((cacheError) => console.error('Failed to cache entries:', cacheError));
+    return applyPendingOperations(entries, await getOwnPendingOperations());
+  } catch (error) {
+    console.error('Failed to fetch entries:', error);
+    toast.error('Failed to load entries');
+    return [];
+  }
+};
+
+const SORT_COLUMNS: Record<EntrySortKey, string> = {
+  date: 'date',
+  amount: 'rent_amount',
+  balance: 'outstanding_amount',
+};
+
+// Quotes a value for PostgREST's or=() syntax, where commas and brackets separate conditions
+const quoteFilterValue = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+// Typed % and _ are searched for as themselves, not as ilike wildcards
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+// Runs the filtered, sorted select behind the entries table for rows from..to.
+// The search box matches vehicle, party and place on the entry, and drivers by name.
+const selectMatchingEntries = async (
+  filters: EntryFilters,
+  sortBy: EntrySortKey,
+  sortOrder: SortOrder,
+  from: number,
+  to: number
+) => {
+  let request = supabase
+    .from('transport_entries')
+    .select(ENTRY_SELECT, { count: 'exact' })
+    .is('deleted_at', null);
+
+  const search = filters.search.trim();
+  if (search) {
+    const likePattern = `%${escapeLikePattern(search)}%`;
+    const pattern = quoteFilterValue(likePattern);
+    const conditions = [
+      `vehicle_number.ilike.${pattern}`,
+      `place.ilike.${pattern}`,
+      `transport_name.ilike.${pattern}`,
+    ];
+    const { data: drivers } = await supabase
+      .from('drivers')
+      .select('id')
+      .ilike('name', likePattern);
+    if (drivers && drivers.length > 0) {
+      conditions.push(`driver_id.in.(${drivers.map((driver) => driver.id).join(',')})`);
+    }
+    request = request.or(conditions.join(','));
+  }
+  if (filters.status !== 'ALL') {
+    request = request.eq('balance_status', filters.status);
+  }
+  if (filters.dateFrom) {
+    request = request.gte('date', startOfDay(filters.dateFrom).toISOString());
+  }
+  if (filters.dateTo) {
+    request = request.lte('date', endOfDay(filters.dateTo).toISOString());
+  }
+  if (filters.partyId) {
+    request = request.eq('party_id', filters.partyId);
+  }
+  if (filters.vehicleNumber) {
+    request = request.eq('vehicle_key', normalizeRegistrationNumber(filters.vehicleNumber));
+  }
+  if (filters.minAgeDays) {
+    request = request.lt('date', startOfDay(subDays(new Date(), filters.minAgeDays)).toISOString());
+  }
+
+  // id breaks ties so rows never swap between pages
+  return request
+    .order(SORT_COLUMNS[sortBy], { ascending: sortOrder === 'asc' })
+    .order('id')
+    .range(from, to);
+};
+
+// Queued changes shown on the page they belong to: edits replace their row,
+// deletes drop it, and new entries that match open the first page
+const applyPendingOperationsToPage = (page: EntryPage, operations: PendingOperation[], query: EntryQuery): EntryPage => {
+  if (operations.length === 0) return page;
+
+  const pending = applyPendingOperations([], operations);
+  const created = pending.filter((entry) =>
+    operations.some((operation) => operation.kind === 'create' && operation.entryId === entry.id) &&
+    matchesEntryFilters(entry, query)
+  );
+  const removed = new Set(operations.filter((operation) => operation.kind === 'delete').map((operation) => operation.entryId));
+  const entries = page.entries
+    .filter((entry) => !removed.has(entry.id))
+    .map((entry) => pending.find((pendingEntry) => pendingEntry.id === entry.id) || entry);
+
+  return {
+    entries: query.page === 1 ? [...created, ...entries] : entries,
+    total: page.total + created.length,
+  };
+};
+
+// One page of the entries table, with the number of matching entries for the pager.
+// Offline, the copy on this device is filtered and paged the same way instead.
+export const queryTransportEntries = async (query: EntryQuery): Promise<EntryPage> => {
+  try {
+    console.log('Querying transport entries:', query);
+    const from = (query.page - 1) * query.pageSize;
+    const { data, error, count } = await selectMatchingEntries(
+      query,
+      query.sortBy,
+      query.sortOrder,
+      from,
+      from + query.pageSize - 1
+    );
+
+    if (error && isNetworkError(error)) {
+      console.log('Offline, paging entries saved on this device');
+      const operations = await getOwnPendingOperations();
+      return applyEntryQuery(applyPendingOperations(await getCachedEntries(), operations), query);
+    }
 
     if (error) {
-      console.error('Error fetching entries:', error.message);
+      console.error('Error querying entries:', error.message);
       toast.error('Failed to load entries');
       throw error;
     }
 
-    if (!data || data.length === 0) {
-      console.log('No entries found in database');
-      return [];
-    }
+    const entries = (data || []).map(entry => transformDbEntry(entry));
+    console.log(`Fetched ${entries.length} of ${count} matching entries`);
+    return applyPendingOperationsToPage({ entries, total: count ?? entries.length }, await getOwnPendingOperations(), query);
+  } catch (error) {
+    console.error('Failed to query entries:', error);
+    toast.error('Failed to load entries');
+    return { entries: [], total: 0 };
+  }
+};
 
-    console.log(`Successfully fetched ${data.length} entries`);
-    
-    return data.map(entry => transformDbEntry(entry));
+// Every entry matching the table's filters, in its order, for exports. Read in
+// batches because Supabase caps a single response at 1000 rows.
+export const fetchMatchingEntries = async (
+  filters: EntryFilters,
+  sortBy: EntrySortKey,
+  sortOrder: SortOrder
+): Promise<TransportEntry[]> => {
+  const batchSize = 1000;
+  const entries: TransportEntry[] = [];
+  try {
+    console.log('Fetching all matching entries:', filters);
+    for (let from = 0; ; from += batchSize) {
+      const { data, error } = await selectMatchingEntries(filters, sortBy, sortOrder, from, from + batchSize - 1);
+
+      if (error && isNetworkError(error)) {
+        const cached = applyPendingOperations(await getCachedEntries(), await getOwnPendingOperations());
+        return applyEntryQuery(cached, { ...filters, sortBy, sortOrder, page: 1, pageSize: cached.length }).entries;
+      }
+
+      if (error) {
+        console.error('Error fetching matching entries:', error.message);
+        throw error;
+      }
+
+      entries.push(...(data || []).map(entry => transformDbEntry(entry)));
+      if (!data || data.length < batchSize) break;
+    }
+    return entries;
   } catch (error) {
-    console.error('Failed to fetch entries:', error);
+    console.error('Failed to fetch matching entries:', error);
     toast.error('Failed to load entries');
     return [];
   }
 };
 
-export const createTransportEntry = async (entry: TransportEntry): Promise<TransportEntry | null> => {
+// Totals for the cards above the entries table
+export const fetchEntrySummary = async (): Promise<EntrySummary> => {
   try {
-    console.log('Creating transport entry:', entry);
-    const { id, ...entryData } = entry;
-    const preparedEntry = prepareEntryForDb(entryData as TransportEntry);
-    
+    console.log('Fetching entry summary...');
+    const { data, error } = await supabase.rpc('entry_list_summary', {
+      month_start: startOfMonth(new Date()).toISOString(),
+    });
+
+    if (error && isNetworkError(error)) {
+      return getEntrySummary(await getCachedEntries());
+    }
+
+    if (error) {
+      console.error('Error fetching entry summary:', error.message);
+      throw error;
+    }
+
+    const summary = data?.[0];
+    return {
+      totalEntries: Number(summary?.total_entries) || 0,
+      unpaidEntries: Number(summary?.unpaid_entries) || 0,
+      thisMonthEntries: Number(summary?.this_month_entries) || 0,
+      outstandingAmount: Number(summary?.outstanding_amount) || 0,
+    };
+  } catch (error) {
+    console.error('Failed to fetch entry summary:', error);
+    return getEntrySummary([]);
+  }
+};
+
+// One entry as the list shows it, for patching the list when it changes elsewhere
+export const fetchTransportEntry = async (id: string): Promise<TransportEntry | null> => {
+  try {
+    console.log('Fetching transport entry:', id);
     const { data, error } = await supabase
       .from('transport_entries')
-      .insert(preparedEntry)
-      .select()
-      .single();
+      .select(ENTRY_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error && isNetworkError(error)) {
+      const cached = applyPendingOperations(await getCachedEntries(), await getOwnPendingOperations());
+      return cached.find((entry) => entry.id === id) ?? null;
+    }
+
+    if (error) {
+      console.error('Error fetching entry:', error.message);
+      throw error;
+    }
+
+    // With this user's queued edits applied, as in the list
+    const pending = applyPendingOperations(data ? [transformDbEntry(data)] : [], await getOwnPendingOperations());
+    return pending.find((entry) => entry.id === id) ?? null;
+  } catch (error) {
+    console.error('Failed to fetch entry:', error);
+    return null;
+  }
+};
+
+// Entries in the trash, most recently deleted first
+export const fetchTrashedEntries = async (): Promise<TransportEntry[]> => {
+  try {
+    console.log('Fetching trashed entries...');
+    const { data, error } = await supabase
+      .from('transport_entries')
+      .select('*, payments(*), expenses:trip_expenses(*), driver:drivers(name)')
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false });
 
     if (error) {
-      console.error('Error creating entry:', error.message);
-      toast.error('Failed to create entry');
+      console.error('Error fetching trashed entries:', error.message);
+      toast.error('Failed to load trash');
+      throw error;
+    }
+
+    return (data || []).map(entry => transformDbEntry(entry));
+  } catch (error) {
+    console.error('Failed to fetch trashed entries:', error);
+    toast.error('Failed to load trash');
+    return [];
+  }
+};
+
+// Creates, updates and deletes of entries, payments and expenses are recorded in
+// audit_log by database trigger, with the signed-in user and the changed fields
+export const createTransportEntry = async (entry: TransportEntry): Promise<TransportEntry | null> => {
+  try {
+    console.log('Creating transport entry:', entry);
+    // Stands in for the server timestamp until the entry syncs, so the clerk edit window applies offline too
+    const localEntry = { ...entry, createdAt: entry.createdAt || new Date() };
+    const outcome = await saveEntryChange('create', entry.id, localEntry);
+
+    if (outcome === 'rejected') {
       return null;
     }
 
-    console.log('Entry created successfully:', data);
+    if (outcome === 'queued') {
+      toast.success('Saved offline. The entry will sync when you are back online');
+      return { ...localEntry, pendingSync: true };
+    }
+
+    console.log('Entry created successfully:', entry.id);
     toast.success('Entry created successfully');
-    return transformDbEntry(data);
+    return localEntry;
   } catch (error) {
     console.error('Failed to create entry:', error);
     toast.error('Failed to create entry');
@@ -112,53 +797,313 @@ export const createTransportEntry = async (entry: TransportEntry): Promise<Trans
   }
 };
 
-export const updateTransportEntry = async (entry: TransportEntry): Promise<boolean> => {
+// Historical trips from the import wizard. These go straight to the server in
+// batches rather than through the offline queue; a batch the database refuses
+// is skipped whole and reported back by entry id.
+export const importTransportEntries = async (
+  entries: TransportEntry[],
+  onProgress?: (done: number) => void
+): Promise<EntryImportResult> => {
+  const batchSize = 200;
+  const result: EntryImportResult = { imported: 0, failedIds: [] };
+  console.log('Importing transport entries:', entries.length);
+
+  for (let from = 0; from < entries.length; from += batchSize) {
+    const batch = entries.slice(from, from + batchSize);
+    try {
+      const { error } = await supabase
+        .from('transport_entries')
+        .insert(batch.map(prepareEntryForDb));
+
+      if (error) {
+        console.error('Error importing entries:', error.message);
+        result.failedIds.push(...batch.map(entry => entry.id));
+        continue;
+      }
+
+      result.imported += batch.length;
+
+      const advances = batch
+        .filter(entry => entry.advanceAmount && entry.advanceAmount > 0)
+        .map(entry => preparePaymentForDb({
+          entryId: entry.id,
+          amount: entry.advanceAmount as number,
+          date: entry.advanceDate || entry.date,
+          mode: entry.advanceType,
+          referenceNumber: "",
+        }));
+
+      if (advances.length > 0) {
+        const { error: paymentError } = await supabase
+          .from('payments')
+          .insert(advances);
+
+        if (paymentError) {
+          console.error('Error recording imported advances:', paymentError.message);
+          toast.error('Some entries were imported without their advance payments');
+        }
+      }
+    } catch (error) {
+      console.error('Failed to import entries:', error);
+      result.failedIds.push(...batch.map(entry => entry.id));
+    } finally {
+      onProgress?.(Math.min(from + batchSize, entries.length));
+    }
+  }
+
+  if (result.imported > 0) {
+    toast.success(`Imported ${result.imported} entries`);
+  }
+  if (result.failedIds.length > 0) {
+    toast.error(`${result.failedIds.length} entries could not be imported`);
+  }
+  return result;
+};
+
+// The outcome tells a failed save from one that lost to someone else's edit,
+// which is reported by the sync and merged on the edit page
+export const updateTransportEntry = async (entry: TransportEntry): Promise<SyncOutcome> => {
   try {
     console.log('Updating transport entry:', entry);
-    const preparedEntry = prepareEntryForDb(entry);
-    const { id, ...updateData } = preparedEntry;
+    const outcome = await saveEntryChange('update', entry.id, entry);
+
+    if (outcome === 'queued') {
+      toast.success('Saved offline. The change will sync when you are back online');
+    } else if (outcome === 'applied') {
+      console.log('Entry updated successfully');
+      toast.success('Entry updated successfully');
+    }
+    return outcome;
+  } catch (error) {
+    console.error('Failed to update entry:', error);
+    toast.error('Failed to update entry');
+    return 'rejected';
+  }
+};
+
+// Moves the entry to the trash; purgeTransportEntry removes it for good
+export const deleteTransportEntry = async (id: string): Promise<boolean> => {
+  try {
+    console.log('Moving transport entry to trash:', id);
+    const outcome = await saveEntryChange('delete', id, null);
+
+    if (outcome === 'rejected') {
+      return false;
+    }
+
+    if (outcome === 'queued') {
+      toast.success('Deleted offline. The entry moves to the trash when you are back online');
+      return true;
+    }
 
+    console.log('Entry moved to trash');
+    toast.success('Entry moved to trash');
+    return true;
+  } catch (error) {
+    console.error('Failed to delete entry:', error);
+    toast.error('Failed to delete entry');
+    return false;
+  }
+};
+
+export const restoreTransportEntry = async (id: string): Promise<boolean> => {
+  try {
+    console.log('Restoring transport entry:', id);
     const { error } = await supabase
       .from('transport_entries')
-      .update(updateData)
-      .eq('id', entry.id);
+      .update({ deleted_at: null })
+      .eq('id', id);
 
     if (error) {
-      console.error('Error updating entry:', error.message);
-      toast.error('Failed to update entry');
+      console.error('Error restoring entry:', error.message);
+      toast.error(error.code === '42501' ? 'Only the owner can restore entries' : 'Failed to restore entry');
       return false;
     }
 
-    console.log('Entry updated successfully');
-    toast.success('Entry updated successfully');
+    console.log('Entry restored successfully');
+    toast.success('Entry restored successfully');
     return true;
   } catch (error) {
-    console.error('Failed to update entry:', error);
-    toast.error('Failed to update entry');
+    console.error('Failed to restore entry:', error);
+    toast.error('Failed to restore entry');
     return false;
   }
 };
 
-export const deleteTransportEntry = async (id: string): Promise<boolean> => {
+// Permanently deletes a trashed entry with its payments and expenses
+export const purgeTransportEntry = async (id: string): Promise<boolean> => {
   try {
-    console.log('Deleting transport entry:', id);
-    const { error } = await supabase
+    console.log('Purging transport entry:', id);
+    const { data, error } = await supabase
       .from('transport_entries')
       .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      console.error('Error purging entry:', error.message);
+      toast.error('Failed to delete entry permanently');
+      return false;
+    }
+
+    // Row level security skips rows the user may not delete instead of raising an error
+    if (!data || data.length === 0) {
+      toast.error('Only the owner can permanently delete entries in the trash');
+      return false;
+    }
+
+    console.log('Entry purged successfully');
+    toast.success('Entry deleted permanently');
+    return true;
+  } catch (error) {
+    console.error('Failed to purge entry:', error);
+    toast.error('Failed to delete entry permanently');
+    return false;
+  }
+};
+
+export const addPayment = async (payment: Omit<Payment, 'id'>): Promise<Payment | null> => {
+  try {
+    console.log('Adding payment:', payment);
+    const { data, error } = await supabase
+      .from('payments')
+      .insert(preparePaymentForDb(payment))
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding payment:', error.message);
+      toast.error('Failed to add payment');
+      return null;
+    }
+
+    console.log('Payment added successfully:', data);
+    toast.success('Payment added successfully');
+    return transformDbPayment(data);
+  } catch (error) {
+    console.error('Failed to add payment:', error);
+    toast.error('Failed to add payment');
+    return null;
+  }
+};
+
+export const updatePayment = async (payment: Payment): Promise<boolean> => {
+  try {
+    console.log('Updating payment:', payment);
+    const { error } = await supabase
+      .from('payments')
+      .update(preparePaymentForDb(payment))
+      .eq('id', payment.id);
+
+    if (error) {
+      console.error('Error updating payment:', error.message);
+      toast.error('Failed to update payment');
+      return false;
+    }
+
+    console.log('Payment updated successfully');
+    toast.success('Payment updated successfully');
+    return true;
+  } catch (error) {
+    console.error('Failed to update payment:', error);
+    toast.error('Failed to update payment');
+    return false;
+  }
+};
+
+export const deletePayment = async (id: string): Promise<boolean> => {
+  try {
+    console.log('Deleting payment:', id);
+    const { error } = await supabase
+      .from('payments')
+      .delete()
       .eq('id', id);
 
     if (error) {
-      console.error('Error deleting entry:', error.message);
-      toast.error('Failed to delete entry');
+      console.error('Error deleting payment:', error.message);
+      toast.error('Failed to delete payment');
       return false;
     }
 
-    console.log('Entry deleted successfully');
-    toast.success('Entry deleted successfully');
+    console.log('Payment deleted successfully');
+    toast.success('Payment deleted successfully');
     return true;
   } catch (error) {
-    console.error('Failed to delete entry:', error);
-    toast.error('Failed to delete entry');
+    console.error('Failed to delete payment:', error);
+    toast.error('Failed to delete payment');
+    return false;
+  }
+};
+
+export const addExpense = async (expense: Omit<TripExpense, 'id'>): Promise<TripExpense | null> => {
+  try {
+    console.log('Adding expense:', expense);
+    const { data, error } = await supabase
+      .from('trip_expenses')
+      .insert(prepareExpenseForDb(expense))
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding expense:', error.message);
+      toast.error('Failed to add expense');
+      return null;
+    }
+
+    console.log('Expense added successfully:', data);
+    toast.success('Expense added successfully');
+    return transformDbExpense(data);
+  } catch (error) {
+    console.error('Failed to add expense:', error);
+    toast.error('Failed to add expense');
+    return null;
+  }
+};
+
+export const updateExpense = async (expense: TripExpense): Promise<boolean> => {
+  try {
+    console.log('Updating expense:', expense);
+    const { error } = await supabase
+      .from('trip_expenses')
+      .update(prepareExpenseForDb(expense))
+      .eq('id', expense.id);
+
+    if (error) {
+      console.error('Error updating expense:', error.message);
+      toast.error('Failed to update expense');
+      return false;
+    }
+
+    console.log('Expense updated successfully');
+    toast.success('Expense updated successfully');
+    return true;
+  } catch (error) {
+    console.error('Failed to update expense:', error);
+    toast.error('Failed to update expense');
+    return false;
+  }
+};
+
+export const deleteExpense = async (id: string): Promise<boolean> => {
+  try {
+    console.log('Deleting expense:', id);
+    const { error } = await supabase
+      .from('trip_expenses')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting expense:', error.message);
+      toast.error('Failed to delete expense');
+      return false;
+    }
+
+    console.log('Expense deleted successfully');
+    toast.success('Expense deleted successfully');
+    return true;
+  } catch (error) {
+    console.error('Failed to delete expense:', error);
+    toast.error('Failed to delete expense');
     return false;
   }
 };
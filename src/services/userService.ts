@@ -0,0 +1,117 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { UserProfile, UserRole } from "@/types/user";
+import { toast } from "sonner";
+
+const transformDbProfile = (profile: Tables<'profiles'>): UserProfile => ({
+  userId: profile.user_id,
+  companyId: profile.company_id,
+  organisationId: profile.organisation_id,
+  fullName: profile.full_name || "",
+  email: profile.email || "",
+  role: (profile.role as UserRole) || "clerk",
+});
+
+export const fetchCurrentProfile = async (userId: string): Promise<UserProfile | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching profile:', error.message);
+      throw error;
+    }
+
+    return data ? transformDbProfile(data) : null;
+  } catch (error) {
+    console.error('Failed to fetch profile:', error);
+    toast.error('Failed to load your profile');
+    return null;
+  }
+};
+
+// Row level security limits this to the signed-in user's organisation
+export const fetchCompanyUsers = async (): Promise<UserProfile[]> => {
+  try {
+    console.log('Fetching company users...');
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching users:', error.message);
+      toast.error('Failed to load users');
+      throw error;
+    }
+
+    return (data || []).map(transformDbProfile);
+  } catch (error) {
+    console.error('Failed to fetch users:', error);
+    toast.error('Failed to load users');
+    return [];
+  }
+};
+
+export const updateUserRole = async (userId: string, role: UserRole): Promise<boolean> => {
+  try {
+    console.log('Updating user role:', userId, role);
+    const { data, error } = await supabase
+      .from('profiles')
+      .update({ role })
+      .eq('user_id', userId)
+      .select('user_id');
+
+    if (error) {
+      console.error('Error updating user role:', error.message);
+      toast.error(error.code === 'P0001' ? 'The company must keep at least one owner' : 'Failed to update role');
+      return false;
+    }
+
+    if (!data || data.length === 0) {
+      toast.error('Only the owner can change roles');
+      return false;
+    }
+
+    toast.success('Role updated');
+    return true;
+  } catch (error) {
+    console.error('Failed to update user role:', error);
+    toast.error('Failed to update role');
+    return false;
+  }
+};
+
+// Removing the profile revokes access to the company's data; the login itself
+// stays in Supabase Auth until it is deleted from the dashboard
+export const removeUser = async (userId: string): Promise<boolean> => {
+  try {
+    console.log('Removing user:', userId);
+    const { data, error } = await supabase
+      .from('profiles')
+      .delete()
+      .eq('user_id', userId)
+      .select('user_id');
+
+    if (error) {
+      console.error('Error removing user:', error.message);
+      toast.error(error.code === 'P0001' ? 'The company must keep at least one owner' : 'Failed to remove user');
+      return false;
+    }
+
+    if (!data || data.length === 0) {
+      toast.error('Only the owner can remove users');
+      return false;
+    }
+
+    toast.success('User removed');
+    return true;
+  } catch (error) {
+    console.error('Failed to remove user:', error);
+    toast.error('Failed to remove user');
+    return false;
+  }
+};
@@ -0,0 +1,131 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Vehicle, VehicleOwnership } from "@/types/vehicle";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+
+// "mh 12 ab 1234" and "MH12AB1234" are the same truck
+export const normalizeRegistrationNumber = (value: string) => value.replace(/\s+/g, "").toUpperCase();
+
+// Expiry columns are plain dates; keep them in local time so IST midnight doesn't slip a day
+const toDbDate = (date: Date | null) => (date ? format(date, "yyyy-MM-dd") : null);
+
+const prepareVehicleForDb = (vehicle: Omit<Vehicle, 'id'>) => ({
+  registration_number: normalizeRegistrationNumber(vehicle.registrationNumber),
+  ownership: vehicle.ownership,
+  owner_name: vehicle.ownerName || null,
+  vehicle_type: vehicle.vehicleType || null,
+  capacity: vehicle.capacity,
+  insurance_expiry: toDbDate(vehicle.insuranceExpiry),
+  permit_expiry: toDbDate(vehicle.permitExpiry),
+  fitness_expiry: toDbDate(vehicle.fitnessExpiry),
+  puc_expiry: toDbDate(vehicle.pucExpiry),
+});
+
+const transformDbVehicle = (vehicle: Tables<'vehicles'>): Vehicle => ({
+  id: vehicle.id,
+  registrationNumber: vehicle.registration_number,
+  ownership: (vehicle.ownership as VehicleOwnership) || "OWN",
+  ownerName: vehicle.owner_name || "",
+  vehicleType: vehicle.vehicle_type || "",
+  capacity: vehicle.capacity !== null ? Number(vehicle.capacity) : null,
+  insuranceExpiry: vehicle.insurance_expiry ? parseISO(vehicle.insurance_expiry) : null,
+  permitExpiry: vehicle.permit_expiry ? parseISO(vehicle.permit_expiry) : null,
+  fitnessExpiry: vehicle.fitness_expiry ? parseISO(vehicle.fitness_expiry) : null,
+  pucExpiry: vehicle.puc_expiry ? parseISO(vehicle.puc_expiry) : null,
+});
+
+export const fetchVehicles = async (): Promise<Vehicle[]> => {
+  try {
+    console.log('Fetching vehicles from Supabase...');
+    const { data, error } = await supabase
+      .from('vehicles')
+      .select('*')
+      .order('registration_number', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching vehicles:', error.message);
+      toast.error('Failed to load vehicles');
+      throw error;
+    }
+
+    return (data || []).map(transformDbVehicle);
+  } catch (error) {
+    console.error('Failed to fetch vehicles:', error);
+    toast.error('Failed to load vehicles');
+    return [];
+  }
+};
+
+export const createVehicle = async (vehicle: Omit<Vehicle, 'id'>): Promise<Vehicle | null> => {
+  try {
+    console.log('Creating vehicle:', vehicle);
+    const { data, error } = await supabase
+      .from('vehicles')
+      .insert(prepareVehicleForDb(vehicle))
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating vehicle:', error.message);
+      toast.error(error.code === '23505' ? 'This vehicle is already registered' : 'Failed to create vehicle');
+      return null;
+    }
+
+    console.log('Vehicle created successfully:', data);
+    toast.success('Vehicle created successfully');
+    return transformDbVehicle(data);
+  } catch (error) {
+    console.error('Failed to create vehicle:', error);
+    toast.error('Failed to create vehicle');
+    return null;
+  }
+};
+
+export const updateVehicle = async (vehicle: Vehicle): Promise<boolean> => {
+  try {
+    console.log('Updating vehicle:', vehicle);
+    const { error } = await supabase
+      .from('vehicles')
+      .update(prepareVehicleForDb(vehicle))
+      .eq('id', vehicle.id);
+
+    if (error) {
+      console.error('Error updating vehicle:', error.message);
+      toast.error(error.code === '23505' ? 'This vehicle is already registered' : 'Failed to update vehicle');
+      return false;
+    }
+
+    console.log('Vehicle updated successfully');
+    toast.success('Vehicle updated successfully');
+    return true;
+  } catch (error) {
+    console.error('Failed to update vehicle:', error);
+    toast.error('Failed to update vehicle');
+    return false;
+  }
+};
+
+export const deleteVehicle = async (id: string): Promise<boolean> => {
+  try {
+    console.log('Deleting vehicle:', id);
+    const { error } = await supabase
+      .from('vehicles')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting vehicle:', error.message);
+      toast.error('Failed to delete vehicle');
+      return false;
+    }
+
+    console.log('Vehicle deleted successfully');
+    toast.success('Vehicle deleted successfully');
+    return true;
+  } catch (error) {
+    console.error('Failed to delete vehicle:', error);
+    toast.error('Failed to delete vehicle');
+    return false;
+  }
+};
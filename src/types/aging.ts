@@ -0,0 +1,17 @@
+
+export type AgingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+export interface AgingRow {
+  partyId: string | null;
+  partyName: string;
+  entryCount: number;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+}
+
+export interface AgingReport {
+  asOf: Date;
+  rows: AgingRow[];
+  totals: Record<AgingBucket, number>;
+  total: number;
+}
@@ -0,0 +1,23 @@
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+// Which record of the trip the change was made to
+export type AuditTable = 'transport_entries' | 'payments' | 'trip_expenses';
+
+// Raw column values as stored in the database (ISO strings for dates)
+export interface AuditFieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface AuditEvent {
+  id: number;
+  entryId: string;
+  table: AuditTable;
+  rowId: string;
+  action: AuditAction;
+  changes: AuditFieldChange[];
+  changedByName: string;
+  changedAt: Date;
+}
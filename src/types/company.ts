@@ -0,0 +1,15 @@
+
+// A firm or branch office. Every entry, party, vehicle and document belongs to one.
+export interface Company {
+  id: string;
+  name: string;
+}
+
+// What prints at the top of the company's PDFs
+export interface Letterhead {
+  name: string;
+  address: string;
+  phone: string;
+  email: string;
+  gstin: string;
+}
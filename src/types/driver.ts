@@ -0,0 +1,9 @@
+
+export interface Driver {
+  id: string;
+  name: string;
+  mobile: string;
+  licenceNumber: string;
+  licenceExpiry: Date | null;
+  defaultVehicleId: string | null;
+}
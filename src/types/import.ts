@@ -0,0 +1,40 @@
+import { TransportEntry } from "@/types/transport";
+
+// Entry fields a spreadsheet column can be mapped to
+export type ImportField =
+  | 'date'
+  | 'vehicleNumber'
+  | 'transportName'
+  | 'place'
+  | 'weight'
+  | 'weightUnit'
+  | 'driverMobile'
+  | 'rentAmount'
+  | 'advanceAmount'
+  | 'advanceDate'
+  | 'advanceType';
+
+// What the file reader returns: one cell value per column, as the sheet held it
+export type ImportCell = string | number | boolean | Date | null;
+
+export interface ImportSheet {
+  fileName: string;
+  headers: string[];
+  rows: ImportCell[][];
+}
+
+// Column index in the sheet for each mapped field
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportRow {
+  rowNumber: number; // As numbered in the spreadsheet, header row being 1
+  entry: TransportEntry | null; // Null when the row has errors and will be skipped
+  errors: string[];
+  warnings: string[]; // Imported anyway, e.g. a party not in the master
+  duplicate: boolean; // Same date, vehicle and party as a trip already entered
+}
+
+export interface EntryImportResult {
+  imported: number;
+  failedIds: string[]; // Entries in batches the database refused
+}
@@ -0,0 +1,33 @@
+
+// RCM: the recipient pays GST under reverse charge (GTA at 5%)
+// FORWARD: we charge GST on the invoice (GTA at 12%)
+export type GstMode = 'RCM' | 'FORWARD';
+
+export interface InvoiceLine {
+  id: string;
+  invoiceId: string;
+  entryId: string;
+  description: string;
+  amount: number;
+}
+
+export interface Invoice {
+  id: string;
+  invoiceNumber: string; // Assigned by the database on insert
+  invoiceDate: Date;
+  financialYear: string;
+  partyId: string;
+  partyName: string;
+  partyGstin: string;
+  partyAddress: string;
+  supplierGstin: string;
+  placeOfSupply: string; // Two-digit GST state code
+  gstMode: GstMode;
+  gstRate: number;
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalAmount: number;
+  lines: InvoiceLine[];
+}
@@ -0,0 +1,21 @@
+
+export type FreightBasis = 'TO_PAY' | 'PAID' | 'TO_BE_BILLED';
+
+export interface LorryReceipt {
+  id: string;
+  entryId: string;
+  lrNumber: string; // Assigned by the database on insert, never changes afterwards
+  lrDate: Date;
+  financialYear: string;
+  consignorName: string;
+  consignorAddress: string;
+  consignorGstin: string;
+  consigneeName: string;
+  consigneeAddress: string;
+  consigneeGstin: string;
+  origin: string;
+  destination: string;
+  goodsDescription: string;
+  packages: number | null;
+  freightBasis: FreightBasis;
+}
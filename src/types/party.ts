@@ -0,0 +1,21 @@
+
+export interface Party {
+  id: string;
+  name: string;
+  gstin: string;
+  phone: string;
+  address: string;
+  openingBalance: number;
+}
+
+export type StatementLineType = 'OPENING' | 'TRIP' | 'PAYMENT';
+
+export interface StatementLine {
+  date: Date | null;
+  type: StatementLineType;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+  entryId?: string;
+}
@@ -0,0 +1,6 @@
+// A named set of entries list filters, stored as the list's query string
+export interface SavedView {
+  id: string;
+  name: string;
+  params: Record<string, string>; // e.g. { status: "UNPAID", age: "60" }
+}
@@ -0,0 +1,26 @@
+import { TransportEntry } from "./transport";
+
+export type PendingOperationKind = 'create' | 'update' | 'delete';
+
+// A change to an entry saved on this device and not yet written to Supabase
+export interface PendingOperation {
+  seq: number; // Queue order; changes are replayed oldest first
+  kind: PendingOperationKind;
+  entryId: string;
+  userId: string; // Only replayed while the same user is signed in
+  entry: TransportEntry | null; // Full entry for create and update, null for delete
+  advancePaymentId: string | null; // Fixed on create so a replay never records the advance twice
+  base: TransportEntry | null; // The server copy an update started from, to tell whose change is whose
+  conflict: TransportEntry | null; // The newer server copy found on sync; set until the edit is merged
+  queuedAt: Date;
+}
+
+// What happened to a queued change on the last sync
+export type SyncOutcome = 'applied' | 'queued' | 'rejected' | 'conflict';
+
+// An edit that lost the race, with what it would overwrite
+export interface EntryConflict {
+  mine: TransportEntry;
+  theirs: TransportEntry;
+  base: TransportEntry | null;
+}
@@ -1,16 +1,93 @@
 
+export type PaymentMode = 'Cash' | 'Bank Transfer' | 'Check' | 'UPI';
+
+export type WeightUnit = 'kg' | 'quintal' | 'ton';
+
+export type BalanceStatus = 'PAID' | 'UNPAID' | 'PARTIAL';
+
+export interface Payment {
+  id: string;
+  entryId: string;
+  amount: number;
+  date: Date;
+  mode: PaymentMode;
+  referenceNumber: string;
+}
+
+export type ExpenseCategory = 'Diesel' | 'Toll' | 'Loading' | 'Unloading' | 'Driver Bata' | 'Repairs' | 'Other';
+
+export interface TripExpense {
+  id: string;
+  entryId: string;
+  category: ExpenseCategory;
+  amount: number;
+  date: Date;
+  mode: PaymentMode;
+  note: string;
+}
+
 export interface TransportEntry {
   id: string;
   date: Date;
   vehicleNumber: string;
-  weight: string; // Changed from driverName
+  weight: number | null;
+  weightUnit: WeightUnit;
+  ratePerUnit: number | null; // Freight per weight unit; when set, rentAmount = weight x rate
+  driverId: string | null;
+  driverName: string; // Resolved from the drivers master, read-only
   driverMobile: string;
   place: string;
-  transportName: string;
+  partyId: string | null;
+  transportName: string; // Display name of the party, kept in sync with the parties master
   rentAmount: number;
+  // The advance is the first payment in the ledger; on create it is recorded as one
   advanceAmount: number | null;
   advanceDate: Date | null;
-  advanceType: 'Cash' | 'Bank Transfer' | 'Check' | 'UPI';
-  balanceStatus: 'PAID' | 'UNPAID' | 'PARTIAL';
+  advanceType: PaymentMode;
+  // Derived from the payments ledger, never picked by hand
+  balanceStatus: BalanceStatus;
   balanceDate: Date | null;
+  payments: Payment[];
+  expenses: TripExpense[]; // Running costs of the trip; profit is rentAmount minus these
+  invoiceNumber: string | null; // Set once the trip is billed; invoiced entries are locked
+  createdAt: Date | null; // When the trip was entered; clerks can change amounts for 24 hours
+  deletedAt: Date | null; // Set while the entry is in the trash
+  version: number; // Bumped by the database on every edit; a save must carry the version it started from
+  pendingSync: boolean; // Changed on this device and not yet saved to the server
+  syncConflict: boolean; // Someone else saved the entry first; the edit waits for a merge
+}
+
+export type EntrySortKey = 'date' | 'amount' | 'balance';
+
+export type SortOrder = 'asc' | 'desc';
+
+// What the entries table is narrowed to; every field is applied by the database
+export interface EntryFilters {
+  search: string; // Vehicle, party, place or driver
+  status: BalanceStatus | 'ALL';
+  dateFrom: Date | null;
+  dateTo: Date | null;
+  partyId: string | null;
+  vehicleNumber: string | null;
+  minAgeDays: number | null; // Only trips dated more than this many days ago
+}
+
+export interface EntryQuery extends EntryFilters {
+  sortBy: EntrySortKey;
+  sortOrder: SortOrder;
+  page: number; // 1-based
+  pageSize: number;
+}
+
+export interface EntryPage {
+  entries: TransportEntry[];
+  total: number; // Matching entries across all pages
+}
+
+// Figures for the cards above the table, over every live entry
+export interface EntrySummary {
+  totalEntries: number;
+  unpaidEntries: number;
+  thisMonthEntries: number;
+  outstandingAmount: number;
 }
@@ -0,0 +1,14 @@
+
+// owner: everything, including deleting entries and managing users
+// accountant: payments, invoices and exports
+// clerk: enters trips; amounts are frozen 24 hours after a trip is created
+export type UserRole = 'owner' | 'accountant' | 'clerk';
+
+export interface UserProfile {
+  userId: string;
+  companyId: string; // The company the user is working in, picked with the switcher
+  organisationId: string;
+  fullName: string;
+  email: string;
+  role: UserRole;
+}
@@ -0,0 +1,24 @@
+
+export type VehicleOwnership = 'OWN' | 'MARKET';
+
+export type VehicleDocument = 'insurance' | 'permit' | 'fitness' | 'puc';
+
+export interface Vehicle {
+  id: string;
+  registrationNumber: string;
+  ownership: VehicleOwnership;
+  ownerName: string;
+  vehicleType: string;
+  capacity: number | null; // Tons
+  insuranceExpiry: Date | null;
+  permitExpiry: Date | null;
+  fitnessExpiry: Date | null;
+  pucExpiry: Date | null;
+}
+
+export interface DocumentExpiry {
+  vehicle: Vehicle;
+  document: VehicleDocument;
+  expiresOn: Date;
+  daysLeft: number;
+}
@@ -0,0 +1,22 @@
+export interface VehicleReportTotals {
+  trips: number;
+  freight: number;
+  collected: number;
+  outstanding: number;
+  expenses: number;
+  profit: number;
+}
+
+export interface VehicleReportRow extends VehicleReportTotals {
+  vehicleNumber: string;
+  activeDays: number; // Distinct days with at least one trip
+  idleDays: number;
+  totalTons: number;
+  freightPerTon: number; // 0 when no trip of the vehicle has a weight
+}
+
+export interface VehicleReport {
+  periodDays: number;
+  rows: VehicleReportRow[];
+  totals: VehicleReportTotals;
+}
@@ -1,81 +1,145 @@
-
 import { TransportEntry } from "@/types/transport";
 import { format } from "date-fns";
+import { getOutstandingAmount, getPaidAmount } from "@/lib/payments";
+import { getExpenseTotal, getTripProfit } from "@/lib/expenses";
+import { AGING_BUCKETS, AGING_BUCKET_LABELS } from "@/lib/aging";
+import { CsvDelimiter, CsvValue, toCsv, UTF8_BOM } from "@/lib/csv";
+import { AgingReport } from "@/types/aging";
 
-export const exportToCSV = (entries: TransportEntry[]) => {
-  // Define headers
-  const headers = [
-    "Date",
-    "Vehicle Number",
-    "Weight of Goods", // Changed from Driver
-    "Transport Name",
-    "Place",
-    "Rent Amount",
-    "Advance Amount",
-    "Balance Amount",
-    "Balance Status",
-    "Balance Date",
-  ];
+export type EntryCsvColumn =
+  | 'date'
+  | 'vehicleNumber'
+  | 'driverName'
+  | 'driverMobile'
+  | 'transportName'
+  | 'place'
+  | 'weight'
+  | 'weightUnit'
+  | 'rentAmount'
+  | 'advanceAmount'
+  | 'advanceDate'
+  | 'advanceType'
+  | 'paidAmount'
+  | 'outstandingAmount'
+  | 'expenses'
+  | 'profit'
+  | 'balanceStatus'
+  | 'balanceDate'
+  | 'invoiceNumber';
 
-  // Format data rows
-  const rows = entries.map((entry) => {
-    const balanceAmount = entry.rentAmount - (entry.advanceAmount || 0);
-    
-    return [
-      format(entry.date, "dd/MM/yyyy"),
-      entry.vehicleNumber,
-      entry.weight || "-", // Changed from driverName
-      entry.transportName || "-",
-      entry.place || "-",
-      entry.rentAmount.toString(),
-      entry.advanceAmount ? entry.advanceAmount.toString() : "-",
-      balanceAmount.toString(),
-      entry.balanceStatus,
-      entry.balanceDate ? format(entry.balanceDate, "dd/MM/yyyy") : "-",
-    ];
-  });
-
-  // Add summary row
-  const totalAmount = entries.reduce((sum, entry) => sum + entry.rentAmount, 0);
-  const unpaidAmount = entries
-    .filter((entry) => entry.balanceStatus !== "PAID")
-    .reduce((sum, entry) => sum + (entry.rentAmount - (entry.advanceAmount || 0)), 0);
-
-  const summaryRow = [
-    "",
-    "",
-    "",
-    "",
-    "",
-    "Total Amount",
-    "",
-    "Unpaid Amount",
-    "",
-    "",
-  ];
+export interface CsvExportOptions {
+  columns: EntryCsvColumn[]; // Ignored by reports with a fixed layout, such as aging
+  delimiter: CsvDelimiter;
+  includeBom: boolean;
+}
+
+const formatDate = (date: Date | null) => (date ? format(new Date(date), "dd/MM/yyyy") : "");
+
+// Amounts are written as plain numbers so spreadsheets can add them up
+export const ENTRY_CSV_COLUMNS: { key: EntryCsvColumn; label: string; value: (entry: TransportEntry) => CsvValue }[] = [
+  { key: 'date', label: "Date", value: (entry) => formatDate(entry.date) },
+  { key: 'vehicleNumber', label: "Vehicle Number", value: (entry) => entry.vehicleNumber },
+  { key: 'driverName', label: "Driver", value: (entry) => entry.driverName },
+  { key: 'driverMobile', label: "Driver Mobile", value: (entry) => entry.driverMobile },
+  { key: 'transportName', label: "Transport Name", value: (entry) => entry.transportName },
+  { key: 'place', label: "Place", value: (entry) => entry.place },
+  { key: 'weight', label: "Weight", value: (entry) => entry.weight },
+  { key: 'weightUnit', label: "Weight Unit", value: (entry) => (entry.weight !== null ? entry.weightUnit : "") },
+  { key: 'rentAmount', label: "Rent Amount", value: (entry) => entry.rentAmount },
+  { key: 'advanceAmount', label: "Advance Amount", value: (entry) => entry.advanceAmount },
+  { key: 'advanceDate', label: "Advance Date", value: (entry) => formatDate(entry.advanceDate) },
+  { key: 'advanceType', label: "Advance Type", value: (entry) => (entry.advanceAmount ? entry.advanceType : "") },
+  { key: 'paidAmount', label: "Paid Amount", value: (entry) => getPaidAmount(entry) },
+  { key: 'outstandingAmount', label: "Outstanding Amount", value: (entry) => getOutstandingAmount(entry) },
+  { key: 'expenses', label: "Expenses", value: (entry) => getExpenseTotal(entry) },
+  { key: 'profit', label: "Profit", value: (entry) => getTripProfit(entry) },
+  { key: 'balanceStatus', label: "Balance Status", value: (entry) => entry.balanceStatus },
+  { key: 'balanceDate', label: "Balance Date", value: (entry) => formatDate(entry.balanceDate) },
+  { key: 'invoiceNumber', label: "Invoice Number", value: (entry) => entry.invoiceNumber },
+];
 
-  // Create CSV content
-  const csvContent = [
-    headers.join(","),
-    ...rows.map((row) => row.join(",")),
-    "",
-    summaryRow.join(","),
-    "",
-    `Total Entries,${entries.length}`,
-    `Total Amount,${totalAmount}`,
-    `Unpaid Amount,${unpaidAmount}`,
-  ].join("\n");
-
-  // Create and trigger download
+export const DEFAULT_CSV_EXPORT_OPTIONS: CsvExportOptions = {
+  columns: ENTRY_CSV_COLUMNS.map((column) => column.key),
+  delimiter: ",",
+  includeBom: true,
+};
+
+// The last choice is kept on this device, so the dialog opens the way it was left
+const OPTIONS_STORAGE_KEY = "csvExportOptions";
+
+export const loadCsvExportOptions = (): CsvExportOptions => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(OPTIONS_STORAGE_KEY) || "null");
+    if (!saved) return DEFAULT_CSV_EXPORT_OPTIONS;
+    const columns = ENTRY_CSV_COLUMNS.map((column) => column.key).filter((key) => saved.columns?.includes(key));
+    return {
+      columns: columns.length > 0 ? columns : DEFAULT_CSV_EXPORT_OPTIONS.columns,
+      delimiter: [",", ";", "\t"].includes(saved.delimiter) ? saved.delimiter : DEFAULT_CSV_EXPORT_OPTIONS.delimiter,
+      includeBom: typeof saved.includeBom === "boolean" ? saved.includeBom : DEFAULT_CSV_EXPORT_OPTIONS.includeBom,
+    };
+  } catch {
+    return DEFAULT_CSV_EXPORT_OPTIONS;
+  }
+};
+
+export const saveCsvExportOptions = (options: CsvExportOptions) => {
+  localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(options));
+};
+
+const downloadCsv = (rows: CsvValue[][], fileName: string, options: CsvExportOptions) => {
+  const csvContent = (options.includeBom ? UTF8_BOM : "") + toCsv(rows, options.delimiter);
   const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
   const url = URL.createObjectURL(blob);
   const link = document.createElement("a");
-  
+
   link.setAttribute("href", url);
-  link.setAttribute("download", `transport-entries-${format(new Date(), "yyyy-MM-dd")}.csv`);
+  link.setAttribute("download", fileName);
   link.style.visibility = "hidden";
-  
+
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
-}; 
+  URL.revokeObjectURL(url);
+};
+
+export const exportToCSV = (entries: TransportEntry[], options: CsvExportOptions = DEFAULT_CSV_EXPORT_OPTIONS) => {
+  const columns = ENTRY_CSV_COLUMNS.filter((column) => options.columns.includes(column.key));
+
+  const totalAmount = entries.reduce((sum, entry) => sum + entry.rentAmount, 0);
+  const paidAmount = entries.reduce((sum, entry) => sum + getPaidAmount(entry), 0);
+  const unpaidAmount = entries.reduce((sum, entry) => sum + getOutstandingAmount(entry), 0);
+
+  const rows: CsvValue[][] = [
+    columns.map((column) => column.label),
+    ...entries.map((entry) => columns.map((column) => column.value(entry))),
+    [],
+    ["Total Entries", entries.length],
+    ["Total Amount", totalAmount],
+    ["Paid Amount", paidAmount],
+    ["Outstanding Amount", unpaidAmount],
+  ];
+
+  downloadCsv(rows, `transport-entries-${format(new Date(), "yyyy-MM-dd")}.csv`, options);
+};
+
+export const exportAgingToCSV = (report: AgingReport, options: CsvExportOptions = DEFAULT_CSV_EXPORT_OPTIONS) => {
+  const rows: CsvValue[][] = [
+    [`Receivables Aging as of ${format(report.asOf, "dd/MM/yyyy")}`],
+    [],
+    ["Party", "Unpaid Trips", ...AGING_BUCKETS.map(bucket => AGING_BUCKET_LABELS[bucket]), "Total"],
+    ...report.rows.map((row) => [
+      row.partyName,
+      row.entryCount,
+      ...AGING_BUCKETS.map(bucket => row.buckets[bucket]),
+      row.total,
+    ]),
+    [
+      "Total",
+      report.rows.reduce((sum, row) => sum + row.entryCount, 0),
+      ...AGING_BUCKETS.map(bucket => report.totals[bucket]),
+      report.total,
+    ],
+  ];
+
+  downloadCsv(rows, `receivables-aging-${format(report.asOf, "yyyy-MM-dd")}.csv`, options);
+};
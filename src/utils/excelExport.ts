@@ -1,100 +1,267 @@
 
+import ExcelJS from "exceljs";
 import { TransportEntry } from "@/types/transport";
 import { format } from "date-fns";
+import { getOutstandingAmount, getPaidAmount } from "@/lib/payments";
+import { getExpenseTotal, getTripProfit } from "@/lib/expenses";
+import { getEntryTons, getTonnageStats } from "@/lib/weight";
+import { AGING_BUCKETS, AGING_BUCKET_LABELS } from "@/lib/aging";
+import { AgingReport } from "@/types/aging";
 
-export const exportToExcel = (entries: TransportEntry[]) => {
-  // Calculate summary statistics
-  const totalAmount = entries.reduce((sum, entry) => sum + entry.rentAmount, 0);
-  const unpaidAmount = entries
-    .filter(entry => entry.balanceStatus !== "PAID")
-    .reduce((sum, entry) => sum + (entry.rentAmount - (entry.advanceAmount || 0)), 0);
-  const paidAmount = entries
-    .filter(entry => entry.balanceStatus === "PAID")
-    .reduce((sum, entry) => sum + entry.rentAmount, 0);
-  const averageAmount = entries.length > 0 ? totalAmount / entries.length : 0;
-  const uniqueVehicles = new Set(entries.map(entry => entry.vehicleNumber)).size;
-  const uniqueWeights = new Set(entries.map(entry => entry.weight).filter(Boolean)).size; // Changed from drivers
-
-  // Format the data for CSV
-  const headers = [
-    "Date",
-    "Vehicle Number",
-    "Weight of Goods", // Changed from Driver
-    "Transport Name",
-    "Place",
-    "Rent Amount (₹)",
-    "Advance Amount (₹)",
-    "Balance Amount (₹)",
-    "Balance Status",
-    "Balance Date",
+// Rupee amounts stay numbers in the workbook; this only changes how they show
+const CURRENCY_FORMAT = '"₹"#,##0.00;[Red]-"₹"#,##0.00';
+const DATE_FORMAT = "dd/mm/yyyy";
+
+// Excel dates carry no time zone, and ExcelJS writes them as UTC. Moving the
+// calendar date to UTC midnight keeps a trip on 1 April from showing as 31 March.
+const toExcelDate = (date: Date) => new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+
+const styleHeaderRow = (sheet: ExcelJS.Worksheet, rowNumber = 1) => {
+  const header = sheet.getRow(rowNumber);
+  header.font = { bold: true };
+  header.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFE2E8F0" } };
+  header.alignment = { vertical: "middle" };
+};
+
+const downloadWorkbook = async (workbook: ExcelJS.Workbook, fileName: string) => {
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+
+  link.setAttribute("href", url);
+  link.setAttribute("download", fileName);
+  link.style.visibility = "hidden";
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+interface PartyTotals {
+  partyName: string;
+  trips: number;
+  tons: number;
+  rent: number;
+  paid: number;
+  outstanding: number;
+  expenses: number;
+  profit: number;
+}
+
+// One row per party, biggest billing first; entries without a party go by transport name
+const getPartyTotals = (entries: TransportEntry[]) => {
+  const parties = new Map<string, PartyTotals>();
+  entries.forEach(entry => {
+    const key = entry.partyId || `name:${entry.transportName || "—"}`;
+    const totals = parties.get(key) || {
+      partyName: entry.transportName || "—",
+      trips: 0,
+      tons: 0,
+      rent: 0,
+      paid: 0,
+      outstanding: 0,
+      expenses: 0,
+      profit: 0,
+    };
+    totals.trips += 1;
+    totals.tons += getEntryTons(entry);
+    totals.rent += entry.rentAmount;
+    totals.paid += getPaidAmount(entry);
+    totals.outstanding += getOutstandingAmount(entry);
+    totals.expenses += getExpenseTotal(entry);
+    totals.profit += getTripProfit(entry);
+    parties.set(key, totals);
+  });
+  return Array.from(parties.values()).sort((a, b) => b.rent - a.rent);
+};
+
+// A real .xlsx workbook: typed date and amount cells on the Entries sheet, and
+// Summary and Status Distribution totals as formulas over it so they follow edits
+export const exportToExcel = async (entries: TransportEntry[]) => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  const entriesSheet = workbook.addWorksheet("Entries", { views: [{ state: "frozen", ySplit: 1 }] });
+  entriesSheet.columns = [
+    { header: "Date", key: "date", width: 12, style: { numFmt: DATE_FORMAT } },
+    { header: "Vehicle Number", key: "vehicleNumber", width: 16 },
+    { header: "Driver", key: "driverName", width: 18 },
+    { header: "Transport Name", key: "transportName", width: 26 },
+    { header: "Place", key: "place", width: 20 },
+    { header: "Weight", key: "weight", width: 10, style: { numFmt: "#,##0.###" } },
+    { header: "Unit", key: "weightUnit", width: 8 },
+    { header: "Rent Amount", key: "rentAmount", width: 14, style: { numFmt: CURRENCY_FORMAT } },
+    { header: "Paid Amount", key: "paidAmount", width: 14, style: { numFmt: CURRENCY_FORMAT } },
+    { header: "Outstanding Amount", key: "outstandingAmount", width: 18, style: { numFmt: CURRENCY_FORMAT } },
+    { header: "Expenses", key: "expenses", width: 14, style: { numFmt: CURRENCY_FORMAT } },
+    { header: "Profit", key: "profit", width: 14, style: { numFmt: CURRENCY_FORMAT } },
+    { header: "Balance Status", key: "balanceStatus", width: 14 },
+    { header: "Balance Date", key: "balanceDate", width: 12, style: { numFmt: DATE_FORMAT } },
+    { header: "Invoice Number", key: "invoiceNumber", width: 16 },
   ];
 
-  const rows = entries.map((entry) => {
-    const balanceAmount = entry.rentAmount - (entry.advanceAmount || 0);
-    
-    return [
-      format(new Date(entry.date), "dd/MM/yyyy"),
-      entry.vehicleNumber,
-      entry.weight || "-", // Changed from driverName
-      entry.transportName || "-",
-      entry.place || "-",
-      entry.rentAmount.toLocaleString(),
-      entry.advanceAmount ? entry.advanceAmount.toLocaleString() : "-",
-      balanceAmount.toLocaleString(),
-      entry.balanceStatus,
-      entry.balanceDate ? format(new Date(entry.balanceDate), "dd/MM/yyyy") : "-",
-    ];
+  entries.forEach(entry => {
+    entriesSheet.addRow({
+      date: toExcelDate(new Date(entry.date)),
+      vehicleNumber: entry.vehicleNumber,
+      driverName: entry.driverName || null,
+      transportName: entry.transportName || null,
+      place: entry.place || null,
+      weight: entry.weight,
+      weightUnit: entry.weight !== null ? entry.weightUnit : null,
+      rentAmount: entry.rentAmount,
+      paidAmount: getPaidAmount(entry),
+      outstandingAmount: getOutstandingAmount(entry),
+      expenses: getExpenseTotal(entry),
+      profit: getTripProfit(entry),
+      balanceStatus: entry.balanceStatus,
+      balanceDate: entry.balanceDate ? toExcelDate(new Date(entry.balanceDate)) : null,
+      invoiceNumber: entry.invoiceNumber,
+    });
   });
 
-  // Add summary section
-  const summarySection = [
-    ["", "", "", "", "", "", "", "", "", ""],
-    ["Summary Statistics", "", "", "", "", "", "", "", "", ""],
-    ["Total Entries:", entries.length, "", "", "", "", "", "", "", ""],
-    ["Total Amount:", `₹${totalAmount.toLocaleString()}`, "", "", "", "", "", "", "", ""],
-    ["Paid Amount:", `₹${paidAmount.toLocaleString()}`, "", "", "", "", "", "", "", ""],
-    ["Unpaid Amount:", `₹${unpaidAmount.toLocaleString()}`, "", "", "", "", "", "", "", ""],
-    ["Remaining Balance:", `₹${unpaidAmount.toLocaleString()}`, "", "", "", "", "", "", "", ""], // Added remaining balance
-    ["Average Amount:", `₹${Math.round(averageAmount).toLocaleString()}`, "", "", "", "", "", "", "", ""],
-    ["Unique Vehicles:", uniqueVehicles, "", "", "", "", "", "", "", ""],
-    ["Unique Weights:", uniqueWeights, "", "", "", "", "", "", "", ""], // Changed from Drivers
+  styleHeaderRow(entriesSheet);
+  entriesSheet.autoFilter = { from: "A1", to: { row: entries.length + 1, column: entriesSheet.columnCount } };
+
+  // Formula ranges over the Entries sheet; a one-cell range when there are no rows
+  const lastRow = Math.max(entries.length + 1, 2);
+  const entriesRange = (column: string) => `Entries!${column}2:${column}${lastRow}`;
+
+  const totalAmount = entries.reduce((sum, entry) => sum + entry.rentAmount, 0);
+  const paidAmount = entries.reduce((sum, entry) => sum + getPaidAmount(entry), 0);
+  const unpaidAmount = entries.reduce((sum, entry) => sum + getOutstandingAmount(entry), 0);
+  const expenseAmount = entries.reduce((sum, entry) => sum + getExpenseTotal(entry), 0);
+  const averageAmount = entries.length > 0 ? totalAmount / entries.length : 0;
+  const uniqueVehicles = new Set(entries.map(entry => entry.vehicleNumber)).size;
+  const { totalTons, freightPerTon } = getTonnageStats(entries);
+
+  const summarySheet = workbook.addWorksheet("Summary");
+  summarySheet.columns = [
+    { header: "Summary Statistics", key: "label", width: 24 },
+    { header: "Value", key: "value", width: 18 },
   ];
+  summarySheet.addRows([
+    { label: "Total Entries", value: { formula: `COUNTA(${entriesRange("A")})`, result: entries.length } },
+    { label: "Total Amount", value: { formula: `SUM(${entriesRange("H")})`, result: totalAmount } },
+    { label: "Paid Amount", value: { formula: `SUM(${entriesRange("I")})`, result: paidAmount } },
+    { label: "Outstanding Amount", value: { formula: `SUM(${entriesRange("J")})`, result: unpaidAmount } },
+    { label: "Expenses", value: { formula: `SUM(${entriesRange("K")})`, result: expenseAmount } },
+    { label: "Profit", value: { formula: `SUM(${entriesRange("L")})`, result: totalAmount - expenseAmount } },
+    { label: "Average Amount", value: { formula: `IFERROR(AVERAGE(${entriesRange("H")}),0)`, result: averageAmount } },
+    { label: "Unique Vehicles", value: uniqueVehicles },
+    { label: "Total Tonnage", value: Number(totalTons.toFixed(2)) },
+    { label: "Freight per Ton", value: Math.round(freightPerTon) },
+  ]);
+  [3, 4, 5, 6, 7, 8, 11].forEach(row => {
+    summarySheet.getCell(`B${row}`).numFmt = CURRENCY_FORMAT;
+  });
+  summarySheet.getCell("B10").numFmt = "#,##0.00";
+  styleHeaderRow(summarySheet);
 
-  // Status distribution
-  const statusDistribution = entries.reduce((acc, entry) => {
+  const statusCounts = entries.reduce((acc, entry) => {
     acc[entry.balanceStatus] = (acc[entry.balanceStatus] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
 
-  const statusSection = [
-    ["", "", "", "", "", "", "", "", "", ""],
-    ["Status Distribution", "", "", "", "", "", "", "", "", ""],
-    ...Object.entries(statusDistribution).map(([status, count]) => [
-      `${status}:`,
-      count,
-      `${Math.round((count / entries.length) * 100)}%`,
-      "", "", "", "", "", "", ""
-    ])
+  const statusSheet = workbook.addWorksheet("Status Distribution");
+  statusSheet.columns = [
+    { header: "Status", key: "status", width: 16 },
+    { header: "Entries", key: "count", width: 10 },
+    { header: "Share", key: "share", width: 10, style: { numFmt: "0%" } },
   ];
+  Object.entries(statusCounts).forEach(([status, count], index) => {
+    const row = index + 2;
+    statusSheet.addRow({
+      status,
+      count: { formula: `COUNTIF(${entriesRange("M")},A${row})`, result: count },
+      share: { formula: `IFERROR(B${row}/SUM(B:B),0)`, result: count / entries.length },
+    });
+  });
+  styleHeaderRow(statusSheet);
 
-  // Create CSV content
-  const csvContent = [
-    headers.join(","),
-    ...rows.map(row => row.join(",")),
-    ...summarySection.map(row => row.join(",")),
-    ...statusSection.map(row => row.join(","))
-  ].join("\n");
+  const partySheet = workbook.addWorksheet("Party-wise", { views: [{ state: "frozen", ySplit: 1 }] });
+  partySheet.columns = [
+    { header: "Party", key: "partyName", width: 28 },
+    { header: "Trips", key: "trips", width: 8 },
+    { header: "Tonnage", key: "tons", width: 10, style: { numFmt: "#,##0.00" } },
+    { header: "Rent Amount", key: "rent", width: 14, style: { numFmt: CURRENCY_FORMAT } },
+    { header: "Paid Amount", key: "paid", width: 14, style: { numFmt: CURRENCY_FORMAT } },
+    { header: "Outstanding Amount", key: "outstanding", width: 18, style: { numFmt: CURRENCY_FORMAT } },
+    { header: "Expenses", key: "expenses", width: 14, style: { numFmt: CURRENCY_FORMAT } },
+    { header: "Profit", key: "profit", width: 14, style: { numFmt: CURRENCY_FORMAT } },
+  ];
+  const partyTotals = getPartyTotals(entries);
+  partySheet.addRows(partyTotals);
+  styleHeaderRow(partySheet);
+  partySheet.autoFilter = { from: "A1", to: { row: partyTotals.length + 1, column: partySheet.columnCount } };
 
-  // Create and trigger download
-  const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement("a");
-  
-  link.setAttribute("href", url);
-  link.setAttribute("download", `transport-report-${format(new Date(), "yyyy-MM-dd")}.csv`);
-  link.style.visibility = "hidden";
-  
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+  await downloadWorkbook(workbook, `transport-report-${format(new Date(), "yyyy-MM-dd")}.xlsx`);
+};
+
+// One row per party with a bucket per column; the totals and each bucket's share
+// are formulas over the party rows
+export const exportAgingToExcel = async (report: AgingReport) => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  const headerRow = 3;
+  const sheet = workbook.addWorksheet("Receivables Aging", { views: [{ state: "frozen", ySplit: headerRow }] });
+  sheet.getCell("A1").value = `Receivables Aging as of ${format(report.asOf, "dd/MM/yyyy")}`;
+  sheet.getCell("A1").font = { bold: true, size: 14 };
+
+  const bucketColumns = AGING_BUCKETS.map((bucket, index) => ({ bucket, column: String.fromCharCode(67 + index) }));
+  const totalColumn = String.fromCharCode(67 + AGING_BUCKETS.length);
+  [28, 14, ...AGING_BUCKETS.map(() => 14), 16].forEach((width, index) => {
+    sheet.getColumn(index + 1).width = width;
+  });
+  sheet.getRow(headerRow).values = ["Party", "Unpaid Trips", ...AGING_BUCKETS.map(bucket => AGING_BUCKET_LABELS[bucket]), "Total"];
+  styleHeaderRow(sheet, headerRow);
+
+  // Sums over the party rows; plain zeros when nothing is outstanding, as the
+  // range would otherwise take in the totals row itself
+  const firstRow = headerRow + 1;
+  const lastRow = headerRow + report.rows.length;
+  const columnTotal = (column: string, result: number) =>
+    report.rows.length > 0 ? { formula: `SUM(${column}${firstRow}:${column}${lastRow})`, result } : result;
+  const lastBucketColumn = bucketColumns[bucketColumns.length - 1].column;
+
+  report.rows.forEach((row, index) => {
+    const rowNumber = firstRow + index;
+    const added = sheet.addRow([
+      row.partyName,
+      row.entryCount,
+      ...AGING_BUCKETS.map(bucket => row.buckets[bucket]),
+      { formula: `SUM(C${rowNumber}:${lastBucketColumn}${rowNumber})`, result: row.total },
+    ]);
+    added.eachCell((cell, column) => {
+      if (column > 2) cell.numFmt = CURRENCY_FORMAT;
+    });
+  });
+
+  const totalsRow = sheet.addRow([
+    "Total",
+    columnTotal("B", report.rows.reduce((sum, row) => sum + row.entryCount, 0)),
+    ...bucketColumns.map(({ bucket, column }) => columnTotal(column, report.totals[bucket])),
+    columnTotal(totalColumn, report.total),
+  ]);
+  totalsRow.font = { bold: true };
+  totalsRow.eachCell((cell, column) => {
+    if (column > 2) cell.numFmt = CURRENCY_FORMAT;
+  });
+
+  const shareRow = sheet.addRow([
+    "Share of Outstanding",
+    null,
+    ...bucketColumns.map(({ bucket, column }) => ({
+      formula: `IFERROR(${column}${totalsRow.number}/${totalColumn}${totalsRow.number},0)`,
+      result: report.total > 0 ? report.totals[bucket] / report.total : 0,
+    })),
+  ]);
+  shareRow.eachCell((cell, column) => {
+    if (column > 2) cell.numFmt = "0%";
+  });
+
+  await downloadWorkbook(workbook, `receivables-aging-report-${format(report.asOf, "yyyy-MM-dd")}.xlsx`);
 };
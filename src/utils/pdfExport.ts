@@ -1,40 +1,75 @@
 import { TransportEntry } from "@/types/transport";
+import { Party, StatementLine } from "@/types/party";
+import { FreightBasis, LorryReceipt } from "@/types/lorryReceipt";
+import { Invoice } from "@/types/invoice";
+import { getStatementTotals } from "@/lib/partyStatement";
 import { format } from "date-fns";
+import { getOutstandingAmount, getPaidAmount } from "@/lib/payments";
+import { formatWeight } from "@/lib/weight";
+import { GST_STATES, GTA_SAC_CODE } from "@/lib/gst";
+import { AGING_BUCKETS, AGING_BUCKET_LABELS } from "@/lib/aging";
+import { AgingReport } from "@/types/aging";
+import { Letterhead } from "@/types/company";
 import jsPDF from "jspdf";
 import 'jspdf-autotable';
+import type { RowInput, UserOptions } from 'jspdf-autotable';
 
-// Extend jsPDF type to include autoTable
-declare module 'jspdf' {
-  interface jsPDF {
-    autoTable: (options: any) => void;
-  }
-}
+// jspdf-autotable adds these to every document at runtime. @types/jspdf exports
+// the class with `export =`, which a module augmentation cannot extend.
+type AutoTablePDF = jsPDF & {
+  autoTable: (options: UserOptions) => void;
+  lastAutoTable: { finalY: number };
+};
+
+const createPDF = () => new jsPDF() as AutoTablePDF;
+
+// Address, phone/email and GSTIN lines printed under or beside the company name
+const getLetterheadLines = (letterhead: Letterhead, gstin: string = letterhead.gstin) =>
+  [
+    letterhead.address.replace(/\s*\n\s*/g, ", "),
+    [letterhead.phone && `Phone: ${letterhead.phone}`, letterhead.email].filter(Boolean).join("  |  "),
+    gstin && `GSTIN: ${gstin}`,
+  ].filter(Boolean) as string[];
+
+// Report header: company name on the left, contact details right-aligned beside it
+const drawReportLetterhead = (doc: jsPDF, letterhead: Letterhead, mainColor: [number, number, number]) => {
+  doc.setFontSize(20);
+  doc.setTextColor(...mainColor);
+  doc.text(letterhead.name.toUpperCase(), 14, 20);
 
-export const exportToPDF = (entries: TransportEntry[], startDate: Date, endDate: Date) => {
-  const doc = new jsPDF();
+  doc.setFontSize(8);
+  doc.setTextColor(100);
+  getLetterheadLines(letterhead).forEach((line, index) => {
+    doc.text(line, 196, 12 + index * 4, { align: "right" });
+  });
+};
+
+export const exportToPDF = (
+  entries: TransportEntry[],
+  startDate: Date,
+  endDate: Date,
+  letterhead: Letterhead,
+  periodLabel?: string // e.g. "FY 2026-27", printed ahead of the dates
+) => {
+  const doc = createPDF();
 
-  const mainColor = [41, 128, 185]; // Blue
-  const unpaidColor = [255, 0, 0]; // Red
+  const mainColor: [number, number, number] = [41, 128, 185]; // Blue
+  const unpaidColor: [number, number, number] = [255, 0, 0]; // Red
 
-  // Calculate statistics
+  // Calculate statistics from the payments ledger
   const totalAmount = entries.reduce((sum, entry) => sum + entry.rentAmount, 0);
-  const unpaidAmount = entries
-    .filter(entry => entry.balanceStatus !== "PAID")
-    .reduce((sum, entry) => sum + (entry.rentAmount - (entry.advanceAmount || 0)), 0);
-  const paidAmount = entries
-    .filter(entry => entry.balanceStatus === "PAID")
-    .reduce((sum, entry) => sum + entry.rentAmount, 0);
+  const unpaidAmount = entries.reduce((sum, entry) => sum + getOutstandingAmount(entry), 0);
+  const paidAmount = entries.reduce((sum, entry) => sum + getPaidAmount(entry), 0);
 
   // Title
-  doc.setFontSize(20);
-  doc.setTextColor(...mainColor);
-  doc.text("PRATIK TRANSPORT CO", 14, 20);
+  drawReportLetterhead(doc, letterhead, mainColor);
 
   // Date Range
   doc.setFontSize(12);
   doc.setTextColor(100);
+  const periodDates = `${format(startDate, "dd MMM yyyy")} - ${format(endDate, "dd MMM yyyy")}`;
   doc.text(
-    `Period: ${format(startDate, "dd MMM yyyy")} - ${format(endDate, "dd MMM yyyy")}`,
+    `Period: ${periodLabel ? `${periodLabel} (${periodDates})` : periodDates}`,
     14,
     30
   );
@@ -50,13 +85,13 @@ export const exportToPDF = (entries: TransportEntry[], startDate: Date, endDate:
   yPos += 10;
 
   const summaryStats = [
-    { label: "Unpaid Amount", value: `Rs. ${unpaidAmount.toLocaleString()}`, highlight: true }, // first unpaid
+    { label: "Outstanding Amount", value: `Rs. ${unpaidAmount.toLocaleString()}`, highlight: true }, // first unpaid
     { label: "Total Amount", value: `Rs. ${totalAmount.toLocaleString()}`, highlight: false },
     { label: "Paid Amount", value: `Rs. ${paidAmount.toLocaleString()}`, highlight: false },
     { label: "Total Entries", value: entries.length.toString(), highlight: false },
   ];
 
-  const summaryBody = summaryStats.map(stat => {
+  const summaryBody: RowInput[] = summaryStats.map(stat => {
     if (stat.highlight) {
       return [
         { content: stat.label, styles: { textColor: unpaidColor, fontStyle: 'bold' } },
@@ -67,7 +102,7 @@ export const exportToPDF = (entries: TransportEntry[], startDate: Date, endDate:
     }
   });
 
-  (doc as any).autoTable({
+  doc.autoTable({
     startY: yPos,
     head: [["Metric", "Value"]],
     body: summaryBody,
@@ -87,7 +122,7 @@ export const exportToPDF = (entries: TransportEntry[], startDate: Date, endDate:
   });
 
   // Detailed Entries
-  yPos = (doc as any).lastAutoTable.finalY + 15;
+  yPos = doc.lastAutoTable.finalY + 15;
   doc.setFontSize(16);
   doc.setTextColor(...mainColor);
   doc.text("Detailed Entries", 14, yPos);
@@ -95,17 +130,17 @@ export const exportToPDF = (entries: TransportEntry[], startDate: Date, endDate:
   const tableData = entries.map((entry) => [
     format(new Date(entry.date), "dd/MM/yyyy"),
     entry.vehicleNumber,
-    entry.weight || "-",
+    formatWeight(entry) || "-",
     entry.transportName || "-",
     entry.place || "-",
     `Rs. ${entry.rentAmount.toLocaleString()}`,
-    entry.advanceAmount ? `Rs. ${entry.advanceAmount.toLocaleString()}` : "-",
-    `Rs. ${(entry.rentAmount - (entry.advanceAmount || 0)).toLocaleString()}`,
+    entry.payments.length > 0 ? `Rs. ${getPaidAmount(entry).toLocaleString()}` : "-",
+    `Rs. ${getOutstandingAmount(entry).toLocaleString()}`,
     entry.balanceStatus,
     entry.balanceDate ? format(new Date(entry.balanceDate), "dd/MM/yyyy") : "-",
   ]);
 
-  (doc as any).autoTable({
+  doc.autoTable({
     startY: yPos + 5,
     head: [
       [
@@ -115,8 +150,8 @@ export const exportToPDF = (entries: TransportEntry[], startDate: Date, endDate:
         "Transport",
         "Place",
         "Rent",
-        "Advance",
-        "Balance",
+        "Paid",
+        "Outstanding",
         "Status",
         "Paid Date",
       ],
@@ -144,5 +179,400 @@ export const exportToPDF = (entries: TransportEntry[], startDate: Date, endDate:
   });
 
   // Save PDF
-  doc.save(`transport-report-${format(new Date(), "yyyy-MM-dd")}.pdf`);
+  doc.save(`transport-report-${format(startDate, "yyyy-MM-dd")}-to-${format(endDate, "yyyy-MM-dd")}.pdf`);
+};
+
+export const exportPartyStatementToPDF = (party: Party, lines: StatementLine[], letterhead: Letterhead) => {
+  const doc = createPDF();
+
+  const mainColor: [number, number, number] = [41, 128, 185]; // Blue
+  const unpaidColor: [number, number, number] = [255, 0, 0]; // Red
+
+  const { billed, received, outstanding } = getStatementTotals(lines);
+
+  // Title
+  drawReportLetterhead(doc, letterhead, mainColor);
+
+  // Party details
+  doc.setFontSize(14);
+  doc.setTextColor(60);
+  doc.text(`Account Statement: ${party.name}`, 14, 30);
+
+  doc.setFontSize(10);
+  doc.setTextColor(100);
+  const details = [
+    party.gstin && `GSTIN: ${party.gstin}`,
+    party.phone && `Phone: ${party.phone}`,
+    party.address,
+    `Generated on ${format(new Date(), "dd MMM yyyy")}`,
+  ].filter(Boolean);
+  details.forEach((line, index) => doc.text(line, 14, 37 + index * 5));
+
+  doc.autoTable({
+    startY: 40 + details.length * 5,
+    head: [["Metric", "Value"]],
+    body: [
+      ["Total Billed", `Rs. ${billed.toLocaleString()}`],
+      ["Total Received", `Rs. ${received.toLocaleString()}`],
+      [
+        { content: "Outstanding", styles: { textColor: unpaidColor, fontStyle: 'bold' } },
+        { content: `Rs. ${outstanding.toLocaleString()}`, styles: { textColor: unpaidColor, fontStyle: 'bold' } },
+      ],
+    ],
+    theme: "grid",
+    headStyles: {
+      fillColor: mainColor,
+      textColor: 255,
+      fontSize: 10,
+      fontStyle: "bold",
+    },
+    styles: {
+      fontSize: 9,
+      cellPadding: 3,
+    },
+    margin: { left: 14 },
+    tableWidth: 180,
+  });
+
+  doc.autoTable({
+    startY: doc.lastAutoTable.finalY + 10,
+    head: [["Date", "Type", "Particulars", "Debit", "Credit", "Balance"]],
+    body: lines.map((line) => [
+      line.date ? format(line.date, "dd/MM/yyyy") : "-",
+      line.type === "OPENING" ? "Opening" : line.type === "TRIP" ? "Trip" : "Payment",
+      line.description || "-",
+      line.debit ? `Rs. ${line.debit.toLocaleString()}` : "",
+      line.credit ? `Rs. ${line.credit.toLocaleString()}` : "",
+      `Rs. ${line.balance.toLocaleString()}`,
+    ]),
+    theme: "grid",
+    styles: {
+      fontSize: 8,
+      cellPadding: 2,
+      overflow: 'linebreak',
+    },
+    columnStyles: {
+      3: { halign: 'right', cellWidth: 25 },
+      4: { halign: 'right', cellWidth: 25 },
+      5: { halign: 'right', cellWidth: 28 },
+    },
+    headStyles: {
+      fillColor: mainColor,
+      textColor: 255,
+      fontSize: 8,
+      fontStyle: "bold",
+    },
+    margin: { left: 10, right: 10 },
+    tableWidth: 'auto',
+  });
+
+  const fileName = party.name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+  doc.save(`statement-${fileName}-${format(new Date(), "yyyy-MM-dd")}.pdf`);
+};
+
+const FREIGHT_BASIS_LABELS: Record<FreightBasis, string> = {
+  TO_PAY: "TO PAY",
+  PAID: "PAID",
+  TO_BE_BILLED: "TO BE BILLED",
+};
+
+export const exportLorryReceiptToPDF = (entry: TransportEntry, lr: LorryReceipt, letterhead: Letterhead) => {
+  const doc = createPDF();
+
+  const mainColor: [number, number, number] = [41, 128, 185]; // Blue
+
+  // Letterhead
+  doc.setFontSize(20);
+  doc.setTextColor(...mainColor);
+  doc.text(letterhead.name.toUpperCase(), 105, 18, { align: "center" });
+
+  let titleY = 26;
+  doc.setFontSize(8);
+  doc.setTextColor(100);
+  getLetterheadLines(letterhead).forEach((line) => {
+    doc.text(line, 105, titleY - 2, { align: "center" });
+    titleY += 4;
+  });
+
+  doc.setFontSize(12);
+  doc.setTextColor(60);
+  doc.text("LORRY RECEIPT / CONSIGNMENT NOTE", 105, titleY, { align: "center" });
+
+  doc.autoTable({
+    startY: titleY + 6,
+    body: [
+      ["LR No.", lr.lrNumber, "Date", format(lr.lrDate, "dd/MM/yyyy")],
+      ["Vehicle No.", entry.vehicleNumber, "Freight", FREIGHT_BASIS_LABELS[lr.freightBasis]],
+      ["From", lr.origin, "To", lr.destination],
+    ],
+    theme: "grid",
+    styles: {
+      fontSize: 10,
+      cellPadding: 3,
+    },
+    columnStyles: {
+      0: { fontStyle: "bold", cellWidth: 30 },
+      2: { fontStyle: "bold", cellWidth: 25 },
+    },
+    margin: { left: 14, right: 14 },
+  });
+
+  const partyBlock = (name: string, address: string, gstin: string) =>
+    [name, address, gstin && `GSTIN: ${gstin}`].filter(Boolean).join("\n");
+
+  doc.autoTable({
+    startY: doc.lastAutoTable.finalY + 6,
+    head: [["Consignor", "Consignee"]],
+    body: [[
+      partyBlock(lr.consignorName, lr.consignorAddress, lr.consignorGstin),
+      partyBlock(lr.consigneeName, lr.consigneeAddress, lr.consigneeGstin),
+    ]],
+    theme: "grid",
+    headStyles: {
+      fillColor: mainColor,
+      textColor: 255,
+      fontSize: 10,
+      fontStyle: "bold",
+    },
+    styles: {
+      fontSize: 9,
+      cellPadding: 3,
+      overflow: 'linebreak',
+    },
+    margin: { left: 14, right: 14 },
+  });
+
+  doc.autoTable({
+    startY: doc.lastAutoTable.finalY + 6,
+    head: [["Description of Goods", "Packages", "Weight", "Freight"]],
+    body: [[
+      lr.goodsDescription,
+      lr.packages !== null ? lr.packages.toString() : "-",
+      formatWeight(entry) || "-",
+      lr.freightBasis === "TO_BE_BILLED" ? "To be billed" : `Rs. ${entry.rentAmount.toLocaleString()}`,
+    ]],
+    theme: "grid",
+    headStyles: {
+      fillColor: mainColor,
+      textColor: 255,
+      fontSize: 10,
+      fontStyle: "bold",
+    },
+    styles: {
+      fontSize: 9,
+      cellPadding: 3,
+      overflow: 'linebreak',
+    },
+    columnStyles: {
+      1: { halign: 'right', cellWidth: 25 },
+      2: { halign: 'right', cellWidth: 30 },
+      3: { halign: 'right', cellWidth: 35 },
+    },
+    margin: { left: 14, right: 14 },
+  });
+
+  // Signatures
+  const signatureY = doc.lastAutoTable.finalY + 30;
+  doc.setFontSize(9);
+  doc.setTextColor(60);
+  doc.text("Consignor's Signature", 14, signatureY);
+  doc.text("Driver's Signature", 90, signatureY);
+  doc.text(`For ${letterhead.name.toUpperCase()}`, 196, signatureY, { align: "right" });
+
+  doc.save(`${lr.lrNumber.replace(/[^A-Za-z0-9-]+/g, "-")}.pdf`);
+};
+
+export const exportInvoiceToPDF = (invoice: Invoice, letterhead: Letterhead) => {
+  const doc = createPDF();
+
+  const mainColor: [number, number, number] = [41, 128, 185]; // Blue
+
+  const formatAmount = (amount: number) =>
+    `Rs. ${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  const isIntraState = invoice.igstAmount === 0;
+  const halfRate = invoice.gstRate / 2;
+
+  // Letterhead. The GSTIN is the one copied onto the invoice when it was issued.
+  doc.setFontSize(20);
+  doc.setTextColor(...mainColor);
+  doc.text(letterhead.name.toUpperCase(), 14, 20);
+
+  doc.setFontSize(9);
+  doc.setTextColor(100);
+  const letterheadLines = getLetterheadLines(letterhead, invoice.supplierGstin);
+  letterheadLines.forEach((line, index) => {
+    doc.text(line, 14, 26 + index * 4.5);
+  });
+
+  doc.setFontSize(14);
+  doc.setTextColor(60);
+  doc.text("TAX INVOICE", 196, 20, { align: "right" });
+  doc.setFontSize(10);
+  doc.text(`Invoice No: ${invoice.invoiceNumber}`, 196, 27, { align: "right" });
+  doc.text(`Date: ${format(invoice.invoiceDate, "dd/MM/yyyy")}`, 196, 32, { align: "right" });
+
+  doc.autoTable({
+    startY: Math.max(40, 26 + letterheadLines.length * 4.5 + 2),
+    head: [["Bill To", "Supply Details"]],
+    body: [[
+      [invoice.partyName, invoice.partyAddress, invoice.partyGstin && `GSTIN: ${invoice.partyGstin}`]
+        .filter(Boolean)
+        .join("\n"),
+      [
+        `Place of supply: ${invoice.placeOfSupply} - ${GST_STATES[invoice.placeOfSupply] || ""}`,
+        `SAC: ${GTA_SAC_CODE} (Goods Transport Agency)`,
+        `Tax payable on reverse charge: ${invoice.gstMode === "RCM" ? "Yes" : "No"}`,
+      ].join("\n"),
+    ]],
+    theme: "grid",
+    headStyles: {
+      fillColor: mainColor,
+      textColor: 255,
+      fontSize: 10,
+      fontStyle: "bold",
+    },
+    styles: {
+      fontSize: 9,
+      cellPadding: 3,
+      overflow: 'linebreak',
+    },
+    margin: { left: 14, right: 14 },
+  });
+
+  doc.autoTable({
+    startY: doc.lastAutoTable.finalY + 6,
+    head: [["#", "Particulars", "Amount"]],
+    body: invoice.lines.map((line, index) => [
+      (index + 1).toString(),
+      line.description,
+      formatAmount(line.amount),
+    ]),
+    theme: "grid",
+    headStyles: {
+      fillColor: mainColor,
+      textColor: 255,
+      fontSize: 10,
+      fontStyle: "bold",
+    },
+    styles: {
+      fontSize: 9,
+      cellPadding: 3,
+      overflow: 'linebreak',
+    },
+    columnStyles: {
+      0: { cellWidth: 10 },
+      2: { halign: 'right', cellWidth: 35 },
+    },
+    margin: { left: 14, right: 14 },
+  });
+
+  const taxRows = isIntraState
+    ? [
+        [`CGST @ ${halfRate}%`, formatAmount(invoice.cgstAmount)],
+        [`SGST @ ${halfRate}%`, formatAmount(invoice.sgstAmount)],
+      ]
+    : [[`IGST @ ${invoice.gstRate}%`, formatAmount(invoice.igstAmount)]];
+
+  doc.autoTable({
+    startY: doc.lastAutoTable.finalY + 2,
+    body: [
+      ["Taxable Value", formatAmount(invoice.taxableAmount)],
+      ...taxRows,
+      [
+        { content: "Invoice Total", styles: { fontStyle: 'bold' } },
+        { content: formatAmount(invoice.totalAmount), styles: { fontStyle: 'bold' } },
+      ],
+    ],
+    theme: "grid",
+    styles: {
+      fontSize: 9,
+      cellPadding: 3,
+    },
+    columnStyles: {
+      1: { halign: 'right', cellWidth: 35 },
+    },
+    margin: { left: 106, right: 14 },
+  });
+
+  let noteY = doc.lastAutoTable.finalY + 8;
+  doc.setFontSize(9);
+  doc.setTextColor(100);
+  if (invoice.gstMode === "RCM") {
+    doc.text(
+      "GST on this invoice is payable by the recipient under reverse charge and is not included in the total.",
+      14,
+      noteY
+    );
+    noteY += 5;
+  }
+
+  doc.setTextColor(60);
+  doc.text(`For ${letterhead.name.toUpperCase()}`, 196, noteY + 20, { align: "right" });
+  doc.text("Authorised Signatory", 196, noteY + 35, { align: "right" });
+
+  doc.save(`Invoice-${invoice.invoiceNumber.replace(/[^A-Za-z0-9-]+/g, "-")}.pdf`);
+};
+
+export const exportAgingToPDF = (report: AgingReport, letterhead: Letterhead) => {
+  const doc = createPDF();
+
+  const mainColor: [number, number, number] = [41, 128, 185]; // Blue
+  const unpaidColor: [number, number, number] = [255, 0, 0]; // Red
+
+  // Title
+  drawReportLetterhead(doc, letterhead, mainColor);
+
+  doc.setFontSize(14);
+  doc.setTextColor(60);
+  doc.text("Receivables Aging", 14, 30);
+
+  doc.setFontSize(10);
+  doc.setTextColor(100);
+  doc.text(`Outstanding as of ${format(report.asOf, "dd MMM yyyy")}, by days since trip date`, 14, 37);
+
+  doc.autoTable({
+    startY: 44,
+    head: [["Party", "Trips", ...AGING_BUCKETS.map(bucket => AGING_BUCKET_LABELS[bucket]), "Total"]],
+    body: report.rows.map((row) => [
+      row.partyName,
+      row.entryCount.toString(),
+      ...AGING_BUCKETS.map(bucket => (row.buckets[bucket] > 0 ? `Rs. ${row.buckets[bucket].toLocaleString()}` : "-")),
+      `Rs. ${row.total.toLocaleString()}`,
+    ]),
+    foot: [[
+      "Total",
+      report.rows.reduce((sum, row) => sum + row.entryCount, 0).toString(),
+      ...AGING_BUCKETS.map(bucket => `Rs. ${report.totals[bucket].toLocaleString()}`),
+      { content: `Rs. ${report.total.toLocaleString()}`, styles: { textColor: unpaidColor } },
+    ]],
+    theme: "grid",
+    headStyles: {
+      fillColor: mainColor,
+      textColor: 255,
+      fontSize: 9,
+      fontStyle: "bold",
+    },
+    footStyles: {
+      fillColor: [240, 240, 240],
+      textColor: 40,
+      fontSize: 9,
+      fontStyle: "bold",
+    },
+    styles: {
+      fontSize: 8,
+      cellPadding: 2,
+      overflow: 'linebreak',
+    },
+    columnStyles: {
+      1: { halign: 'right', cellWidth: 14 },
+      2: { halign: 'right', cellWidth: 24 },
+      3: { halign: 'right', cellWidth: 24 },
+      4: { halign: 'right', cellWidth: 24 },
+      5: { halign: 'right', cellWidth: 24 },
+      6: { halign: 'right', cellWidth: 26 },
+    },
+    margin: { left: 14, right: 14 },
+  });
+
+  doc.save(`receivables-aging-${format(report.asOf, "yyyy-MM-dd")}.pdf`);
 };
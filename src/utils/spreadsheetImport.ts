@@ -0,0 +1,54 @@
+import ExcelJS from "exceljs";
+import { parseCsv } from "@/lib/csv";
+import { ImportCell, ImportSheet } from "@/types/import";
+
+export const IMPORT_FILE_TYPES = ".csv,.xlsx";
+
+// Excel stores a date as a day count, which ExcelJS hands back as UTC midnight;
+// the trip date is that calendar day wherever the browser is
+const toLocalDate = (date: Date) => new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+// Formulas give their last calculated result, rich text and links their text
+const toImportCell = (value: ExcelJS.CellValue): ImportCell => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return toLocalDate(value);
+  if (typeof value !== "object") return value;
+  if ("result" in value) return value.result === undefined ? null : toImportCell(value.result as ExcelJS.CellValue);
+  if ("richText" in value) return value.richText.map((run) => run.text).join("");
+  if ("text" in value) return typeof value.text === "string" ? value.text : null;
+  return null;
+};
+
+const readWorkbook = async (file: File): Promise<ImportCell[][]> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  // row.values is 1-based with a hole at 0; blank rows are kept so row numbers match the sheet
+  const rows: ImportCell[][] = [];
+  for (let rowNumber = 1; rowNumber <= sheet.rowCount; rowNumber++) {
+    const row = sheet.getRow(rowNumber);
+    const cells: ImportCell[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(toImportCell(row.getCell(column).value));
+    }
+    rows.push(cells);
+  }
+  return rows;
+};
+
+// Reads the first sheet of a CSV or Excel file; the first row is taken as headers.
+// CSV cells are kept as text so "03/04/2024" is not turned into a US date on the way in.
+export const readSpreadsheet = async (file: File): Promise<ImportSheet> => {
+  const isCsv = file.name.toLowerCase().endsWith(".csv");
+  const [headerRow = [], ...rows] = isCsv
+    ? parseCsv(await file.text()).map((row) => row.map((cell): ImportCell => (cell === "" ? null : cell)))
+    : await readWorkbook(file);
+
+  return {
+    fileName: file.name,
+    headers: headerRow.map((cell, index) => (cell === null ? `Column ${index + 1}` : String(cell).trim())),
+    rows,
+  };
+};
@@ -0,0 +1,48 @@
+import { format } from "date-fns";
+import { buildTallyMasters, buildTallyVouchers, getInvoicesByEntry, getTallyPartyLedger } from "@/lib/tally";
+import { Settings } from "@/services/settingsService";
+import { Invoice } from "@/types/invoice";
+import { Party } from "@/types/party";
+import { TransportEntry } from "@/types/transport";
+
+const downloadXml = (content: string, fileName: string) => {
+  const blob = new Blob([content], { type: "application/xml;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+
+  link.setAttribute("href", url);
+  link.setAttribute("download", fileName);
+  link.style.visibility = "hidden";
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Two files for Tally's Import > Masters and Import > Transactions, in that order.
+// Returns how many entries were left out (trips with no party to post them to, and
+// invoiced trips whose invoice is not among those given) and how many trips went
+// out without GST because they are not invoiced yet.
+export const exportToTally = (
+  entries: TransportEntry[],
+  invoices: Invoice[],
+  parties: Party[],
+  settings: Settings,
+  companyName: string
+) => {
+  const tallyCompany = settings.tally_company_name || companyName;
+  const invoicesByEntry = getInvoicesByEntry(invoices);
+  const exported = entries.filter((entry) =>
+    invoicesByEntry.has(entry.id) || (!entry.invoiceNumber && getTallyPartyLedger(entry))
+  );
+  const stamp = format(new Date(), "yyyy-MM-dd");
+
+  downloadXml(buildTallyMasters(exported, invoices, parties, settings, tallyCompany), `tally-masters-${stamp}.xml`);
+  downloadXml(buildTallyVouchers(exported, invoices, settings, tallyCompany), `tally-vouchers-${stamp}.xml`);
+
+  return {
+    skipped: entries.length - exported.length,
+    uninvoiced: exported.filter((entry) => !invoicesByEntry.has(entry.id)).length,
+  };
+};
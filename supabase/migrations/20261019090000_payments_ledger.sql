@@ -0,0 +1,93 @@
+-- Payments ledger: every instalment received against a transport entry.
+create table if not exists public.payments (
+  id uuid primary key default gen_random_uuid(),
+  entry_id uuid not null references public.transport_entries (id) on delete cascade,
+  amount numeric not null check (amount > 0),
+  date timestamptz not null default now(),
+  mode text not null default 'Cash'
+    check (mode in ('Cash', 'Bank Transfer', 'Check', 'UPI')),
+  reference_number text,
+  created_at timestamptz default now()
+);
+
+create index if not exists payments_entry_id_idx on public.payments (entry_id);
+
+-- Move the single advance (and the settled remainder of PAID entries) into the ledger
+insert into public.payments (entry_id, amount, date, mode)
+select id, advance_amount, coalesce(advance_date, date), coalesce(advance_type, 'Cash')
+from public.transport_entries
+where advance_amount is not null and advance_amount > 0;
+
+insert into public.payments (entry_id, amount, date, mode)
+select id, rent_amount - coalesce(advance_amount, 0), coalesce(balance_date, date), 'Cash'
+from public.transport_entries
+where balance_status = 'PAID' and rent_amount - coalesce(advance_amount, 0) > 0;
+
+-- balance_status and balance_date are derived from the ledger from now on
+create or replace function public.recompute_balance_status(target_entry_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  paid numeric;
+  last_payment timestamptz;
+  rent numeric;
+begin
+  select coalesce(sum(amount), 0), max(date)
+    into paid, last_payment
+    from public.payments
+    where entry_id = target_entry_id;
+
+  select rent_amount into rent from public.transport_entries where id = target_entry_id;
+
+  update public.transport_entries
+    set balance_status = case
+          when paid <= 0 then 'UNPAID'
+          when paid >= rent then 'PAID'
+          else 'PARTIAL'
+        end,
+        balance_date = case when paid >= rent and paid > 0 then last_payment else null end
+    where id = target_entry_id;
+end;
+$$;
+
+create or replace function public.payments_recompute_balance()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform public.recompute_balance_status(old.entry_id);
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') then
+    perform public.recompute_balance_status(new.entry_id);
+  end if;
+  return null;
+end;
+$$;
+
+create trigger payments_recompute_balance
+after insert or update or delete on public.payments
+for each row execute function public.payments_recompute_balance();
+
+create or replace function public.transport_entries_recompute_balance()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform public.recompute_balance_status(new.id);
+  return null;
+end;
+$$;
+
+create trigger transport_entries_recompute_balance
+after insert or update of rent_amount on public.transport_entries
+for each row execute function public.transport_entries_recompute_balance();
+
+select public.recompute_balance_status(id) from public.transport_entries;
+
+alter table public.transport_entries
+  alter column balance_status set default 'UNPAID',
+  drop column if exists advance_amount,
+  drop column if exists advance_date,
+  drop column if exists advance_type;
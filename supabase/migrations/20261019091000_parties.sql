@@ -0,0 +1,33 @@
+-- Parties master: one row per customer, so spelling variants stop splitting reports.
+create table if not exists public.parties (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (btrim(name) <> ''),
+  gstin text,
+  phone text,
+  address text,
+  opening_balance numeric not null default 0,
+  created_at timestamptz default now()
+);
+
+-- "Sharma Roadlines" and "sharma roadlines " are the same party
+create unique index if not exists parties_name_key on public.parties (lower(btrim(name)));
+
+alter table public.transport_entries
+  add column if not exists party_id uuid references public.parties (id) on delete set null;
+
+create index if not exists transport_entries_party_id_idx on public.transport_entries (party_id);
+
+-- Seed the master from the free-text names already on entries, keeping the
+-- earliest spelling of each party
+insert into public.parties (name)
+select distinct on (lower(btrim(transport_name))) btrim(transport_name)
+from public.transport_entries
+where transport_name is not null and btrim(transport_name) <> ''
+order by lower(btrim(transport_name)), created_at
+on conflict do nothing;
+
+update public.transport_entries e
+set party_id = p.id,
+    transport_name = p.name
+from public.parties p
+where lower(btrim(e.transport_name)) = lower(btrim(p.name));
@@ -0,0 +1,25 @@
+-- Vehicles registry with statutory document expiry dates.
+create table if not exists public.vehicles (
+  id uuid primary key default gen_random_uuid(),
+  registration_number text not null,
+  ownership text not null default 'OWN' check (ownership in ('OWN', 'MARKET')),
+  owner_name text,
+  vehicle_type text,
+  capacity numeric,
+  insurance_expiry date,
+  permit_expiry date,
+  fitness_expiry date,
+  puc_expiry date,
+  created_at timestamptz default now()
+);
+
+-- Registration numbers are stored upper-cased without spaces, e.g. MH12AB1234
+create unique index if not exists vehicles_registration_number_key
+  on public.vehicles (upper(replace(registration_number, ' ', '')));
+
+-- Seed the registry with every vehicle already used on an entry
+insert into public.vehicles (registration_number, ownership)
+select distinct upper(replace(vehicle_number, ' ', '')), 'OWN'
+from public.transport_entries
+where vehicle_number is not null and btrim(vehicle_number) <> ''
+on conflict do nothing;
@@ -0,0 +1,27 @@
+-- Drivers master, and a real weight column in place of the overloaded driver_name.
+create table if not exists public.drivers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (btrim(name) <> ''),
+  mobile text,
+  licence_number text,
+  licence_expiry date,
+  default_vehicle_id uuid references public.vehicles (id) on delete set null,
+  created_at timestamptz default now()
+);
+
+create unique index if not exists drivers_licence_number_key
+  on public.drivers (upper(replace(licence_number, ' ', '')))
+  where licence_number is not null;
+
+alter table public.transport_entries
+  add column if not exists weight text,
+  add column if not exists driver_id uuid references public.drivers (id) on delete set null;
+
+create index if not exists transport_entries_driver_id_idx on public.transport_entries (driver_id);
+
+-- driver_name has only ever held the goods weight
+update public.transport_entries
+set weight = driver_name
+where weight is null and driver_name is not null;
+
+alter table public.transport_entries drop column if exists driver_name;
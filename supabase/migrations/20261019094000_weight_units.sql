@@ -0,0 +1,22 @@
+-- Numeric weight with an explicit unit, plus an optional freight rate per unit.
+alter table public.transport_entries
+  add column if not exists weight_unit text not null default 'ton'
+    check (weight_unit in ('kg', 'quintal', 'ton')),
+  add column if not exists rate_per_unit numeric check (rate_per_unit is null or rate_per_unit >= 0);
+
+-- Work out the unit from free text such as "12 ton", "12000kg" or "85 qtl";
+-- a bare number is taken to be tons
+update public.transport_entries
+set weight_unit = case
+      when weight ~* '(kg|kilo)' then 'kg'
+      when weight ~* '(qtl|quintal)' then 'quintal'
+      else 'ton'
+    end
+where weight is not null;
+
+alter table public.transport_entries
+  alter column weight type numeric
+  using nullif(substring(replace(weight, ',', '') from '[0-9]+(?:\.[0-9]+)?'), '')::numeric;
+
+alter table public.transport_entries
+  add constraint transport_entries_weight_check check (weight is null or weight >= 0);
@@ -0,0 +1,95 @@
+-- App-wide settings as key/value pairs, e.g. the Lorry Receipt number prefix.
+create table if not exists public.settings (
+  key text primary key,
+  value jsonb not null,
+  updated_at timestamptz default now()
+);
+
+insert into public.settings (key, value) values ('lr_prefix', '"LR"')
+on conflict (key) do nothing;
+
+-- Indian financial year (April-March) a date falls in, e.g. 2026-10-19 -> '2026-27'
+create or replace function public.financial_year_of(d date)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when extract(month from d) >= 4
+      then extract(year from d)::int || '-' || lpad(((extract(year from d)::int + 1) % 100)::text, 2, '0')
+    else (extract(year from d)::int - 1) || '-' || lpad((extract(year from d)::int % 100)::text, 2, '0')
+  end;
+$$;
+
+-- One counter per financial year. Serials are only ever incremented, so a
+-- deleted LR never frees its number for reuse.
+create table if not exists public.lr_series (
+  financial_year text primary key,
+  last_serial integer not null default 0
+);
+
+create table if not exists public.lorry_receipts (
+  id uuid primary key default gen_random_uuid(),
+  entry_id uuid not null unique references public.transport_entries (id) on delete restrict,
+  lr_number text not null unique,
+  lr_date date not null default current_date,
+  financial_year text not null,
+  serial integer not null,
+  consignor_name text not null,
+  consignor_address text,
+  consignor_gstin text,
+  consignee_name text not null,
+  consignee_address text,
+  consignee_gstin text,
+  origin text not null,
+  destination text not null,
+  goods_description text not null,
+  packages integer check (packages is null or packages >= 0),
+  freight_basis text not null default 'TO_PAY'
+    check (freight_basis in ('TO_PAY', 'PAID', 'TO_BE_BILLED')),
+  created_at timestamptz default now()
+);
+
+create or replace function public.assign_lr_number()
+returns trigger
+language plpgsql
+as $$
+declare
+  prefix text;
+begin
+  new.financial_year := public.financial_year_of(new.lr_date);
+
+  insert into public.lr_series (financial_year, last_serial)
+  values (new.financial_year, 1)
+  on conflict (financial_year)
+    do update set last_serial = public.lr_series.last_serial + 1
+  returning last_serial into new.serial;
+
+  select value #>> '{}' into prefix from public.settings where key = 'lr_prefix';
+  new.lr_number := coalesce(nullif(prefix, ''), 'LR') || '/' || new.financial_year || '/' || lpad(new.serial::text, 4, '0');
+  return new;
+end;
+$$;
+
+create trigger lorry_receipts_assign_number
+before insert on public.lorry_receipts
+for each row execute function public.assign_lr_number();
+
+-- An issued number is permanent, whatever else on the LR gets corrected
+create or replace function public.keep_lr_number()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.lr_number := old.lr_number;
+  new.financial_year := old.financial_year;
+  new.serial := old.serial;
+  new.lr_date := old.lr_date;
+  new.entry_id := old.entry_id;
+  return new;
+end;
+$$;
+
+create trigger lorry_receipts_keep_number
+before update on public.lorry_receipts
+for each row execute function public.keep_lr_number();
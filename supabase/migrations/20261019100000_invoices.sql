@@ -0,0 +1,98 @@
+insert into public.settings (key, value) values
+  ('invoice_prefix', '"INV"'),
+  ('company_gstin', '""')
+on conflict (key) do nothing;
+
+-- Same scheme as lr_series: one ever-increasing counter per financial year
+create table if not exists public.invoice_series (
+  financial_year text primary key,
+  last_serial integer not null default 0
+);
+
+create table if not exists public.invoices (
+  id uuid primary key default gen_random_uuid(),
+  invoice_number text not null unique,
+  invoice_date date not null default current_date,
+  financial_year text not null,
+  serial integer not null,
+  party_id uuid not null references public.parties (id) on delete restrict,
+  -- Billing details are copied at issue time so later party edits don't alter the invoice
+  party_name text not null,
+  party_gstin text,
+  party_address text,
+  supplier_gstin text,
+  place_of_supply text not null check (place_of_supply ~ '^\d{2}$'),
+  gst_mode text not null check (gst_mode in ('RCM', 'FORWARD')),
+  gst_rate numeric not null,
+  taxable_amount numeric not null,
+  cgst_amount numeric not null default 0,
+  sgst_amount numeric not null default 0,
+  igst_amount numeric not null default 0,
+  total_amount numeric not null,
+  created_at timestamptz default now()
+);
+
+-- A trip can be billed on one invoice only
+create table if not exists public.invoice_lines (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null references public.invoices (id) on delete cascade,
+  entry_id uuid not null unique references public.transport_entries (id) on delete restrict,
+  description text not null,
+  amount numeric not null
+);
+
+create index if not exists invoice_lines_invoice_id_idx on public.invoice_lines (invoice_id);
+
+create or replace function public.assign_invoice_number()
+returns trigger
+language plpgsql
+as $$
+declare
+  prefix text;
+begin
+  new.financial_year := public.financial_year_of(new.invoice_date);
+
+  insert into public.invoice_series (financial_year, last_serial)
+  values (new.financial_year, 1)
+  on conflict (financial_year)
+    do update set last_serial = public.invoice_series.last_serial + 1
+  returning last_serial into new.serial;
+
+  select value #>> '{}' into prefix from public.settings where key = 'invoice_prefix';
+  new.invoice_number := coalesce(nullif(prefix, ''), 'INV') || '/' || new.financial_year || '/' || lpad(new.serial::text, 4, '0');
+  return new;
+end;
+$$;
+
+create trigger invoices_assign_number
+before insert on public.invoices
+for each row execute function public.assign_invoice_number();
+
+-- Billed trips are frozen: anything printed on the invoice can no longer change.
+-- Payments and the derived balance_status are still updated as money comes in.
+create or replace function public.lock_invoiced_entry()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (select 1 from public.invoice_lines where entry_id = old.id)
+    and (
+      new.date is distinct from old.date
+      or new.party_id is distinct from old.party_id
+      or new.place is distinct from old.place
+      or new.vehicle_number is distinct from old.vehicle_number
+      or new.weight is distinct from old.weight
+      or new.weight_unit is distinct from old.weight_unit
+      or new.rate_per_unit is distinct from old.rate_per_unit
+      or new.rent_amount is distinct from old.rent_amount
+    ) then
+    raise exception 'Transport entry % is invoiced and cannot be edited', old.id
+      using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger transport_entries_lock_invoiced
+before update on public.transport_entries
+for each row execute function public.lock_invoiced_entry();
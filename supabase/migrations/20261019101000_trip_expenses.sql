@@ -0,0 +1,15 @@
+-- Expenses ledger: money spent running a trip, set against its rent to get profit.
+create table if not exists public.trip_expenses (
+  id uuid primary key default gen_random_uuid(),
+  entry_id uuid not null references public.transport_entries (id) on delete cascade,
+  category text not null
+    check (category in ('Diesel', 'Toll', 'Loading', 'Unloading', 'Driver Bata', 'Repairs', 'Other')),
+  amount numeric not null check (amount > 0),
+  date timestamptz not null default now(),
+  mode text not null default 'Cash'
+    check (mode in ('Cash', 'Bank Transfer', 'Check', 'UPI')),
+  note text,
+  created_at timestamptz default now()
+);
+
+create index if not exists trip_expenses_entry_id_idx on public.trip_expenses (entry_id);
@@ -0,0 +1,171 @@
+-- Sign-in and row level security. Every business row belongs to a company and
+-- users only ever see rows of the company on their profile.
+create table if not exists public.companies (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_at timestamptz default now()
+);
+
+create table if not exists public.profiles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  company_id uuid not null references public.companies (id) on delete restrict,
+  full_name text,
+  created_at timestamptz default now()
+);
+
+-- Existing data all belongs to the one company using the app today
+insert into public.companies (name)
+select 'Pratik Transport Co'
+where not exists (select 1 from public.companies);
+
+-- security definer so policies can call it without tripping over RLS on profiles
+create or replace function public.current_company_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select company_id from public.profiles where user_id = auth.uid();
+$$;
+
+-- Users are created with the service role and join the company named in their
+-- app metadata (company_id). User metadata is writable by anyone signing up with
+-- the anon key, so it never decides the company; a user without one is refused.
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.raw_app_meta_data ->> 'company_id' is null then
+    raise exception 'New users need a company_id in their app metadata'
+      using errcode = 'P0001';
+  end if;
+
+  insert into public.profiles (user_id, company_id, full_name)
+  values (
+    new.id,
+    (new.raw_app_meta_data ->> 'company_id')::uuid,
+    new.raw_user_meta_data ->> 'full_name'
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+after insert on auth.users
+for each row execute function public.handle_new_user();
+
+insert into public.profiles (user_id, company_id)
+select u.id, (select id from public.companies order by created_at limit 1)
+from auth.users u
+on conflict (user_id) do nothing;
+
+-- company_id on every top-level table, filled in from the signed-in user on insert
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['transport_entries', 'parties', 'vehicles', 'drivers', 'lorry_receipts', 'invoices'] loop
+    execute format('alter table public.%I add column if not exists company_id uuid references public.companies (id) on delete restrict', t);
+    execute format('update public.%I set company_id = (select id from public.companies order by created_at limit 1) where company_id is null', t);
+    execute format('alter table public.%I alter column company_id set default public.current_company_id()', t);
+    execute format('alter table public.%I alter column company_id set not null', t);
+    execute format('create index if not exists %I on public.%I (company_id)', t || '_company_id_idx', t);
+  end loop;
+end;
+$$;
+
+-- Names and registrations only need to be unique within a company
+drop index if exists public.parties_name_key;
+create unique index parties_name_key on public.parties (company_id, lower(btrim(name)));
+
+drop index if exists public.vehicles_registration_number_key;
+create unique index vehicles_registration_number_key
+  on public.vehicles (company_id, upper(replace(registration_number, ' ', '')));
+
+drop index if exists public.drivers_licence_number_key;
+create unique index drivers_licence_number_key
+  on public.drivers (company_id, upper(replace(licence_number, ' ', '')))
+  where licence_number is not null;
+
+-- Replace whatever policies the tables had (the old ones let the anon key do anything)
+do $$
+declare
+  p record;
+begin
+  for p in
+    select policyname, tablename from pg_policies
+    where schemaname = 'public'
+      and tablename in ('transport_entries', 'payments', 'trip_expenses', 'parties', 'vehicles', 'drivers',
+                        'lorry_receipts', 'invoices', 'invoice_lines', 'settings', 'lr_series', 'invoice_series')
+  loop
+    execute format('drop policy %I on public.%I', p.policyname, p.tablename);
+  end loop;
+end;
+$$;
+
+alter table public.companies enable row level security;
+alter table public.profiles enable row level security;
+alter table public.transport_entries enable row level security;
+alter table public.payments enable row level security;
+alter table public.trip_expenses enable row level security;
+alter table public.parties enable row level security;
+alter table public.vehicles enable row level security;
+alter table public.drivers enable row level security;
+alter table public.lorry_receipts enable row level security;
+alter table public.invoices enable row level security;
+alter table public.invoice_lines enable row level security;
+alter table public.settings enable row level security;
+alter table public.lr_series enable row level security;
+alter table public.invoice_series enable row level security;
+
+create policy "Members read their company" on public.companies
+  for select to authenticated using (id = public.current_company_id());
+
+create policy "Users read their own profile" on public.profiles
+  for select to authenticated using (user_id = auth.uid());
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['transport_entries', 'parties', 'vehicles', 'drivers', 'lorry_receipts', 'invoices'] loop
+    execute format(
+      'create policy "Company members manage rows" on public.%I for all to authenticated
+         using (company_id = public.current_company_id())
+         with check (company_id = public.current_company_id())',
+      t
+    );
+  end loop;
+end;
+$$;
+
+-- Ledger rows follow the entry they belong to
+create policy "Company members manage payments" on public.payments
+  for all to authenticated
+  using (exists (select 1 from public.transport_entries e where e.id = entry_id))
+  with check (exists (select 1 from public.transport_entries e where e.id = entry_id));
+
+create policy "Company members manage trip expenses" on public.trip_expenses
+  for all to authenticated
+  using (exists (select 1 from public.transport_entries e where e.id = entry_id))
+  with check (exists (select 1 from public.transport_entries e where e.id = entry_id));
+
+create policy "Company members manage invoice lines" on public.invoice_lines
+  for all to authenticated
+  using (exists (select 1 from public.invoices i where i.id = invoice_id))
+  with check (exists (select 1 from public.invoices i where i.id = invoice_id));
+
+-- Settings and number series are shared by every signed-in user
+create policy "Signed-in users manage settings" on public.settings
+  for all to authenticated using (true) with check (true);
+
+create policy "Signed-in users use LR series" on public.lr_series
+  for all to authenticated using (true) with check (true);
+
+create policy "Signed-in users use invoice series" on public.invoice_series
+  for all to authenticated using (true) with check (true);
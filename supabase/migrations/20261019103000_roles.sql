@@ -0,0 +1,283 @@
+-- Roles. The owner runs the company, the accountant handles money and reports,
+-- and a data-entry clerk records trips but cannot touch amounts once a trip is
+-- more than a day old.
+alter table public.profiles
+  add column if not exists role text not null default 'clerk'
+    check (role in ('owner', 'accountant', 'clerk')),
+  add column if not exists email text;
+
+-- Everyone signed up so far set the app up themselves
+update public.profiles set role = 'owner';
+
+update public.profiles p
+set email = u.email
+from auth.users u
+where u.id = p.user_id;
+
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.profiles where user_id = auth.uid();
+$$;
+
+-- Trips a clerk may still change the amounts of
+create or replace function public.is_within_clerk_window(entry_created_at timestamptz)
+returns boolean
+language sql
+stable
+as $$
+  select public.current_user_role() in ('owner', 'accountant')
+    or entry_created_at > now() - interval '24 hours';
+$$;
+
+-- Company and role come from app metadata, which only the service role can set.
+-- User metadata is writable by the user through the auth API and must not decide
+-- which company's rows someone can read.
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.raw_app_meta_data ->> 'company_id' is null then
+    raise exception 'New users need a company_id in their app metadata'
+      using errcode = 'P0001';
+  end if;
+
+  insert into public.profiles (user_id, company_id, full_name, email, role)
+  values (
+    new.id,
+    (new.raw_app_meta_data ->> 'company_id')::uuid,
+    new.raw_user_meta_data ->> 'full_name',
+    new.email,
+    coalesce(new.raw_app_meta_data ->> 'role', 'clerk')
+  );
+  return new;
+end;
+$$;
+
+-- Amounts on a trip are frozen for clerks after 24 hours. The window runs from
+-- created_at, so a clerk cannot set it on insert or move it (or the company) later.
+create or replace function public.lock_entry_amounts_for_clerks()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.current_user_role() in ('owner', 'accountant') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.created_at := now();
+    return new;
+  end if;
+
+  if new.created_at is distinct from old.created_at
+    or new.company_id is distinct from old.company_id then
+    raise exception 'Only the owner or accountant can change when or for which company transport entry % was created', old.id
+      using errcode = '42501';
+  end if;
+
+  if not public.is_within_clerk_window(old.created_at)
+    and (
+      new.weight is distinct from old.weight
+      or new.weight_unit is distinct from old.weight_unit
+      or new.rate_per_unit is distinct from old.rate_per_unit
+      or new.rent_amount is distinct from old.rent_amount
+    ) then
+    raise exception 'Amounts on transport entry % can no longer be changed by a clerk', old.id
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists transport_entries_lock_amounts_for_clerks on public.transport_entries;
+create trigger transport_entries_lock_amounts_for_clerks
+before insert or update on public.transport_entries
+for each row execute function public.lock_entry_amounts_for_clerks();
+
+-- A company always keeps at least one owner
+create or replace function public.keep_one_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.role = 'owner'
+    and (tg_op = 'DELETE' or new.role <> 'owner')
+    and not exists (
+      select 1 from public.profiles
+      where company_id = old.company_id and role = 'owner' and user_id <> old.user_id
+    ) then
+    raise exception 'Company % must keep at least one owner', old.company_id
+      using errcode = 'P0001';
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists profiles_keep_one_owner on public.profiles;
+create trigger profiles_keep_one_owner
+before update or delete on public.profiles
+for each row execute function public.keep_one_owner();
+
+-- Renaming a party updates the name on its trips. This used to run from the
+-- client, which now fails for clerks on trips they are not allowed to edit.
+create or replace function public.sync_party_name()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.transport_entries
+  set transport_name = new.name
+  where party_id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists parties_sync_name on public.parties;
+create trigger parties_sync_name
+after update of name on public.parties
+for each row execute function public.sync_party_name();
+
+-- Replace the "any member may do anything" policies with per-role ones
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['transport_entries', 'parties', 'vehicles', 'drivers', 'lorry_receipts', 'invoices'] loop
+    execute format('drop policy if exists "Company members manage rows" on public.%I', t);
+  end loop;
+end;
+$$;
+
+drop policy if exists "Company members manage payments" on public.payments;
+drop policy if exists "Company members manage trip expenses" on public.trip_expenses;
+drop policy if exists "Company members manage invoice lines" on public.invoice_lines;
+drop policy if exists "Signed-in users manage settings" on public.settings;
+drop policy if exists "Users read their own profile" on public.profiles;
+
+-- Everyone reads, creates and edits trips and masters; only the owner deletes
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['transport_entries', 'parties', 'vehicles', 'drivers', 'lorry_receipts'] loop
+    execute format(
+      'create policy "Company members read rows" on public.%I for select to authenticated
+         using (company_id = public.current_company_id())',
+      t
+    );
+    execute format(
+      'create policy "Company members add rows" on public.%I for insert to authenticated
+         with check (company_id = public.current_company_id())',
+      t
+    );
+    execute format(
+      'create policy "Company members edit rows" on public.%I for update to authenticated
+         using (company_id = public.current_company_id())
+         with check (company_id = public.current_company_id())',
+      t
+    );
+    execute format(
+      'create policy "Owners delete rows" on public.%I for delete to authenticated
+         using (company_id = public.current_company_id() and public.current_user_role() = ''owner'')',
+      t
+    );
+  end loop;
+end;
+$$;
+
+-- Billing is for the owner and the accountant
+create policy "Company members read invoices" on public.invoices
+  for select to authenticated
+  using (company_id = public.current_company_id());
+
+create policy "Accounts staff manage invoices" on public.invoices
+  for all to authenticated
+  using (company_id = public.current_company_id() and public.current_user_role() in ('owner', 'accountant'))
+  with check (company_id = public.current_company_id() and public.current_user_role() in ('owner', 'accountant'));
+
+create policy "Company members read invoice lines" on public.invoice_lines
+  for select to authenticated
+  using (exists (select 1 from public.invoices i where i.id = invoice_id));
+
+create policy "Accounts staff manage invoice lines" on public.invoice_lines
+  for all to authenticated
+  using (
+    public.current_user_role() in ('owner', 'accountant')
+    and exists (select 1 from public.invoices i where i.id = invoice_id)
+  )
+  with check (
+    public.current_user_role() in ('owner', 'accountant')
+    and exists (select 1 from public.invoices i where i.id = invoice_id)
+  );
+
+-- Payments are recorded by the owner and the accountant. A clerk may only enter
+-- the advance while creating a trip.
+create policy "Company members read payments" on public.payments
+  for select to authenticated
+  using (exists (select 1 from public.transport_entries e where e.id = entry_id));
+
+create policy "Clerks add advances to new trips" on public.payments
+  for insert to authenticated
+  with check (exists (
+    select 1 from public.transport_entries e
+    where e.id = entry_id and public.is_within_clerk_window(e.created_at)
+  ));
+
+create policy "Accounts staff manage payments" on public.payments
+  for all to authenticated
+  using (
+    public.current_user_role() in ('owner', 'accountant')
+    and exists (select 1 from public.transport_entries e where e.id = entry_id)
+  )
+  with check (
+    public.current_user_role() in ('owner', 'accountant')
+    and exists (select 1 from public.transport_entries e where e.id = entry_id)
+  );
+
+-- Expenses are amounts too, so they follow the same 24 hour rule as the trip
+create policy "Company members read trip expenses" on public.trip_expenses
+  for select to authenticated
+  using (exists (select 1 from public.transport_entries e where e.id = entry_id));
+
+create policy "Company members manage trip expenses" on public.trip_expenses
+  for all to authenticated
+  using (exists (
+    select 1 from public.transport_entries e
+    where e.id = entry_id and public.is_within_clerk_window(e.created_at)
+  ))
+  with check (exists (
+    select 1 from public.transport_entries e
+    where e.id = entry_id and public.is_within_clerk_window(e.created_at)
+  ));
+
+create policy "Signed-in users read settings" on public.settings
+  for select to authenticated using (true);
+
+create policy "Owners manage settings" on public.settings
+  for all to authenticated
+  using (public.current_user_role() = 'owner')
+  with check (public.current_user_role() = 'owner');
+
+-- Users see their colleagues; the owner changes roles and removes access
+create policy "Company members read profiles" on public.profiles
+  for select to authenticated
+  using (company_id = public.current_company_id());
+
+create policy "Owners update profiles" on public.profiles
+  for update to authenticated
+  using (company_id = public.current_company_id() and public.current_user_role() = 'owner')
+  with check (company_id = public.current_company_id());
+
+create policy "Owners remove profiles" on public.profiles
+  for delete to authenticated
+  using (company_id = public.current_company_id() and public.current_user_role() = 'owner');
@@ -0,0 +1,260 @@
+-- Several firms and branches run from one login. An organisation groups them:
+-- users belong to the organisation and work in one of its companies at a time
+-- (profiles.company_id), which is what current_company_id() and every company
+-- policy already key off.
+create table if not exists public.organisations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_at timestamptz default now()
+);
+
+insert into public.organisations (name)
+select 'Pratik Transport Co'
+where not exists (select 1 from public.organisations);
+
+alter table public.companies
+  add column if not exists organisation_id uuid references public.organisations (id) on delete restrict;
+update public.companies
+set organisation_id = (select id from public.organisations order by created_at limit 1)
+where organisation_id is null;
+alter table public.companies alter column organisation_id set not null;
+create index if not exists companies_organisation_id_idx on public.companies (organisation_id);
+
+alter table public.profiles
+  add column if not exists organisation_id uuid references public.organisations (id) on delete restrict;
+update public.profiles p
+set organisation_id = c.organisation_id
+from public.companies c
+where c.id = p.company_id and p.organisation_id is null;
+alter table public.profiles alter column organisation_id set not null;
+
+create or replace function public.current_organisation_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select organisation_id from public.profiles where user_id = auth.uid();
+$$;
+
+alter table public.companies alter column organisation_id set default public.current_organisation_id();
+
+-- The company switcher. Any member may move between the companies of their own
+-- organisation; roles are organisation wide.
+create or replace function public.switch_company(target_company_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.profiles p
+  set company_id = target_company_id
+  where p.user_id = auth.uid()
+    and exists (
+      select 1 from public.companies c
+      where c.id = target_company_id and c.organisation_id = p.organisation_id
+    );
+
+  if not found then
+    raise exception 'Company % is not part of your organisation', target_company_id
+      using errcode = 'P0001';
+  end if;
+end;
+$$;
+
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  company public.companies;
+begin
+  select * into company
+  from public.companies
+  where id = (new.raw_app_meta_data ->> 'company_id')::uuid;
+
+  if not found then
+    raise exception 'New users need the company_id of an existing company in their app metadata'
+      using errcode = 'P0001';
+  end if;
+
+  insert into public.profiles (user_id, company_id, organisation_id, full_name, email, role)
+  values (
+    new.id,
+    company.id,
+    company.organisation_id,
+    new.raw_user_meta_data ->> 'full_name',
+    new.email,
+    coalesce(new.raw_app_meta_data ->> 'role', 'clerk')
+  );
+  return new;
+end;
+$$;
+
+-- Owners are counted across the organisation now that roles span its companies
+create or replace function public.keep_one_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.role = 'owner'
+    and (tg_op = 'DELETE' or new.role <> 'owner')
+    and not exists (
+      select 1 from public.profiles
+      where organisation_id = old.organisation_id and role = 'owner' and user_id <> old.user_id
+    ) then
+    raise exception 'Organisation % must keep at least one owner', old.organisation_id
+      using errcode = 'P0001';
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+-- Settings (prefixes, GSTIN, letterhead) belong to a company
+alter table public.settings
+  add column if not exists company_id uuid references public.companies (id) on delete cascade;
+update public.settings
+set company_id = (select id from public.companies order by created_at limit 1)
+where company_id is null;
+alter table public.settings alter column company_id set default public.current_company_id();
+alter table public.settings alter column company_id set not null;
+alter table public.settings drop constraint if exists settings_pkey;
+alter table public.settings add primary key (company_id, key);
+
+-- Each company numbers its LRs and invoices on its own
+alter table public.lr_series
+  add column if not exists company_id uuid references public.companies (id) on delete cascade;
+update public.lr_series
+set company_id = (select id from public.companies order by created_at limit 1)
+where company_id is null;
+alter table public.lr_series alter column company_id set not null;
+alter table public.lr_series drop constraint if exists lr_series_pkey;
+alter table public.lr_series add primary key (company_id, financial_year);
+
+alter table public.invoice_series
+  add column if not exists company_id uuid references public.companies (id) on delete cascade;
+update public.invoice_series
+set company_id = (select id from public.companies order by created_at limit 1)
+where company_id is null;
+alter table public.invoice_series alter column company_id set not null;
+alter table public.invoice_series drop constraint if exists invoice_series_pkey;
+alter table public.invoice_series add primary key (company_id, financial_year);
+
+alter table public.lorry_receipts drop constraint if exists lorry_receipts_lr_number_key;
+create unique index if not exists lorry_receipts_lr_number_key on public.lorry_receipts (company_id, lr_number);
+
+alter table public.invoices drop constraint if exists invoices_invoice_number_key;
+create unique index if not exists invoices_invoice_number_key on public.invoices (company_id, invoice_number);
+
+create or replace function public.assign_lr_number()
+returns trigger
+language plpgsql
+as $$
+declare
+  prefix text;
+begin
+  new.financial_year := public.financial_year_of(new.lr_date);
+
+  insert into public.lr_series (company_id, financial_year, last_serial)
+  values (new.company_id, new.financial_year, 1)
+  on conflict (company_id, financial_year)
+    do update set last_serial = public.lr_series.last_serial + 1
+  returning last_serial into new.serial;
+
+  select value #>> '{}' into prefix
+  from public.settings
+  where company_id = new.company_id and key = 'lr_prefix';
+  new.lr_number := coalesce(nullif(prefix, ''), 'LR') || '/' || new.financial_year || '/' || lpad(new.serial::text, 4, '0');
+  return new;
+end;
+$$;
+
+create or replace function public.assign_invoice_number()
+returns trigger
+language plpgsql
+as $$
+declare
+  prefix text;
+begin
+  new.financial_year := public.financial_year_of(new.invoice_date);
+
+  insert into public.invoice_series (company_id, financial_year, last_serial)
+  values (new.company_id, new.financial_year, 1)
+  on conflict (company_id, financial_year)
+    do update set last_serial = public.invoice_series.last_serial + 1
+  returning last_serial into new.serial;
+
+  select value #>> '{}' into prefix
+  from public.settings
+  where company_id = new.company_id and key = 'invoice_prefix';
+  new.invoice_number := coalesce(nullif(prefix, ''), 'INV') || '/' || new.financial_year || '/' || lpad(new.serial::text, 4, '0');
+  return new;
+end;
+$$;
+
+alter table public.organisations enable row level security;
+
+drop policy if exists "Members read their company" on public.companies;
+drop policy if exists "Company members read profiles" on public.profiles;
+drop policy if exists "Owners update profiles" on public.profiles;
+drop policy if exists "Owners remove profiles" on public.profiles;
+drop policy if exists "Signed-in users read settings" on public.settings;
+drop policy if exists "Owners manage settings" on public.settings;
+drop policy if exists "Signed-in users use LR series" on public.lr_series;
+drop policy if exists "Signed-in users use invoice series" on public.invoice_series;
+
+create policy "Members read their organisation" on public.organisations
+  for select to authenticated using (id = public.current_organisation_id());
+
+create policy "Members read organisation companies" on public.companies
+  for select to authenticated using (organisation_id = public.current_organisation_id());
+
+create policy "Owners add companies" on public.companies
+  for insert to authenticated
+  with check (organisation_id = public.current_organisation_id() and public.current_user_role() = 'owner');
+
+create policy "Owners edit companies" on public.companies
+  for update to authenticated
+  using (organisation_id = public.current_organisation_id() and public.current_user_role() = 'owner')
+  with check (organisation_id = public.current_organisation_id());
+
+create policy "Organisation members read profiles" on public.profiles
+  for select to authenticated
+  using (organisation_id = public.current_organisation_id());
+
+create policy "Owners update profiles" on public.profiles
+  for update to authenticated
+  using (organisation_id = public.current_organisation_id() and public.current_user_role() = 'owner')
+  with check (
+    organisation_id = public.current_organisation_id()
+    and exists (
+      select 1 from public.companies c
+      where c.id = company_id and c.organisation_id = public.current_organisation_id()
+    )
+  );
+
+create policy "Owners remove profiles" on public.profiles
+  for delete to authenticated
+  using (organisation_id = public.current_organisation_id() and public.current_user_role() = 'owner');
+
+create policy "Company members read settings" on public.settings
+  for select to authenticated using (company_id = public.current_company_id());
+
+create policy "Owners manage settings" on public.settings
+  for all to authenticated
+  using (company_id = public.current_company_id() and public.current_user_role() = 'owner')
+  with check (company_id = public.current_company_id() and public.current_user_role() = 'owner');
+
+create policy "Company members use LR series" on public.lr_series
+  for all to authenticated
+  using (company_id = public.current_company_id())
+  with check (company_id = public.current_company_id());
+
+create policy "Company members use invoice series" on public.invoice_series
+  for all to authenticated
+  using (company_id = public.current_company_id())
+  with check (company_id = public.current_company_id());
@@ -0,0 +1,94 @@
+-- Who changed what on a trip. Every insert, update and delete on an entry, its
+-- payments and its expenses is written here by trigger, so no client code path
+-- can skip it. Rows are never updated or deleted by the app.
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  company_id uuid not null references public.companies (id) on delete cascade,
+  -- No foreign key: the history must outlive a deleted entry
+  entry_id uuid not null,
+  table_name text not null check (table_name in ('transport_entries', 'payments', 'trip_expenses')),
+  row_id uuid not null,
+  action text not null check (action in ('INSERT', 'UPDATE', 'DELETE')),
+  -- {"rent_amount": {"old": 12000, "new": 12500}, ...}; only the fields that differ
+  changes jsonb not null,
+  changed_by uuid references auth.users (id) on delete set null,
+  -- Copied so the timeline still reads well after the user is removed
+  changed_by_name text,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_entry_id_idx on public.audit_log (entry_id, changed_at);
+create index if not exists audit_log_company_id_idx on public.audit_log (company_id, changed_at);
+
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb := case when tg_op = 'INSERT' then '{}'::jsonb else to_jsonb(old) end;
+  new_row jsonb := case when tg_op = 'DELETE' then '{}'::jsonb else to_jsonb(new) end;
+  full_row jsonb := case when tg_op = 'DELETE' then to_jsonb(old) else to_jsonb(new) end;
+  target_entry_id uuid := coalesce((full_row ->> 'entry_id')::uuid, (full_row ->> 'id')::uuid);
+  target_company_id uuid;
+  diff jsonb;
+begin
+  select coalesce(jsonb_object_agg(k.key, jsonb_build_object('old', old_row -> k.key, 'new', new_row -> k.key)), '{}'::jsonb)
+    into diff
+  from jsonb_object_keys(old_row || new_row) as k (key)
+  where (old_row -> k.key) is distinct from (new_row -> k.key)
+    and k.key not in ('id', 'entry_id', 'company_id', 'created_at');
+
+  -- e.g. recompute_balance_status rewriting the same status
+  if tg_op = 'UPDATE' and diff = '{}'::jsonb then
+    return null;
+  end if;
+
+  -- Payments and expenses carry no company; a cascade from a deleted entry has
+  -- no parent left to look up, but the signed-in user's company is the same one
+  target_company_id := coalesce(
+    (full_row ->> 'company_id')::uuid,
+    (select company_id from public.transport_entries where id = target_entry_id),
+    public.current_company_id()
+  );
+  if target_company_id is null then
+    return null;
+  end if;
+
+  insert into public.audit_log (company_id, entry_id, table_name, row_id, action, changes, changed_by, changed_by_name)
+  values (
+    target_company_id,
+    target_entry_id,
+    tg_table_name,
+    (full_row ->> 'id')::uuid,
+    tg_op,
+    diff,
+    auth.uid(),
+    (select coalesce(nullif(full_name, ''), email) from public.profiles where user_id = auth.uid())
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists transport_entries_audit on public.transport_entries;
+create trigger transport_entries_audit
+after insert or update or delete on public.transport_entries
+for each row execute function public.audit_row_change();
+
+drop trigger if exists payments_audit on public.payments;
+create trigger payments_audit
+after insert or update or delete on public.payments
+for each row execute function public.audit_row_change();
+
+drop trigger if exists trip_expenses_audit on public.trip_expenses;
+create trigger trip_expenses_audit
+after insert or update or delete on public.trip_expenses
+for each row execute function public.audit_row_change();
+
+-- Readable by the company; written only by the trigger above
+alter table public.audit_log enable row level security;
+
+create policy "Company members read the audit log" on public.audit_log
+  for select to authenticated
+  using (company_id = public.current_company_id());
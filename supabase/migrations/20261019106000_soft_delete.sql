@@ -0,0 +1,95 @@
+-- Deleting an entry moves it to the trash. It can be restored until it is purged
+-- by hand from the Trash page or automatically after the company's retention period.
+alter table public.transport_entries
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid references auth.users (id) on delete set null;
+
+create index if not exists transport_entries_trash_idx
+  on public.transport_entries (company_id, deleted_at)
+  where deleted_at is not null;
+
+-- Trashing and restoring follow the delete rules: owner only, and never for a
+-- trip that has a lorry receipt or invoice (those numbers must stay accounted for).
+-- A trashed entry is read-only until it is restored.
+create or replace function public.guard_trashed_entry()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.deleted_at is distinct from old.deleted_at then
+    if public.current_user_role() is distinct from 'owner' then
+      raise exception 'Only the owner can delete or restore entries'
+        using errcode = '42501';
+    end if;
+
+    if new.deleted_at is not null and (
+      exists (select 1 from public.lorry_receipts where entry_id = old.id)
+      or exists (select 1 from public.invoice_lines where entry_id = old.id)
+    ) then
+      raise exception 'Transport entry % has a lorry receipt or invoice', old.id
+        using errcode = '23503';
+    end if;
+
+    new.deleted_by := case when new.deleted_at is null then null else auth.uid() end;
+    return new;
+  end if;
+
+  -- Payment and party-rename triggers may still touch the derived columns
+  if old.deleted_at is not null
+    and (to_jsonb(new) - 'balance_status' - 'balance_date' - 'transport_name')
+      is distinct from (to_jsonb(old) - 'balance_status' - 'balance_date' - 'transport_name') then
+    raise exception 'Transport entry % is in the trash; restore it before editing', old.id
+      using errcode = 'P0001';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists transport_entries_guard_trashed on public.transport_entries;
+create trigger transport_entries_guard_trashed
+before update on public.transport_entries
+for each row execute function public.guard_trashed_entry();
+
+-- Only trashed entries can be removed for good
+drop policy if exists "Owners delete rows" on public.transport_entries;
+create policy "Owners purge trashed entries" on public.transport_entries
+  for delete to authenticated
+  using (
+    company_id = public.current_company_id()
+    and public.current_user_role() = 'owner'
+    and deleted_at is not null
+  );
+
+-- Days a trashed entry is kept, per company (settings key trash_retention_days, default 30)
+create or replace function public.purge_trashed_entries()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  purged integer;
+begin
+  delete from public.transport_entries e
+  where e.deleted_at is not null
+    and e.deleted_at < now() - make_interval(days => coalesce(
+      (select (s.value #>> '{}')::integer from public.settings s
+       where s.company_id = e.company_id and s.key = 'trash_retention_days'),
+      30
+    ));
+  get diagnostics purged = row_count;
+  return purged;
+end;
+$$;
+
+revoke execute on function public.purge_trashed_entries() from public, anon, authenticated;
+
+-- Run the purge nightly where pg_cron is available (it is on hosted Supabase once enabled)
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('purge-trashed-entries', '30 2 * * *', 'select public.purge_trashed_entries()');
+  end if;
+end;
+$$;
@@ -0,0 +1,31 @@
+-- Optimistic concurrency for entry edits. Every edit bumps the version, and the
+-- app only writes when the row still has the version its editor loaded, so two
+-- people saving the same entry can no longer overwrite each other silently.
+alter table public.transport_entries
+  add column if not exists version integer not null default 1,
+  add column if not exists updated_at timestamptz not null default now();
+
+create or replace function public.bump_entry_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Payments, party renames and the trash rewrite these columns themselves;
+  -- they are not edits to the trip and must not conflict with one
+  if (to_jsonb(new) - 'balance_status' - 'balance_date' - 'transport_name' - 'deleted_at' - 'deleted_by' - 'version' - 'updated_at')
+    is distinct from (to_jsonb(old) - 'balance_status' - 'balance_date' - 'transport_name' - 'deleted_at' - 'deleted_by' - 'version' - 'updated_at') then
+    new.version := old.version + 1;
+    new.updated_at := now();
+  else
+    -- Never taken from the client
+    new.version := old.version;
+    new.updated_at := old.updated_at;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists transport_entries_bump_version on public.transport_entries;
+create trigger transport_entries_bump_version
+before update on public.transport_entries
+for each row execute function public.bump_entry_version();
@@ -0,0 +1,39 @@
+-- Live updates of the entries list. Entries and payments are published to
+-- Supabase Realtime, which applies the same row level security as a select.
+-- Each change carries who made it, so a screen only highlights other people's.
+alter table public.transport_entries
+  add column if not exists updated_by uuid default auth.uid() references auth.users (id) on delete set null;
+
+alter table public.payments
+  add column if not exists recorded_by uuid default auth.uid() references auth.users (id) on delete set null;
+
+-- Same edit rule as before; the editor is stamped with the version
+create or replace function public.bump_entry_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Payments, party renames and the trash rewrite these columns themselves;
+  -- they are not edits to the trip and must not conflict with one
+  if (to_jsonb(new) - 'balance_status' - 'balance_date' - 'transport_name' - 'deleted_at' - 'deleted_by' - 'version' - 'updated_at' - 'updated_by')
+    is distinct from (to_jsonb(old) - 'balance_status' - 'balance_date' - 'transport_name' - 'deleted_at' - 'deleted_by' - 'version' - 'updated_at' - 'updated_by') then
+    new.version := old.version + 1;
+    new.updated_at := now();
+    new.updated_by := auth.uid();
+  else
+    -- Never taken from the client
+    new.version := old.version;
+    new.updated_at := old.updated_at;
+    new.updated_by := old.updated_by;
+  end if;
+  return new;
+end;
+$$;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    alter publication supabase_realtime add table public.transport_entries, public.payments;
+  end if;
+end;
+$$;
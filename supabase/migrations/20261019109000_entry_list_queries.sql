@@ -0,0 +1,150 @@
+-- The entries table is filtered, sorted and paged in the database instead of
+-- in the browser. Paid and outstanding amounts are kept on the entry by the
+-- payments trigger so the table can sort by balance and total it cheaply.
+alter table public.transport_entries
+  add column if not exists paid_amount numeric not null default 0,
+  add column if not exists outstanding_amount numeric not null default 0;
+
+create or replace function public.recompute_balance_status(target_entry_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  paid numeric;
+  last_payment timestamptz;
+  rent numeric;
+begin
+  select coalesce(sum(amount), 0), max(date)
+    into paid, last_payment
+    from public.payments
+    where entry_id = target_entry_id;
+
+  select rent_amount into rent from public.transport_entries where id = target_entry_id;
+
+  update public.transport_entries
+    set balance_status = case
+          when paid <= 0 then 'UNPAID'
+          when paid >= rent then 'PAID'
+          else 'PARTIAL'
+        end,
+        balance_date = case when paid >= rent and paid > 0 then last_payment else null end,
+        paid_amount = paid,
+        -- Overpayments never go negative, as in getOutstandingAmount()
+        outstanding_amount = greatest(rent - paid, 0)
+    where id = target_entry_id;
+end;
+$$;
+
+-- The new derived columns are not edits either: payments move them on trashed
+-- and versioned entries alike
+create or replace function public.guard_trashed_entry()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.deleted_at is distinct from old.deleted_at then
+    if public.current_user_role() is distinct from 'owner' then
+      raise exception 'Only the owner can delete or restore entries'
+        using errcode = '42501';
+    end if;
+
+    if new.deleted_at is not null and (
+      exists (select 1 from public.lorry_receipts where entry_id = old.id)
+      or exists (select 1 from public.invoice_lines where entry_id = old.id)
+    ) then
+      raise exception 'Transport entry % has a lorry receipt or invoice', old.id
+        using errcode = '23503';
+    end if;
+
+    new.deleted_by := case when new.deleted_at is null then null else auth.uid() end;
+    return new;
+  end if;
+
+  -- Payment and party-rename triggers may still touch the derived columns
+  if old.deleted_at is not null
+    and (to_jsonb(new) - 'balance_status' - 'balance_date' - 'transport_name' - 'paid_amount' - 'outstanding_amount')
+      is distinct from (to_jsonb(old) - 'balance_status' - 'balance_date' - 'transport_name' - 'paid_amount' - 'outstanding_amount') then
+    raise exception 'Transport entry % is in the trash; restore it before editing', old.id
+      using errcode = 'P0001';
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.bump_entry_version()
+returns trigger
+language plpgsql
+as $$
+declare
+  derived text[] := array[
+    'balance_status', 'balance_date', 'paid_amount', 'outstanding_amount', 'transport_name',
+    'deleted_at', 'deleted_by', 'version', 'updated_at', 'updated_by'
+  ];
+begin
+  -- Payments, party renames and the trash rewrite these columns themselves;
+  -- they are not edits to the trip and must not conflict with one
+  if (to_jsonb(new) - derived) is distinct from (to_jsonb(old) - derived) then
+    new.version := old.version + 1;
+    new.updated_at := now();
+    new.updated_by := auth.uid();
+  else
+    -- Never taken from the client
+    new.version := old.version;
+    new.updated_at := old.updated_at;
+    new.updated_by := old.updated_by;
+  end if;
+  return new;
+end;
+$$;
+
+select public.recompute_balance_status(id) from public.transport_entries;
+
+-- One index per sort key of the table, all within the company's live entries
+create index if not exists transport_entries_list_date_idx
+  on public.transport_entries (company_id, date desc, id)
+  where deleted_at is null;
+create index if not exists transport_entries_list_rent_idx
+  on public.transport_entries (company_id, rent_amount, id)
+  where deleted_at is null;
+create index if not exists transport_entries_list_outstanding_idx
+  on public.transport_entries (company_id, outstanding_amount, id)
+  where deleted_at is null;
+create index if not exists transport_entries_list_status_idx
+  on public.transport_entries (company_id, balance_status, date desc)
+  where deleted_at is null;
+create index if not exists transport_entries_list_vehicle_idx
+  on public.transport_entries (company_id, vehicle_number, date desc)
+  where deleted_at is null;
+
+-- Substring search ("ilike '%...%'") on the columns the search box looks at
+create extension if not exists pg_trgm;
+create index if not exists transport_entries_vehicle_number_trgm_idx
+  on public.transport_entries using gin (vehicle_number gin_trgm_ops);
+create index if not exists transport_entries_place_trgm_idx
+  on public.transport_entries using gin (place gin_trgm_ops);
+create index if not exists transport_entries_transport_name_trgm_idx
+  on public.transport_entries using gin (transport_name gin_trgm_ops);
+create index if not exists drivers_name_trgm_idx
+  on public.drivers using gin (name gin_trgm_ops);
+
+-- Figures for the cards above the table, over all live entries of the company.
+-- The month starts where the browser says it does, so it follows local time.
+create or replace function public.entry_list_summary(month_start timestamptz)
+returns table (
+  total_entries bigint,
+  unpaid_entries bigint,
+  this_month_entries bigint,
+  outstanding_amount numeric
+)
+language sql
+stable
+as $$
+  select
+    count(*),
+    count(*) filter (where e.balance_status <> 'PAID'),
+    count(*) filter (where e.date >= month_start),
+    coalesce(sum(e.outstanding_amount), 0)
+  from public.transport_entries e
+  where e.deleted_at is null;
+$$;
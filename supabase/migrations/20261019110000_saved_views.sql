@@ -0,0 +1,21 @@
+-- Named filter sets for the entries list ("Unpaid > 60 days, Sharma Roadlines"),
+-- private to the user who saved them and kept per company
+create table if not exists public.saved_views (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  company_id uuid not null default public.current_company_id() references public.companies (id) on delete cascade,
+  name text not null check (length(btrim(name)) > 0),
+  -- The list's query string as key/value pairs, e.g. {"status": "UNPAID", "age": "60"}
+  params jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists saved_views_name_key
+  on public.saved_views (user_id, company_id, lower(btrim(name)));
+
+alter table public.saved_views enable row level security;
+
+create policy "Users manage their own saved views" on public.saved_views
+  for all to authenticated
+  using (user_id = auth.uid() and company_id = public.current_company_id())
+  with check (user_id = auth.uid() and company_id = public.current_company_id());
@@ -0,0 +1,106 @@
+-- An invoice and its lines are written in one transaction. Inserting them in two
+-- calls could leave an invoice without lines, or burn a serial from
+-- invoice_series when the lines failed and the invoice was deleted again,
+-- leaving a gap in the GST invoice numbering.
+--
+-- The caller only chooses the date, party, GST mode, place of supply and trips.
+-- Billing details, line amounts and tax are worked out here from the party, the
+-- trips and the company GSTIN, the same way calculateInvoiceTax() does, so the
+-- stored totals always match the trips billed.
+create or replace function public.create_invoice(invoice jsonb, lines jsonb)
+returns public.invoices
+language plpgsql
+as $$
+declare
+  header public.invoices := jsonb_populate_record(null::public.invoices, invoice);
+  party public.parties;
+  trips integer;
+  taxable numeric;
+  company_gstin text;
+  supply_state text;
+  rate numeric;
+  tax numeric;
+  is_intra_state boolean;
+  created public.invoices;
+begin
+  if jsonb_array_length(lines) = 0 then
+    raise exception 'An invoice needs at least one trip'
+      using errcode = 'P0001';
+  end if;
+
+  select * into party from public.parties where id = header.party_id;
+  if not found then
+    raise exception 'Party % not found', header.party_id
+      using errcode = 'P0001';
+  end if;
+
+  select count(*), coalesce(sum(e.rent_amount), 0)
+    into trips, taxable
+  from jsonb_populate_recordset(null::public.invoice_lines, lines) l
+  join public.transport_entries e on e.id = l.entry_id
+  where e.party_id = party.id and e.deleted_at is null;
+
+  if trips <> jsonb_array_length(lines) then
+    raise exception 'Every trip on the invoice must be a trip for %', party.name
+      using errcode = 'P0001';
+  end if;
+
+  -- Same rates as GST_RATES in src/lib/gst.ts
+  rate := case header.gst_mode when 'RCM' then 5 when 'FORWARD' then 12 end;
+  if rate is null then
+    raise exception 'Unknown GST mode %', header.gst_mode
+      using errcode = 'P0001';
+  end if;
+
+  select nullif(btrim(value #>> '{}'), '') into company_gstin
+  from public.settings
+  where company_id = public.current_company_id() and key = 'company_gstin';
+
+  -- A registered party is supplied in the state of its GSTIN
+  supply_state := coalesce(substring(party.gstin from '^(\d{2})'), header.place_of_supply);
+  is_intra_state := substring(company_gstin from '^(\d{2})') = supply_state;
+  tax := round(taxable * rate / 100, 2);
+
+  insert into public.invoices (
+    invoice_date,
+    party_id,
+    party_name,
+    party_gstin,
+    party_address,
+    supplier_gstin,
+    place_of_supply,
+    gst_mode,
+    gst_rate,
+    taxable_amount,
+    cgst_amount,
+    sgst_amount,
+    igst_amount,
+    total_amount
+  )
+  values (
+    coalesce(header.invoice_date, current_date),
+    party.id,
+    party.name,
+    nullif(party.gstin, ''),
+    nullif(party.address, ''),
+    company_gstin,
+    supply_state,
+    header.gst_mode,
+    rate,
+    taxable,
+    case when is_intra_state then round(tax / 2, 2) else 0 end,
+    case when is_intra_state then tax - round(tax / 2, 2) else 0 end,
+    case when is_intra_state then 0 else tax end,
+    -- Under RCM the party pays the tax itself, so it is not added to the total
+    case when header.gst_mode = 'RCM' then taxable else taxable + tax end
+  )
+  returning * into created;
+
+  insert into public.invoice_lines (invoice_id, entry_id, description, amount)
+  select created.id, l.entry_id, l.description, e.rent_amount
+  from jsonb_populate_recordset(null::public.invoice_lines, lines) l
+  join public.transport_entries e on e.id = l.entry_id;
+
+  return created;
+end;
+$$;
@@ -0,0 +1,9 @@
+-- Vehicle numbers are typed freely on trips ("MH 12 AB 1234", "mh12ab1234").
+-- vehicle_key is the registration number as the vehicles master stores it, so
+-- a vehicle's trips can be found however they were written.
+alter table public.transport_entries
+  add column if not exists vehicle_key text
+    generated always as (upper(regexp_replace(vehicle_number, '\s+', '', 'g'))) stored;
+
+create index if not exists transport_entries_vehicle_key_idx
+  on public.transport_entries (company_id, vehicle_key);
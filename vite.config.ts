@@ -46,7 +46,8 @@ export default defineConfig(({ mode }) => ({
           utils: [
             "date-fns"
           ],
-          pdf: ["jspdf", "jspdf-autotable"]
+          pdf: ["jspdf", "jspdf-autotable"],
+          spreadsheet: ["exceljs"]
         }
       }
     },